@@ -7,9 +7,13 @@
  *   2. Standards/Guidelines table
  *   3. Four WCAG category tables (Perceivable, Operable, Understandable, Robust)
  *
+ * Only questions covering a success criterion in the target standard are
+ * included (default WCAG 2.1 Level AA).
+ *
  * Usage:
  *   npx tsx scripts/create-template.ts
  *   npx tsx scripts/create-template.ts --product "ClearGov ClearDocs" --description "..."
+ *   npx tsx scripts/create-template.ts --wcag 2.1 --level AA
  */
 import { readFileSync } from 'fs';
 import { writeFileSync, mkdirSync } from 'fs';
@@ -29,7 +33,15 @@ import {
   ShadingType,
   TableLayoutType,
 } from 'docx';
-import type { WcagToQuestionEntry } from '../src/types.js';
+import type { WcagToQuestionEntry, WcagStandard, WcagVersion, WcagLevel } from '../src/types.js';
+import {
+  DEFAULT_STANDARD,
+  WCAG_LEVELS,
+  WCAG_VERSIONS,
+  filterMappingForStandard,
+  standardLabel,
+  standardsTableRows,
+} from '../src/mapping/wcagStandard.js';
 
 // ---------------------------------------------------------------------------
 // Data
@@ -39,24 +51,34 @@ import type { WcagToQuestionEntry } from '../src/types.js';
 // CLI args
 // ---------------------------------------------------------------------------
 
-function parseArgs(): { product: string; description: string } {
+function parseArgs(): { product: string; description: string; standard: WcagStandard } {
   const args = process.argv.slice(2);
   let product = 'ClearGov Transparency';
   let description =
     'ClearGov Transparency is a public-facing financial data visualization platform that helps municipalities present budgets, revenues, and expenditures to residents in an accessible, interactive format.';
 
+  const standard = { ...DEFAULT_STANDARD };
+
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--product' && args[i + 1]) {
       product = args[++i];
     } else if (args[i] === '--description' && args[i + 1]) {
       description = args[++i];
+    } else if (args[i] === '--wcag' && args[i + 1]) {
+      const version = args[++i] as WcagVersion;
+      if (!WCAG_VERSIONS.includes(version)) throw new Error(`--wcag must be one of ${WCAG_VERSIONS.join(', ')}`);
+      standard.version = version;
+    } else if (args[i] === '--level' && args[i + 1]) {
+      const level = args[++i].toUpperCase() as WcagLevel;
+      if (!WCAG_LEVELS.includes(level)) throw new Error(`--level must be one of ${WCAG_LEVELS.join(', ')}`);
+      standard.level = level;
     }
   }
 
-  return { product, description };
+  return { product, description, standard };
 }
 
-const { product: PRODUCT_NAME, description: PRODUCT_DESCRIPTION } = parseArgs();
+const { product: PRODUCT_NAME, description: PRODUCT_DESCRIPTION, standard: STANDARD } = parseArgs();
 
 // Derive short name for filename: last word of product name (e.g. "ClearGov ClearDocs" → "ClearDocs")
 const SHORT_NAME = PRODUCT_NAME.split(/\s+/).pop()!;
@@ -64,7 +86,10 @@ const SHORT_NAME = PRODUCT_NAME.split(/\s+/).pop()!;
 const MAPPING_PATH = resolve(import.meta.dirname, '../mappings/wcag-to-questions.json');
 const OUTPUT_PATH = resolve(import.meta.dirname, `../templates/${SHORT_NAME}-VPAT-Template.docx`);
 
-const mapping: WcagToQuestionEntry[] = JSON.parse(readFileSync(MAPPING_PATH, 'utf-8'));
+const mapping = filterMappingForStandard(
+  JSON.parse(readFileSync(MAPPING_PATH, 'utf-8')) as WcagToQuestionEntry[],
+  STANDARD
+);
 
 // Category → WCAG SC prefixes
 const CATEGORIES: { name: string; label: string; scPrefixes: string[] }[] = [
@@ -75,11 +100,7 @@ const CATEGORIES: { name: string; label: string; scPrefixes: string[] }[] = [
 ];
 
 // Standards table data
-const STANDARDS = [
-  { standard: 'Web Content Accessibility Guidelines 2.0', included: 'Level A — Yes\nLevel AA — Yes\nLevel AAA — Yes' },
-  { standard: 'Web Content Accessibility Guidelines 2.1', included: 'Level A — Yes\nLevel AA — Yes\nLevel AAA — Yes' },
-  { standard: 'Web Content Accessibility Guidelines 2.2', included: 'Level A — Yes\nLevel AA — Yes\nLevel AAA — Yes' },
-];
+const STANDARDS = standardsTableRows(STANDARD);
 
 // ---------------------------------------------------------------------------
 // Styles
@@ -317,6 +338,12 @@ function buildDocument(): Document {
         new TextRun({ text: 'accessibility@cleargov.com', size: 20, font: 'Calibri' }),
       ],
     }),
+    new Paragraph({
+      children: [
+        new TextRun({ text: 'Conformance Target: ', bold: true, size: 20, font: 'Calibri' }),
+        new TextRun({ text: standardLabel(STANDARD), size: 20, font: 'Calibri' }),
+      ],
+    }),
     new Paragraph({
       children: [
         new TextRun({ text: 'Evaluation Methods Used: ', bold: true, size: 20, font: 'Calibri' }),
@@ -371,7 +398,7 @@ function buildDocument(): Document {
 // ---------------------------------------------------------------------------
 
 async function main() {
-  console.log(`Building ${SHORT_NAME} VPAT template...`);
+  console.log(`Building ${SHORT_NAME} VPAT template (${standardLabel(STANDARD)})...`);
   console.log(`Reading questions from: ${MAPPING_PATH}`);
 
   // Count questions per category
@@ -58,8 +58,10 @@ async function main() {
     const entry: WcagToQuestionEntry = {
       wcagSc: sc,
       sectionName: scQuestions[0].section,
-      questions: scQuestions.map((q) => ({
+      questions: scQuestions.map((q, i) => ({
+        id: `${sc}-${i + 1}`, // Placeholder; once curated, IDs must stay stable
         questionText: q.questionText,
+        wcagScs: [], // User needs to assign the success criteria each question covers
         rowIndices: {
           [q.category]: q.rowIndex,
         },
@@ -1,4 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
+import type { ContentBlockParam } from '@anthropic-ai/sdk/resources/messages';
 import type { QuestionScore, WcagScResult, DetailedScanResult } from '../types.js';
 import type { AiReviewResult, AiReviewOptions, ScanEvidence } from './types.js';
 import { DEFAULT_AI_OPTIONS } from './types.js';
@@ -28,8 +29,8 @@ export async function reviewManualQuestions(
     const chunk = batches.slice(i, i + opts.maxConcurrentBatches);
     const promises = chunk.map(async (batch) => {
       try {
-        const { system, userMessage } = buildMessages(batch, scanResults, evidence);
-        const results = await callClaudeWithRetry(client, system, userMessage, opts.model);
+        const { system, content } = buildMessages(batch, scanResults, evidence, opts.standard);
+        const results = await callClaudeWithRetry(client, system, content, opts.model);
         allResults.push(...results);
       } catch (error) {
         // Graceful degradation: log warning, leave scores as null
@@ -50,7 +51,7 @@ export async function reviewManualQuestions(
 async function callClaudeWithRetry(
   client: Anthropic,
   system: string,
-  userMessage: string,
+  userMessage: string | ContentBlockParam[],
   model: string,
   retryCount = 0
 ): Promise<AiReviewResult[]> {
@@ -135,6 +136,7 @@ export function mergeAiResults(
     if (aiResult.score !== null && aiResult.confidence >= confidenceThreshold) {
       match.score = aiResult.score;
       match.weightedScore = match.weight * aiResult.score;
+      match.source = 'ai';
       // Comments stay empty — reserved for human reviewer
       match.comment = '';
       scored++;
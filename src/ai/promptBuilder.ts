@@ -1,6 +1,17 @@
-import type { QuestionScore, WcagScResult, DetailedScanResult } from '../types.js';
+import type { ContentBlockParam } from '@anthropic-ai/sdk/resources/messages';
+import type { QuestionScore, WcagScResult, DetailedScanResult, WcagStandard, AxeNodeDetail } from '../types.js';
 import type { ScanEvidence } from './types.js';
 import { loadQuestionMapping } from '../mapping/questionMapping.js';
+import { standardLabel, DEFAULT_STANDARD } from '../mapping/wcagStandard.js';
+import { isFailedScan } from '../scanner/resultAggregator.js';
+import { pngDimensions } from '../scanner/evidence.js';
+import { distinctElements } from '../scanner/remediationReport.js';
+
+/** Evidence limits per batch — keeps requests within API image and token limits */
+const MAX_EVIDENCE_PAGES = 2;
+const MAX_TREE_CHARS = 6000;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGE_DIMENSION = 8000;
 
 export interface QuestionBatch {
   wcagSection: string;
@@ -9,12 +20,15 @@ export interface QuestionBatch {
   scanSummary: string;
 }
 
-const SYSTEM_PROMPT = `You are a WCAG 2.1 accessibility auditor reviewing automated scan results to assess conformance questions.
+/** System prompt naming the report's target standard */
+export function buildSystemPrompt(standard: WcagStandard): string {
+  return `You are a ${standardLabel(standard)} accessibility auditor reviewing automated scan results to assess conformance questions.
 
 You will receive:
 - A set of WCAG conformance questions with their weights
 - Automated scan data including pass/fail/incomplete counts per URL
 - Violation details with CSS selectors, HTML snippets, and failure summaries
+- Optionally, page screenshots and accessibility-tree snapshots for representative pages
 
 For each question, determine:
 - score: 1 (supports/conforms), 0 (does not support), or null (insufficient evidence)
@@ -39,6 +53,7 @@ Respond with a JSON array of objects, one per question. Each object must have:
 }
 
 Return ONLY the JSON array, no other text.`;
+}
 
 /** Group manual questions by WCAG section for batched API calls */
 export function groupQuestionsBySection(
@@ -47,7 +62,7 @@ export function groupQuestionsBySection(
   scanResults: DetailedScanResult[]
 ): QuestionBatch[] {
   // Filter to null-score (manual review) questions only
-  const manualQuestions = scores.filter(s => s.score === null);
+  const manualQuestions = scores.filter(s => s.score === null && !s.outOfScope);
   if (manualQuestions.length === 0) return [];
 
   // Group by WCAG section prefix (e.g., "1.1", "1.3", "2.1")
@@ -127,6 +142,10 @@ function buildScanSummary(scanResults: DetailedScanResult[]): string {
   // Per-URL summary
   for (const result of scanResults) {
     const urlShort = result.url.replace(/https?:\/\//, '').substring(0, 60);
+    if (isFailedScan(result)) {
+      lines.push(`${urlShort}: scan failed (${result.status}) — no results`);
+      continue;
+    }
     lines.push(`${urlShort}: ${result.violations.length} violations, ${result.passes.length} passes, ${result.incomplete.length} incomplete`);
   }
 
@@ -148,7 +167,9 @@ function buildViolationDetails(
     }
   }
 
-  // Add detailed violation info from scan results
+  // Add detailed violation info from scan results, grouped by rule so a shared
+  // component failing on every page is described once
+  const rules = new Map<string, { help: string; impact: string | null; occurrences: { url: string; nodes: AxeNodeDetail[] }[] }>();
   for (const scan of scanResults) {
     for (const v of scan.violationDetails) {
       // Check if this violation maps to the current WCAG section
@@ -160,31 +181,87 @@ function buildViolationDetails(
       });
 
       if (matchesSection && v.nodeDetails.length > 0) {
-        lines.push('');
-        lines.push(`Rule: ${v.ruleId} — ${v.help}`);
-        lines.push(`Impact: ${v.impact}`);
-        // Show up to 3 node examples
-        for (const node of v.nodeDetails.slice(0, 3)) {
-          lines.push(`  Selector: ${node.target.join(' > ')}`);
-          lines.push(`  HTML: ${node.html.substring(0, 200)}`);
-          lines.push(`  Fix: ${node.failureSummary}`);
-        }
-        if (v.nodeDetails.length > 3) {
-          lines.push(`  ... and ${v.nodeDetails.length - 3} more nodes`);
-        }
+        const rule = rules.get(v.ruleId) ?? { help: v.help, impact: v.impact, occurrences: [] };
+        rule.occurrences.push({ url: scan.url, nodes: v.nodeDetails });
+        rules.set(v.ruleId, rule);
       }
     }
   }
 
+  for (const [ruleId, rule] of rules) {
+    const elements = distinctElements(rule.occurrences);
+    const total = rule.occurrences.reduce((sum, o) => sum + o.nodes.length, 0);
+    lines.push('');
+    lines.push(`Rule: ${ruleId} — ${rule.help}`);
+    lines.push(`Impact: ${rule.impact}`);
+    lines.push(`Occurrences: ${total} across ${rule.occurrences.length} page(s), ${elements.length} distinct element(s)`);
+    // Show up to 3 distinct element examples
+    for (const { node, urls } of elements.slice(0, 3)) {
+      lines.push(`  Selector: ${node.target.join(' > ')}${urls.length > 1 ? ` (on ${urls.length} pages)` : ''}`);
+      lines.push(`  HTML: ${node.html.substring(0, 200)}`);
+      lines.push(`  Fix: ${node.failureSummary}`);
+    }
+    if (elements.length > 3) {
+      lines.push(`  ... and ${elements.length - 3} more distinct elements`);
+    }
+  }
+
   return lines.join('\n');
 }
 
+/** Pages to show as evidence: those with violations in this section first, then any others */
+export function evidencePagesForSection(
+  scanResults: DetailedScanResult[],
+  wcagSection: string,
+  evidence: ScanEvidence
+): string[] {
+  const hasEvidence = (url: string) => evidence.screenshots.has(url) || evidence.accessibilityTrees.has(url);
+  const inSection = (r: DetailedScanResult) =>
+    r.violationDetails.some((v) => v.wcagTags.some((tag) => {
+      const match = tag.match(/^wcag(\d)(\d)(\d+)$/);
+      return match !== null && `${match[1]}.${match[2]}` === wcagSection;
+    }));
+
+  const withEvidence = scanResults.filter((r) => hasEvidence(r.url));
+  const ordered = [...withEvidence.filter(inSection), ...withEvidence.filter((r) => !inSection(r))];
+  return [...new Set(ordered.map((r) => r.url))].slice(0, MAX_EVIDENCE_PAGES);
+}
+
+/** Image and text blocks for a batch's evidence pages */
+function buildEvidenceBlocks(urls: string[], evidence: ScanEvidence): ContentBlockParam[] {
+  const blocks: ContentBlockParam[] = [];
+  for (const url of urls) {
+    const screenshot = evidence.screenshots.get(url);
+    const size = screenshot ? pngDimensions(screenshot) : null;
+    if (
+      screenshot &&
+      size &&
+      screenshot.length <= MAX_IMAGE_BYTES &&
+      Math.max(size.width, size.height) <= MAX_IMAGE_DIMENSION
+    ) {
+      blocks.push({ type: 'text', text: `Screenshot of ${url}:` });
+      blocks.push({
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/png', data: screenshot.toString('base64') },
+      });
+    }
+
+    const tree = evidence.accessibilityTrees.get(url);
+    if (tree) {
+      const truncated = tree.length > MAX_TREE_CHARS ? `${tree.slice(0, MAX_TREE_CHARS)}\n... (truncated)` : tree;
+      blocks.push({ type: 'text', text: `Accessibility tree of ${url}:\n${truncated}` });
+    }
+  }
+  return blocks;
+}
+
 /** Build the messages array for a single batch API call */
 export function buildMessages(
   batch: QuestionBatch,
   scanResults: DetailedScanResult[],
-  _evidence?: ScanEvidence
-): { system: string; userMessage: string } {
+  evidence?: ScanEvidence,
+  standard: WcagStandard = DEFAULT_STANDARD
+): { system: string; userMessage: string; content: ContentBlockParam[] } {
   const questionList = batch.questions.map((q, i) =>
     `${i + 1}. [Weight: ${q.weight}] "${q.questionText}"`
   ).join('\n');
@@ -202,5 +279,10 @@ ${batch.scanSummary}
 ### Violation Details for Section ${batch.wcagSection}:
 ${violationDetails || 'No violations or passes detected for this section.'}`;
 
-  return { system: SYSTEM_PROMPT, userMessage };
+  const content: ContentBlockParam[] = [{ type: 'text', text: userMessage }];
+  if (evidence) {
+    content.push(...buildEvidenceBlocks(evidencePagesForSection(scanResults, batch.wcagSection, evidence), evidence));
+  }
+
+  return { system: buildSystemPrompt(standard), userMessage, content };
 }
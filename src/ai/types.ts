@@ -1,3 +1,6 @@
+import type { WcagStandard } from '../types.js';
+import { DEFAULT_STANDARD } from '../mapping/wcagStandard.js';
+
 export interface AiReviewResult {
   questionText: string;
   score: 1 | 0 | null;
@@ -10,6 +13,7 @@ export interface AiReviewOptions {
   confidenceThreshold: number; // default 0.7
   model: string; // default 'claude-sonnet-4-20250514'
   maxConcurrentBatches: number; // default 2
+  standard: WcagStandard; // default WCAG 2.1 Level AA
 }
 
 export interface ScanEvidence {
@@ -21,4 +25,5 @@ export const DEFAULT_AI_OPTIONS: AiReviewOptions = {
   confidenceThreshold: 0.7,
   model: 'claude-sonnet-4-20250514',
   maxConcurrentBatches: 2,
+  standard: DEFAULT_STANDARD,
 };
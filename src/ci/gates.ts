@@ -0,0 +1,104 @@
+import type { CiGatesConfig, DetailedScanResult, Impact } from '../types.js';
+import type { scoringSummary } from '../mapping/index.js';
+import { diffScanResults } from '../diff/scanDiff.js';
+
+/** Process exit codes for `--ci`; when several gates fail the first in this order wins */
+export const CI_EXIT_CODES = {
+  passed: 0,
+  error: 1,
+  violations: 2,
+  newViolations: 3,
+  passingPercent: 4,
+  scanFailures: 5,
+} as const;
+
+export interface GateResult {
+  gate: 'max-critical' | 'max-serious' | 'no-new-violations' | 'min-passing-percent';
+  passed: boolean;
+  actual: string;
+  limit: string;
+  exitCode: number;
+  /** Offending rules, for the compact summary */
+  details: string[];
+}
+
+export interface GateInput {
+  scanResults: DetailedScanResult[];
+  /** Earlier `--scan-only` results to compare against */
+  baseline?: DetailedScanResult[];
+  summary: ReturnType<typeof scoringSummary>;
+}
+
+/** Rule failures of one impact, counted per rule per page as in the scan summary */
+export function countViolations(scanResults: DetailedScanResult[], impact: Impact): { count: number; rules: string[] } {
+  const rules = new Set<string>();
+  let count = 0;
+  for (const result of scanResults) {
+    for (const violation of result.violations) {
+      if (violation.impact !== impact) continue;
+      count++;
+      rules.add(violation.ruleId);
+    }
+  }
+  return { count, rules: [...rules].sort() };
+}
+
+/** Passing questions as a share of the questions that received a score */
+export function passingPercent(summary: ReturnType<typeof scoringSummary>): number {
+  const scored = summary.total - summary.na;
+  return scored === 0 ? 100 : Math.round((summary.passing / scored) * 1000) / 10;
+}
+
+/** Evaluate every configured gate; unset gates are skipped */
+export function evaluateGates(input: GateInput, gates: CiGatesConfig): GateResult[] {
+  const results: GateResult[] = [];
+
+  const impactGates: [Impact, number | null, GateResult['gate']][] = [
+    ['critical', gates.maxCritical, 'max-critical'],
+    ['serious', gates.maxSerious, 'max-serious'],
+  ];
+  for (const [impact, max, gate] of impactGates) {
+    if (max === null) continue;
+    const { count, rules } = countViolations(input.scanResults, impact);
+    results.push({
+      gate,
+      passed: count <= max,
+      actual: String(count),
+      limit: `≤ ${max}`,
+      exitCode: CI_EXIT_CODES.violations,
+      details: count > max ? rules : [],
+    });
+  }
+
+  if (input.baseline) {
+    const added = diffScanResults(input.baseline, input.scanResults).rules.filter((r) => r.newPages.length > 0);
+    const pages = added.reduce((sum, r) => sum + r.newPages.length, 0);
+    results.push({
+      gate: 'no-new-violations',
+      passed: added.length === 0,
+      actual: `${added.length} rule(s) on ${pages} page(s)`,
+      limit: 'none',
+      exitCode: CI_EXIT_CODES.newViolations,
+      details: added.map((r) => `${r.ruleId} (${r.newPages.length} page(s))`),
+    });
+  }
+
+  if (gates.minPassingPercent !== null) {
+    const percent = passingPercent(input.summary);
+    results.push({
+      gate: 'min-passing-percent',
+      passed: percent >= gates.minPassingPercent,
+      actual: `${percent}%`,
+      limit: `≥ ${gates.minPassingPercent}%`,
+      exitCode: CI_EXIT_CODES.passingPercent,
+      details: [],
+    });
+  }
+
+  return results;
+}
+
+/** Exit code for a set of gate results */
+export function ciExitCode(results: GateResult[]): number {
+  return results.find((r) => !r.passed)?.exitCode ?? CI_EXIT_CODES.passed;
+}
@@ -2,208 +2,272 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import Table from 'cli-table3';
-import { writeFileSync, readdirSync } from 'fs';
-import { resolve, basename } from 'path';
-import { loadConfig } from './config.js';
-import { scanUrls } from './scanner/axeRunner.js';
-import { buildRemediationIssues, generateRemediationMarkdown } from './scanner/remediationReport.js';
+import { writeFileSync, readFileSync, readdirSync, mkdirSync, existsSync } from 'fs';
+import { resolve, basename, dirname } from 'path';
+import { loadConfig, mergeDiscoveredUrls } from './config.js';
+import { discoverUrls } from './scanner/crawler.js';
 import { aggregateResults } from './scanner/resultAggregator.js';
-import { scoreQuestions, scoringSummary } from './mapping/index.js';
+import { scoringSummary } from './mapping/index.js';
+import { standardLabel } from './mapping/wcagStandard.js';
+import { findPreviousProduct } from './mapping/carryForward.js';
 import { parseTemplate } from './docx/reader.js';
-import { generateDocx } from './docx/writer.js';
-import { reviewManualQuestions, mergeAiResults } from './ai/aiReviewer.js';
-import { generateRemediationPlanDocx } from './remediation/planDocx.js';
-import type { VpatConfig } from './types.js';
-
-interface CliOptions {
+import { CI_EXIT_CODES, ciExitCode, evaluateGates, type GateResult } from './ci/gates.js';
+import { diffAcrProducts } from './diff/acrDiff.js';
+import { diffScanResults, loadScanResults } from './diff/scanDiff.js';
+import { buildAcrDiffSections, buildScanDiffSections, generateDiffDocx, generateDiffMarkdown, type DiffReport } from './diff/diffReport.js';
+import {
+  EXPORT_FORMATS,
+  aggregateStage,
+  applyWaivers,
+  checkScanFailures,
+  loadTemplateProduct,
+  prepareOutputs,
+  printRemainingManual,
+  printScanSummary,
+  printScoreSummary,
+  renderStage,
+  reviewStage,
+  scanStage,
+  scoreStage,
+  writeRemediationOutputs,
+  writeReportDocuments,
+  type ExportFormat,
+  type StageOptions,
+} from './pipeline/stages.js';
+import {
+  buildScoresFile,
+  buildVerdictsFile,
+  intermediatePath,
+  readScores,
+  readVerdicts,
+  writeIntermediate,
+} from './pipeline/intermediates.js';
+import type { VpatConfig, DetailedScanResult, AuthConfig } from './types.js';
+
+interface CliOptions extends StageOptions {
   config?: string;
   all?: boolean;
-  dryRun?: boolean;
   scanOnly?: boolean;
-  verbose?: boolean;
-  concurrency?: number;
   aiReview?: boolean;
-  aiConfidence?: number;
-  aiModel?: string;
+  baseline?: string;
+  fromScan?: string;
 }
 
-async function runProduct(config: VpatConfig, options: CliOptions): Promise<{ product: string; success: boolean; error?: string }> {
-  const productName = config.product;
-
-  // Add date+timestamp to output filename so repeated runs never overwrite
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-  config.outputPath = config.outputPath.replace(/\.docx$/i, `-${timestamp}.docx`);
-
-  if (options.concurrency) {
-    config.scanOptions.concurrency = options.concurrency;
+function parseExportFormats(value: string): ExportFormat[] {
+  const formats = value.split(',').map((f) => f.trim().toLowerCase()).filter(Boolean);
+  for (const f of formats) {
+    if (!(EXPORT_FORMATS as readonly string[]).includes(f)) {
+      throw new Error(`Unknown export format "${f}" (expected ${EXPORT_FORMATS.join(', ')})`);
+    }
   }
+  return formats as ExportFormat[];
+}
+
+interface ProductResult {
+  product: string;
+  success: boolean;
+  error?: string;
+  /** Set in --ci mode; see CI_EXIT_CODES */
+  exitCode?: number;
+}
 
-  console.log(chalk.bold.underline(`\nProduct: ${productName} (${config.reportDate})`));
+function printProductHeader(config: VpatConfig): void {
+  console.log(chalk.bold.underline(`\nProduct: ${config.product} (${config.reportDate})`));
   console.log(chalk.dim(`  Template: ${config.templatePath}`));
-  console.log(chalk.dim(`  URLs: ${config.urls.length}`));
+  console.log(chalk.dim(`  Standard: ${standardLabel(config.standard)}`));
+  console.log(chalk.dim(`  URLs: ${config.urls.length}${config.urlSource === 'discovered' ? ` (discovered, ${basename(config.discovery!.outputPath)})` : ''}`));
+  const stateCount = Object.values(config.states).reduce((sum, states) => sum + states.length, 0);
+  if (stateCount > 0) {
+    console.log(chalk.dim(`  Interaction states: ${stateCount} on ${Object.keys(config.states).length} URLs`));
+  }
   console.log(chalk.dim(`  Concurrency: ${config.scanOptions.concurrency}`));
+  if (config.auth) {
+    console.log(chalk.dim(`  Auth: ${describeAuth(config.auth)}`));
+  }
   console.log();
+}
 
-  // Step 1: Scan URLs
-  const scanSpinner = ora(`Scanning ${config.urls.length} URLs...`).start();
-  const scanResults = await scanUrls(
-    config.urls,
-    config.scanOptions,
-    (url, index, total) => {
-      scanSpinner.text = `Scanning (${index + 1}/${total}): ${url}`;
-    }
-  );
-  scanSpinner.succeed(`Scanned ${scanResults.length} URLs`);
-
-  // Show scan summary
-  const totalViolations = scanResults.reduce((sum, r) => sum + r.violations.length, 0);
-  const totalPasses = scanResults.reduce((sum, r) => sum + r.passes.length, 0);
-  const totalIncomplete = scanResults.reduce((sum, r) => sum + r.incomplete.length, 0);
-  console.log(chalk.dim(`  Violations: ${totalViolations} | Passes: ${totalPasses} | Incomplete: ${totalIncomplete}`));
-  console.log();
+/** The whole pipeline in one go: scan → aggregate → score → AI review → DOCX → remediation */
+async function runProduct(config: VpatConfig, options: CliOptions): Promise<ProductResult> {
+  const productName = config.product;
+  const verbose = options.verbose ?? false;
+  const { timestamp, evidenceDir } = prepareOutputs(config, options);
+  printProductHeader(config);
+
+  // Step 1: Scan URLs, or rebuild from saved results without a browser
+  let rawScanResults: DetailedScanResult[];
+  if (options.fromScan) {
+    rawScanResults = loadScanResults(resolve(options.fromScan));
+    console.log(chalk.green(`Loaded ${rawScanResults.length} scan results from ${options.fromScan}`));
+  } else {
+    rawScanResults = await scanStage(config, options, evidenceDir, timestamp);
+  }
+  const failure = checkScanFailures(config, rawScanResults);
+  if (failure) {
+    return { product: productName, success: false, error: failure, exitCode: options.ci ? CI_EXIT_CODES.scanFailures : undefined };
+  }
 
-  // Generate remediation report
-  const remediationIssues = buildRemediationIssues(scanResults);
-  const remediationMd = generateRemediationMarkdown(remediationIssues, config.product, config.reportDate);
-  const remediationPath = resolve(config.outputPath.replace(/\.docx$/i, '-remediation.md'));
-  writeFileSync(remediationPath, remediationMd);
-  console.log(chalk.green(`Remediation report saved to ${remediationPath}`));
-  console.log();
+  const { scanResults, waived } = applyWaivers(config, rawScanResults);
+  printScanSummary(scanResults, evidenceDir);
+  const { remediationIssues, comparison } = await writeRemediationOutputs(config, scanResults, waived, options);
 
   // Save raw results if --scan-only
   if (options.scanOnly) {
-    const outputPath = resolve(`./output/${productName.toLowerCase()}-scan-results.json`);
-    writeFileSync(outputPath, JSON.stringify(scanResults, null, 2));
+    const outputPath = intermediatePath(productName, 'scan-results');
+    writeFileSync(outputPath, JSON.stringify(rawScanResults, null, 2));
     console.log(chalk.green(`Scan results saved to ${outputPath}`));
     return { product: productName, success: true };
   }
 
   // Step 2: Aggregate results
-  const aggSpinner = ora('Aggregating results by WCAG criterion...').start();
-  const wcagResults = aggregateResults(scanResults);
-  aggSpinner.succeed(`Aggregated results for ${wcagResults.size} WCAG success criteria`);
-
-  if (options.verbose) {
-    const aggTable = new Table({
-      head: ['WCAG SC', 'Status', 'Violations', 'URLs Affected'],
-      style: { head: ['cyan'] },
-    });
-    for (const [sc, result] of [...wcagResults.entries()].sort()) {
-      const statusColor = result.status === 'pass' ? 'green' : result.status === 'fail' ? 'red' : 'yellow';
-      aggTable.push([
-        sc,
-        chalk[statusColor](result.status),
-        String(result.totalViolations),
-        `${result.urlsWithViolations}/${result.totalUrls}`,
-      ]);
-    }
-    console.log(aggTable.toString());
-    console.log();
-  }
+  const { wcagResults, ruleResults } = aggregateStage(scanResults, verbose);
 
   // Step 3: Parse template and score questions
-  const templateSpinner = ora('Parsing DOCX template...').start();
-  const { products, zip, parsedDoc } = await parseTemplate(resolve(config.templatePath));
-  const product = products[config.productSectionIndex];
-  if (!product) {
-    templateSpinner.fail(`Product section index ${config.productSectionIndex} not found`);
-    return { product: productName, success: false, error: `Product section index ${config.productSectionIndex} not found` };
-  }
-  templateSpinner.succeed(`Parsed template: ${product.name}`);
-
-  const scoreSpinner = ora('Scoring questions...').start();
-  const scores = scoreQuestions(product, wcagResults);
-  scoreSpinner.succeed('Questions scored');
+  const template = await loadTemplateProduct(config);
+  const scores = await scoreStage(config, template.product, wcagResults, ruleResults, verbose);
 
   // Step 3b: AI Review (when --ai-review is set)
   if (options.aiReview) {
-    const aiSpinner = ora('AI reviewing manual questions...').start();
-    const aiResults = await reviewManualQuestions(
-      scores,
-      wcagResults,
-      scanResults,
-      undefined, // no evidence capture yet (Phase 2+)
-      {
-        confidenceThreshold: options.aiConfidence ?? 0.7,
-        model: options.aiModel ?? 'claude-sonnet-4-20250514',
-      },
-      (completed, total) => {
-        aiSpinner.text = `AI reviewing manual questions (${completed}/${total} batches)...`;
-      }
-    );
-
-    const threshold = options.aiConfidence ?? 0.7;
-    const { scored, belowThreshold } = mergeAiResults(scores, aiResults, threshold);
-    aiSpinner.succeed(`AI reviewed ${aiResults.length} questions (${scored} scored, ${belowThreshold} need manual review)`);
-    console.log();
+    await reviewStage(config, scores, wcagResults, scanResults, options);
   }
 
-  // Recalculate summary after AI review
-  const summary = scoringSummary(scores);
-
-  // Display summary
-  const summaryTable = new Table({
-    style: { head: ['cyan'] },
-  });
-  summaryTable.push(
-    { 'Total Questions': String(summary.total) },
-    { 'Automated': chalk.blue(String(summary.automated)) },
-    { 'Manual Review': chalk.yellow(String(summary.manual)) },
-    { 'Passing': chalk.green(String(summary.passing)) },
-    { 'Failing': chalk.red(String(summary.failing)) },
-    { 'N/A': chalk.dim(String(summary.na)) },
-  );
-  console.log(summaryTable.toString());
-  console.log();
-
-  if (options.verbose) {
-    const detailTable = new Table({
-      head: ['Question', 'Weight', 'Score', 'Auto', 'Comment'],
-      style: { head: ['cyan'] },
-      colWidths: [40, 8, 7, 6, 50],
-      wordWrap: true,
-    });
-    for (const s of scores) {
-      const scoreStr = s.score === null ? '*' : String(s.score);
-      const scoreColor = s.score === 1 ? 'green' : s.score === 0 ? 'red' : 'dim';
-      detailTable.push([
-        s.questionText.substring(0, 38),
-        String(s.weight),
-        chalk[scoreColor](scoreStr),
-        s.automatable ? 'Y' : 'N',
-        s.comment.substring(0, 48),
-      ]);
-    }
-    console.log(detailTable.toString());
-    console.log();
+  // CI mode: check gates instead of writing documents
+  if (options.ci) {
+    const summary = scoringSummary(scores);
+    const baselinePath = options.baseline ?? config.ci.baselinePath;
+    const gates = evaluateGates(
+      { scanResults, baseline: baselinePath ? loadScanResults(resolve(baselinePath)) : undefined, summary },
+      config.ci
+    );
+    console.log(chalk.dim(`  Questions: ${summary.passing} passing, ${summary.partial} partial, ${summary.failing} failing, ${summary.na} unscored`));
+    printGateResults(gates);
+    const exitCode = ciExitCode(gates);
+    return { product: productName, success: exitCode === CI_EXIT_CODES.passed, error: exitCode ? 'CI gates failed' : undefined, exitCode };
   }
 
-  // Step 4: Generate output document
+  printScoreSummary(scores, verbose);
+
+  // Step 4: Generate output documents
   if (options.dryRun) {
     console.log(chalk.yellow('Dry run — skipping .docx generation'));
     return { product: productName, success: true };
   }
 
-  const docxSpinner = ora('Generating output document...').start();
-  const outputPath = resolve(config.outputPath);
-  await generateDocx(zip, parsedDoc, product, scores, config.reportDate, outputPath);
-  docxSpinner.succeed(`Output saved to ${outputPath}`);
+  await renderStage(config, template, scores, wcagResults);
+  await writeReportDocuments(config, remediationIssues, scanResults, waived, comparison, { scores, wcagResults });
+  printRemainingManual(scores);
 
-  // Generate remediation plan DOCX
-  const planSpinner = ora('Generating remediation plan DOCX...').start();
-  const planPath = resolve(config.outputPath.replace(/\.docx$/i, '-remediation-plan.docx'));
-  await generateRemediationPlanDocx(remediationIssues, config, planPath);
-  planSpinner.succeed(`Remediation plan saved to ${planPath}`);
+  return { product: productName, success: true };
+}
 
-  console.log();
-  const remainingManual = scores.filter(s => s.score === null).length;
-  if (remainingManual > 0) {
-    console.log(chalk.green(`Done! ${remainingManual} question(s) still need manual review (marked with *).`));
-  } else {
-    console.log(chalk.green('Done! All questions have been scored.'));
+/** Input and output paths of the stage subcommands; each defaults to ./output/<product>-<kind>.json */
+interface StagePaths {
+  scan?: string;
+  verdicts?: string;
+  scores?: string;
+  output?: string;
+}
+
+async function runScanStage(config: VpatConfig, options: CliOptions, paths: StagePaths): Promise<ProductResult> {
+  const { timestamp, evidenceDir } = prepareOutputs(config, options);
+  printProductHeader(config);
+  const rawScanResults = await scanStage(config, options, evidenceDir, timestamp);
+
+  const outputPath = resolve(paths.output ?? intermediatePath(config.product, 'scan-results'));
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, JSON.stringify(rawScanResults, null, 2));
+  console.log(chalk.green(`Scan results saved to ${outputPath}`));
+
+  const failure = checkScanFailures(config, rawScanResults);
+  return { product: config.product, success: failure === null, error: failure ?? undefined };
+}
+
+async function runAggregateStage(config: VpatConfig, options: CliOptions, paths: StagePaths): Promise<ProductResult> {
+  const { scanResults } = applyWaivers(config, loadScanResults(resolve(paths.scan ?? intermediatePath(config.product, 'scan-results'))));
+  const { wcagResults, ruleResults } = aggregateStage(scanResults, options.verbose ?? false);
+
+  const outputPath = resolve(paths.output ?? intermediatePath(config.product, 'verdicts'));
+  writeIntermediate(outputPath, buildVerdictsFile(config.product, config.standard, wcagResults, ruleResults));
+  console.log(chalk.green(`Verdicts saved to ${outputPath}`));
+  return { product: config.product, success: true };
+}
+
+async function runScoreStage(config: VpatConfig, options: CliOptions, paths: StagePaths): Promise<ProductResult> {
+  const verbose = options.verbose ?? false;
+  const { wcagResults, ruleResults } = readVerdicts(resolve(paths.verdicts ?? intermediatePath(config.product, 'verdicts')), config.product);
+  const template = await loadTemplateProduct(config);
+  const scores = await scoreStage(config, template.product, wcagResults, ruleResults, verbose);
+  printScoreSummary(scores, verbose);
+
+  const outputPath = resolve(paths.output ?? intermediatePath(config.product, 'scores'));
+  writeIntermediate(outputPath, buildScoresFile(config.product, config.reportDate, scores));
+  console.log(chalk.green(`Scores saved to ${outputPath}`));
+  return { product: config.product, success: true };
+}
+
+async function runReviewStage(config: VpatConfig, options: CliOptions, paths: StagePaths): Promise<ProductResult> {
+  const scoresPath = resolve(paths.scores ?? intermediatePath(config.product, 'scores'));
+  const scores = readScores(scoresPath, config.product);
+  const { wcagResults } = readVerdicts(resolve(paths.verdicts ?? intermediatePath(config.product, 'verdicts')), config.product);
+  const { scanResults } = applyWaivers(config, loadScanResults(resolve(paths.scan ?? intermediatePath(config.product, 'scan-results'))));
+  await reviewStage(config, scores, wcagResults, scanResults, options);
+  printScoreSummary(scores, options.verbose ?? false);
+
+  // Reviewed scores replace the input unless -o says otherwise
+  const outputPath = resolve(paths.output ?? scoresPath);
+  writeIntermediate(outputPath, buildScoresFile(config.product, config.reportDate, scores));
+  console.log(chalk.green(`Scores saved to ${outputPath}`));
+  return { product: config.product, success: true };
+}
+
+async function runRenderStage(config: VpatConfig, options: CliOptions, paths: StagePaths): Promise<ProductResult> {
+  prepareOutputs(config, options);
+  const scores = readScores(resolve(paths.scores ?? intermediatePath(config.product, 'scores')), config.product);
+  // Verdicts are only needed for the VPAT edition's remarks
+  const { wcagResults } = config.vpatEdition
+    ? readVerdicts(resolve(paths.verdicts ?? intermediatePath(config.product, 'verdicts')), config.product)
+    : { wcagResults: new Map() };
+  const template = await loadTemplateProduct(config);
+  printScoreSummary(scores, options.verbose ?? false);
+  await renderStage(config, template, scores, wcagResults);
+  printRemainingManual(scores);
+  return { product: config.product, success: true };
+}
+
+async function runReportStage(config: VpatConfig, options: CliOptions, paths: StagePaths): Promise<ProductResult> {
+  prepareOutputs(config, options);
+  const { scanResults, waived } = applyWaivers(config, loadScanResults(resolve(paths.scan ?? intermediatePath(config.product, 'scan-results'))));
+  printScanSummary(scanResults);
+  const { remediationIssues, comparison } = await writeRemediationOutputs(config, scanResults, waived, options);
+
+  // The HTML report shows question scores too, so it needs a scores file
+  const scoresPath = resolve(paths.scores ?? intermediatePath(config.product, 'scores'));
+  const scored = existsSync(scoresPath)
+    ? { scores: readScores(scoresPath, config.product), wcagResults: aggregateResults(scanResults) }
+    : undefined;
+  if (!scored) {
+    console.log(chalk.dim(`  No scores at ${scoresPath}; skipping the HTML report`));
   }
+  await writeReportDocuments(config, remediationIssues, scanResults, waived, comparison, scored);
+  return { product: config.product, success: true };
+}
 
-  return { product: productName, success: true };
+function describeAuth(auth: AuthConfig): string {
+  const parts: string[] = [];
+  if (auth.formLogin) parts.push(`form login (${auth.formLogin.loginUrl})`);
+  if (auth.storageStatePath) parts.push(`storage state (${auth.storageStatePath})`);
+  if (Object.keys(auth.headers).length > 0) parts.push(`${Object.keys(auth.headers).length} header(s)`);
+  if (auth.cookies.length > 0) parts.push(`${auth.cookies.length} cookie(s)`);
+  return parts.join(', ') || 'none';
+}
+
+function printGateResults(gates: GateResult[]): void {
+  for (const g of gates) {
+    const status = g.passed ? chalk.green('PASS') : chalk.red('FAIL');
+    console.log(`  ${status} ${g.gate}: ${g.actual} (limit ${g.limit})${g.details.length > 0 ? chalk.dim(` — ${g.details.join(', ')}`) : ''}`);
+  }
+  const exitCode = ciExitCode(gates);
+  console.log(exitCode === CI_EXIT_CODES.passed ? chalk.green('  CI gates passed') : chalk.red(`  CI gates failed (exit ${exitCode})`));
 }
 
 function listAvailableConfigs(): string[] {
@@ -217,6 +281,187 @@ function listAvailableConfigs(): string[] {
   }
 }
 
+interface DiscoverOptions {
+  writeConfig?: boolean;
+}
+
+async function runDiscover(configFile: string, options: DiscoverOptions): Promise<void> {
+  const configPath = resolve(configFile);
+  const config = loadConfig(configPath);
+  if (!config.discovery) {
+    throw new Error(`${configFile} has no "discovery" block`);
+  }
+
+  const spinner = ora('Discovering URLs...').start();
+  const result = await discoverUrls(
+    config.discovery,
+    { timeout: config.scanOptions.timeout, auth: config.auth },
+    (url, found) => {
+      spinner.text = `Discovering (${found} found): ${url}`;
+    }
+  );
+  spinner.succeed(`Found ${result.pagesFound} page(s) in ${result.templates.length} template(s); sampling ${result.urls.length}`);
+
+  const templateTable = new Table({
+    head: ['Template', 'Pages', 'Sampled'],
+    style: { head: ['cyan'] },
+  });
+  for (const t of result.templates) {
+    templateTable.push([t.template, String(t.urls.length), String(t.samples.length)]);
+  }
+  console.log(templateTable.toString());
+
+  if (options.writeConfig) {
+    const raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+    raw.urls = mergeDiscoveredUrls(raw.urls ?? [], result.urls);
+    writeFileSync(configPath, JSON.stringify(raw, null, 2) + '\n');
+    console.log(chalk.green(`Updated urls in ${configPath}`));
+  } else {
+    mkdirSync(dirname(config.discovery.outputPath), { recursive: true });
+    writeFileSync(config.discovery.outputPath, JSON.stringify(result, null, 2) + '\n');
+    console.log(chalk.green(`Discovered URLs saved to ${config.discovery.outputPath}`));
+  }
+}
+
+interface DiffOptions {
+  output?: string;
+}
+
+/** Compare two filled ACRs (.docx) or two --scan-only result sets (.json) */
+async function runDiff(beforeFile: string, afterFile: string, options: DiffOptions): Promise<void> {
+  const kind = (file: string) => (/\.docx$/i.test(file) ? 'acr' : /\.json$/i.test(file) ? 'scan' : null);
+  if (!kind(beforeFile) || kind(beforeFile) !== kind(afterFile)) {
+    throw new Error('diff needs two .docx ACRs or two .json scan result files');
+  }
+
+  let report: DiffReport;
+  if (kind(beforeFile) === 'acr') {
+    const before = await parseTemplate(resolve(beforeFile));
+    const after = await parseTemplate(resolve(afterFile));
+    const sections = after.products.flatMap((product, i) => {
+      const previous = findPreviousProduct(before.products, product, i);
+      if (!previous) {
+        console.warn(chalk.yellow(`  Warning: no section for ${product.name} in ${beforeFile}; skipped`));
+        return [];
+      }
+      return buildAcrDiffSections(diffAcrProducts(previous, product));
+    });
+    report = { title: 'ACR Change Summary', before: basename(beforeFile), after: basename(afterFile), sections };
+  } else {
+    const diff = diffScanResults(loadScanResults(resolve(beforeFile)), loadScanResults(resolve(afterFile)));
+    report = { title: 'Scan Change Summary', before: basename(beforeFile), after: basename(afterFile), sections: buildScanDiffSections(diff) };
+  }
+
+  const base = resolve(options.output ?? `./output/diff-${basename(beforeFile).replace(/\.\w+$/, '')}-vs-${basename(afterFile).replace(/\.\w+$/, '')}`)
+    .replace(/\.(md|docx)$/i, '');
+  mkdirSync(dirname(base), { recursive: true });
+  writeFileSync(`${base}.md`, generateDiffMarkdown(report));
+  await generateDiffDocx(report, `${base}.docx`);
+  console.log(chalk.green(`Change summary saved to ${base}.md and ${base}.docx`));
+}
+
+/**
+ * Run `runFor` on the --config product, or on each product in configs/ with
+ * --all, then exit with the first failure's code.
+ */
+async function forEachProduct(options: CliOptions, runFor: (config: VpatConfig) => Promise<ProductResult>): Promise<void> {
+  if (!options.config && !options.all) {
+    const available = listAvailableConfigs();
+    console.error(chalk.red('Error: Please specify --config <path> or --all'));
+    console.error();
+    if (available.length > 0) {
+      console.error(chalk.yellow('Available configs:'));
+      for (const c of available) {
+        console.error(chalk.dim(`  --config ${c}`));
+      }
+      console.error();
+      console.error(chalk.yellow('Or run all products:'));
+      console.error(chalk.dim('  --all'));
+    } else {
+      console.error(chalk.yellow('No config files found in configs/ directory.'));
+      console.error(chalk.dim('Create a config file at configs/<product>.json'));
+    }
+    process.exit(1);
+  }
+
+  if (options.all) {
+    const configFiles = listAvailableConfigs();
+    if (configFiles.length === 0) {
+      console.error(chalk.red('No config files found in configs/ directory.'));
+      process.exit(1);
+    }
+
+    console.log(chalk.bold(`Running ${configFiles.length} product(s): ${configFiles.map(f => basename(f, '.json')).join(', ')}`));
+
+    const results: ProductResult[] = [];
+
+    for (const configFile of configFiles) {
+      try {
+        const config = loadConfig(resolve(configFile));
+        const result = await runFor(config);
+        results.push(result);
+      } catch (error) {
+        const name = basename(configFile, '.json');
+        console.error(chalk.red(`\nError scanning ${name}: ${error instanceof Error ? error.message : String(error)}`));
+        results.push({ product: name, success: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // Print summary
+    console.log(chalk.bold('\n=== Summary ==='));
+    const summaryTable = new Table({
+      head: ['Product', 'Status'],
+      style: { head: ['cyan'] },
+    });
+    for (const r of results) {
+      summaryTable.push([
+        r.product,
+        r.success ? chalk.green('OK') : chalk.red(`FAILED: ${r.error ?? 'unknown'}`),
+      ]);
+    }
+    console.log(summaryTable.toString());
+
+    const failed = results.filter(r => !r.success);
+    if (failed.length > 0) {
+      process.exit(failed[0].exitCode ?? 1);
+    }
+  } else {
+    const configPath = resolve(options.config!);
+    const spinner = ora('Loading configuration...').start();
+    const config = loadConfig(configPath);
+    spinner.succeed(`Configuration loaded: ${config.product} (${config.reportDate})`);
+
+    const result = await runFor(config);
+    if (!result.success) {
+      process.exit(result.exitCode ?? 1);
+    }
+  }
+}
+
+function exitWithError(error: unknown, verbose?: boolean): never {
+  console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+  if (verbose && error instanceof Error) {
+    console.error(error.stack);
+  }
+  process.exit(1);
+}
+
+async function runPipeline(options: CliOptions): Promise<void> {
+  try {
+    if (options.fromScan && (options.all || options.resume)) {
+      console.error(chalk.red('Error: --from-scan reads one product\'s results; use it with --config and without --all or --resume'));
+      process.exit(1);
+    }
+    if (options.aiReview && !process.env.ANTHROPIC_API_KEY) {
+      console.error(chalk.red('Error: ANTHROPIC_API_KEY environment variable is required when using --ai-review'));
+      process.exit(1);
+    }
+    await forEachProduct(options, (config) => runProduct(config, options));
+  } catch (error) {
+    exitWithError(error, options.verbose);
+  }
+}
+
 const program = new Command();
 
 program
@@ -232,87 +477,102 @@ program
   .option('--ai-review', 'Use Claude AI to score manual review questions')
   .option('--ai-confidence <n>', 'AI confidence threshold (0-1, default 0.7)', parseFloat)
   .option('--ai-model <model>', 'Claude model to use (default claude-sonnet-4-20250514)')
+  .option('--evidence', 'Capture page/element screenshots and accessibility trees')
+  .option('--export <formats>', 'Also export findings as sarif, junit and/or tracker (comma-separated)', parseExportFormats)
+  .option('--sync-issues', 'Create, update and close issues at the config\'s tracker endpoint')
+  .option('--ci', 'Check the config\'s CI gates instead of writing documents; exit code reports the failed gate')
+  .option('--baseline <path>', 'Scan results (--scan-only JSON) that --ci compares against for new violations')
+  .option('--resume', 'Skip pages already scanned by the last unfinished run of each product')
+  .option('--from-scan <path>', 'Score and generate documents from saved scan results (--scan-only JSON) without scanning')
   .action(async (options: CliOptions) => {
+    await runPipeline(options);
+  });
+
+program
+  .command('run')
+  .description('Run the whole pipeline (the default when no command is given)')
+  .action(async () => {
+    await runPipeline(program.opts<CliOptions>());
+  });
+
+const STAGE_INPUTS = {
+  scan: 'Scan results',
+  verdicts: 'Verdicts',
+  scores: 'Scores',
+} as const;
+const STAGE_FILES = { scan: 'scan-results', verdicts: 'verdicts', scores: 'scores' } as const;
+
+/**
+ * Register a pipeline stage as a subcommand. Stages share the top-level flags
+ * (--config, --all, --verbose, ...) and add an option per JSON file they read.
+ */
+function addStageCommand(
+  name: string,
+  description: string,
+  inputs: (keyof typeof STAGE_INPUTS)[],
+  output: string | null,
+  runFor: (config: VpatConfig, options: CliOptions, paths: StagePaths) => Promise<ProductResult>
+): void {
+  const command = program.command(name).description(description);
+  for (const input of inputs) {
+    command.option(`--${input} <path>`, `${STAGE_INPUTS[input]} to read (default ./output/<product>-${STAGE_FILES[input]}.json)`);
+  }
+  if (output) {
+    command.option('-o, --output <path>', output);
+  }
+  command.action(async (paths: StagePaths) => {
+    const options = program.opts<CliOptions>();
     try {
-      if (options.aiReview && !process.env.ANTHROPIC_API_KEY) {
-        console.error(chalk.red('Error: ANTHROPIC_API_KEY environment variable is required when using --ai-review'));
-        process.exit(1);
+      if (paths.output && options.all) {
+        throw new Error('-o names a single file; use it with --config instead of --all');
       }
-
-      if (!options.config && !options.all) {
-        const available = listAvailableConfigs();
-        console.error(chalk.red('Error: Please specify --config <path> or --all'));
-        console.error();
-        if (available.length > 0) {
-          console.error(chalk.yellow('Available configs:'));
-          for (const c of available) {
-            console.error(chalk.dim(`  --config ${c}`));
-          }
-          console.error();
-          console.error(chalk.yellow('Or run all products:'));
-          console.error(chalk.dim('  --all'));
-        } else {
-          console.error(chalk.yellow('No config files found in configs/ directory.'));
-          console.error(chalk.dim('Create a config file at configs/<product>.json'));
-        }
-        process.exit(1);
+      if (name === 'review' && !process.env.ANTHROPIC_API_KEY) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is required for review');
       }
+      await forEachProduct(options, (config) => runFor(config, options, paths));
+    } catch (error) {
+      exitWithError(error, options.verbose);
+    }
+  });
+}
+
+addStageCommand('scan', 'Scan the URLs and save the results (honours --resume, --evidence, --concurrency)', [],
+  'Where to write scan results (default ./output/<product>-scan-results.json)', runScanStage);
+addStageCommand('aggregate', 'Turn scan results into WCAG criterion and axe rule verdicts', ['scan'],
+  'Where to write verdicts (default ./output/<product>-verdicts.json)', runAggregateStage);
+addStageCommand('score', 'Score the template\'s questions from verdicts (with carry-forward)', ['verdicts'],
+  'Where to write scores (default ./output/<product>-scores.json)', runScoreStage);
+addStageCommand('review', 'AI-review the questions still awaiting manual review', ['scores', 'verdicts', 'scan'],
+  'Where to write reviewed scores (default: overwrite --scores)', runReviewStage);
+addStageCommand('render', 'Write the filled ACR (and VPAT edition) from scores', ['scores', 'verdicts'], null, runRenderStage);
+addStageCommand('report', 'Write the remediation report, plan, HTML report and --export files', ['scan', 'scores'], null, runReportStage);
 
-      if (options.all) {
-        const configFiles = listAvailableConfigs();
-        if (configFiles.length === 0) {
-          console.error(chalk.red('No config files found in configs/ directory.'));
-          process.exit(1);
-        }
-
-        console.log(chalk.bold(`Running ${configFiles.length} product(s): ${configFiles.map(f => basename(f, '.json')).join(', ')}`));
-
-        const results: { product: string; success: boolean; error?: string }[] = [];
-
-        for (const configFile of configFiles) {
-          try {
-            const config = loadConfig(resolve(configFile));
-            const result = await runProduct(config, options);
-            results.push(result);
-          } catch (error) {
-            const name = basename(configFile, '.json');
-            console.error(chalk.red(`\nError scanning ${name}: ${error instanceof Error ? error.message : String(error)}`));
-            results.push({ product: name, success: false, error: error instanceof Error ? error.message : String(error) });
-          }
-        }
-
-        // Print summary
-        console.log(chalk.bold('\n=== Summary ==='));
-        const summaryTable = new Table({
-          head: ['Product', 'Status'],
-          style: { head: ['cyan'] },
-        });
-        for (const r of results) {
-          summaryTable.push([
-            r.product,
-            r.success ? chalk.green('OK') : chalk.red(`FAILED: ${r.error ?? 'unknown'}`),
-          ]);
-        }
-        console.log(summaryTable.toString());
-
-        const failed = results.filter(r => !r.success).length;
-        if (failed > 0) {
-          process.exit(1);
-        }
-      } else {
-        const configPath = resolve(options.config!);
-        const spinner = ora('Loading configuration...').start();
-        const config = loadConfig(configPath);
-        spinner.succeed(`Configuration loaded: ${config.product} (${config.reportDate})`);
-
-        const result = await runProduct(config, options);
-        if (!result.success) {
-          process.exit(1);
-        }
+program
+  .command('discover <config>')
+  .description('Crawl a product site / sitemap and record the URLs to scan')
+  .option('--write-config', 'Write sampled URLs into the config file instead of the discovery sidecar')
+  .action(async (configFile: string, options: DiscoverOptions) => {
+    try {
+      await runDiscover(configFile, options);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      if (program.opts().verbose && error instanceof Error) {
+        console.error(error.stack);
       }
+      process.exit(1);
+    }
+  });
+
+program
+  .command('diff <before> <after>')
+  .description('Summarize changes between two filled ACRs (.docx) or two --scan-only results (.json)')
+  .option('-o, --output <path>', 'Output path without extension (writes .md and .docx)')
+  .action(async (beforeFile: string, afterFile: string, options: DiffOptions) => {
+    try {
+      await runDiff(beforeFile, afterFile, options);
     } catch (error) {
       console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
-      if (options.verbose && error instanceof Error) {
+      if (program.opts().verbose && error instanceof Error) {
         console.error(error.stack);
       }
       process.exit(1);
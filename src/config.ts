@@ -1,7 +1,66 @@
 import { z } from 'zod';
-import { readFileSync } from 'fs';
-import { resolve } from 'path';
-import type { VpatConfig } from './types.js';
+import { readFileSync, existsSync } from 'fs';
+import { resolve, dirname, basename } from 'path';
+import type { VpatConfig, InteractionState } from './types.js';
+import { BINARY_SCORING, PARTIAL_SCORING } from './mapping/index.js';
+import { DEFAULT_STANDARD, LEGACY_AXE_TAGS, axeTagsForStandard } from './mapping/wcagStandard.js';
+
+const authSchema = z.object({
+  formLogin: z.object({
+    loginUrl: z.string().url(),
+    usernameSelector: z.string().min(1),
+    passwordSelector: z.string().min(1),
+    submitSelector: z.string().min(1),
+    usernameEnv: z.string().min(1),
+    passwordEnv: z.string().min(1),
+    successSelector: z.string().min(1).optional(),
+  }).optional(),
+  storageStatePath: z.string().min(1).optional(),
+  headers: z.record(z.string()).default({}),
+  cookies: z.array(z.object({
+    name: z.string().min(1),
+    value: z.string(),
+    domain: z.string().min(1),
+    path: z.string().default('/'),
+  })).default([]),
+  loginUrlPattern: z.string().min(1).optional(),
+});
+
+const discoverySchema = z.object({
+  startUrl: z.string().url().optional(),
+  sitemapUrl: z.string().url().optional(),
+  maxDepth: z.number().int().min(0).default(2),
+  maxPages: z.number().int().min(1).default(100),
+  include: z.array(z.string()).default([]),
+  exclude: z.array(z.string()).default([]),
+  samplesPerTemplate: z.number().int().min(1).default(3),
+  outputPath: z.string().min(1).optional(),
+}).refine((d) => d.startUrl || d.sitemapUrl, {
+  message: 'discovery needs a startUrl or sitemapUrl',
+});
+
+const stepSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('click'), selector: z.string().min(1) }),
+  z.object({ action: z.literal('fill'), selector: z.string().min(1), value: z.string() }),
+  z.object({ action: z.literal('press'), key: z.string().min(1), selector: z.string().min(1).optional() }),
+  z.object({ action: z.literal('hover'), selector: z.string().min(1) }),
+  z.object({ action: z.literal('wait'), selector: z.string().min(1).optional(), ms: z.number().int().min(0).optional() }),
+]).refine((s) => s.action !== 'wait' || s.selector !== undefined || s.ms !== undefined, {
+  message: 'wait needs a selector or ms',
+});
+
+const urlEntrySchema = z.union([
+  z.string().url(),
+  z.object({
+    url: z.string().url(),
+    states: z.array(z.object({
+      name: z.string().min(1),
+      steps: z.array(stepSchema).min(1),
+    })).default([]),
+  }).refine((e) => new Set(e.states.map((s) => s.name)).size === e.states.length, {
+    message: 'state names must be unique per URL',
+  }),
+]);
 
 const configSchema = z.object({
   product: z.string().min(1),
@@ -9,18 +68,126 @@ const configSchema = z.object({
   templatePath: z.string().min(1),
   outputPath: z.string().min(1),
   productSectionIndex: z.number().int().min(0),
-  urls: z.array(z.string().url()).min(1),
+  urls: z.array(urlEntrySchema).default([]),
+  discovery: discoverySchema.nullable().default(null),
   scanOptions: z.object({
     concurrency: z.number().int().min(1).max(10).default(3),
     timeout: z.number().int().min(5000).default(60000),
     waitForSelector: z.string().default('body'),
+    maxFailureRate: z.number().min(0).max(1).default(0.2),
+    evidence: z.object({
+      screenshots: z.boolean().default(false),
+      elementScreenshots: z.boolean().default(false),
+      accessibilityTree: z.boolean().default(false),
+      maxElementScreenshots: z.number().int().min(0).default(20),
+    }).default({}),
+    keyboard: z.object({
+      enabled: z.boolean().default(false),
+      maxTabStops: z.number().int().min(1).default(200),
+    }).default({}),
+    reflow: z.object({
+      enabled: z.boolean().default(false),
+    }).default({}),
+    matrix: z.object({
+      viewports: z.array(z.enum(['desktop', 'tablet', 'mobile'])).min(1).default(['desktop']),
+      browsers: z.array(z.enum(['chromium', 'firefox', 'webkit'])).min(1).default(['chromium']),
+    }).default({}),
   }).default({}),
   carryForwardPath: z.string().nullable().default(null),
+  suppressionsPath: z.string().nullable().default(null),
+  ownershipPath: z.string().nullable().default(null),
+  manualAnswersPath: z.string().nullable().default(null),
+  historyPath: z.string().min(1).optional(),
+  cacheDir: z.string().min(1).optional(),
+  auth: authSchema.nullable().default(null),
+  standard: z.object({
+    version: z.enum(['2.0', '2.1', '2.2']).default(DEFAULT_STANDARD.version),
+    level: z.enum(['A', 'AA', 'AAA']).default(DEFAULT_STANDARD.level),
+  }).optional(),
+  scoring: z.object({
+    partialCredit: z.number().min(0).max(1).default(PARTIAL_SCORING.partialCredit),
+    partialThresholds: z.object({
+      critical: z.number().min(0).max(1).default(PARTIAL_SCORING.partialThresholds.critical),
+      serious: z.number().min(0).max(1).default(PARTIAL_SCORING.partialThresholds.serious),
+      moderate: z.number().min(0).max(1).default(PARTIAL_SCORING.partialThresholds.moderate),
+      minor: z.number().min(0).max(1).default(PARTIAL_SCORING.partialThresholds.minor),
+    }).default({}),
+  }).default(BINARY_SCORING), // partial credit only once a config asks for it
+  vpatEdition: z.enum(['wcag', '508', 'eu', 'int']).nullable().default(null),
+  tracker: z.object({
+    endpoint: z.string().url(),
+    tokenEnv: z.string().min(1).default('TRACKER_TOKEN'),
+    component: z.string().min(1).optional(),
+  }).nullable().default(null),
+  ci: z.object({
+    maxCritical: z.number().int().min(0).nullable().default(0),
+    maxSerious: z.number().int().min(0).nullable().default(null),
+    baselinePath: z.string().nullable().default(null),
+    minPassingPercent: z.number().min(0).max(100).nullable().default(null),
+  }).default({}),
+}).refine((c) => c.urls.length > 0 || c.discovery !== null, {
+  message: 'urls must list at least one URL unless discovery is configured',
+  path: ['urls'],
 });
 
+/** Default sidecar for discovered URLs: configs/foo.json → configs/foo.discovered.json */
+export function discoveredUrlsPath(configPath: string): string {
+  const absolutePath = resolve(configPath);
+  return resolve(dirname(absolutePath), `${basename(absolutePath, '.json')}.discovered.json`);
+}
+
+/** A `urls` entry as written in a config file: a URL, or an object with the URL and its states */
+export type UrlEntry = string | { url: string; [key: string]: unknown };
+
+/**
+ * Replace a config's `urls` with discovered ones without losing interaction states:
+ * entries for URLs still discovered are kept as written, new URLs are appended as strings.
+ */
+export function mergeDiscoveredUrls(entries: UrlEntry[], discovered: string[]): UrlEntry[] {
+  const urlOf = (e: UrlEntry) => (typeof e === 'string' ? e : e.url);
+  const found = new Set(discovered);
+  const kept = entries.filter((e) => found.has(urlOf(e)));
+  const keptUrls = new Set(kept.map(urlOf));
+  return [...kept, ...discovered.filter((url) => !keptUrls.has(url))];
+}
+
+/** Split `urls` entries into the plain URL list and the interaction states declared per URL */
+function splitUrlEntries(entries: z.infer<typeof urlEntrySchema>[]): {
+  urls: string[];
+  states: Record<string, InteractionState[]>;
+} {
+  const states: Record<string, InteractionState[]> = {};
+  for (const entry of entries) {
+    if (typeof entry !== 'string' && entry.states.length > 0) states[entry.url] = entry.states;
+  }
+  return { urls: entries.map((e) => (typeof e === 'string' ? e : e.url)), states };
+}
+
 export function loadConfig(configPath: string): VpatConfig {
   const absolutePath = resolve(configPath);
   const raw = readFileSync(absolutePath, 'utf-8');
-  const parsed = JSON.parse(raw);
-  return configSchema.parse(parsed);
+  const { urls: urlEntries, standard, ...rest } = configSchema.parse(JSON.parse(raw));
+  const parsed = {
+    ...rest,
+    ...splitUrlEntries(urlEntries),
+    standard: standard ?? DEFAULT_STANDARD,
+    // Configs written before `standard` existed keep scanning with the full legacy tag set
+    axeTags: standard ? axeTagsForStandard(standard) : LEGACY_AXE_TAGS,
+  };
+
+  const discovery = parsed.discovery
+    ? { ...parsed.discovery, outputPath: resolve(parsed.discovery.outputPath ?? discoveredUrlsPath(absolutePath)) }
+    : null;
+
+  // Discovered URLs replace the static list once the sidecar exists; states still apply to matching URLs
+  if (discovery && existsSync(discovery.outputPath)) {
+    const sidecar = JSON.parse(readFileSync(discovery.outputPath, 'utf-8')) as { urls?: string[] };
+    const urls = z.array(z.string().url()).min(1).parse(sidecar.urls);
+    return { ...parsed, urls, urlSource: 'discovered', discovery };
+  }
+
+  if (parsed.urls.length === 0) {
+    throw new Error(`No URLs for ${parsed.product}: run discovery first (sidecar ${discovery?.outputPath} not found)`);
+  }
+  return { ...parsed, urlSource: 'static', discovery };
 }
@@ -0,0 +1,153 @@
+import type { ParsedProduct, TemplateQuestion } from '../types.js';
+import { extractQuestions } from '../docx/reader.js';
+import { textsMatch } from '../mapping/index.js';
+
+export type QuestionChangeKind = 'improved' | 'declined' | 'score' | 'comment' | 'added' | 'removed';
+
+/** One question whose score or comment differs between two ACRs */
+export interface QuestionChange {
+  kind: QuestionChangeKind;
+  category: string;
+  section: string;
+  questionText: string;
+  /** Score cell as written ("1", "0.5", "*", ""); null when the question is absent */
+  beforeScore: string | null;
+  afterScore: string | null;
+  beforeComment: string;
+  afterComment: string;
+}
+
+/** Weighted score earned out of the weight of scored questions */
+export interface Subtotal {
+  earned: number;
+  possible: number;
+}
+
+export interface CategorySubtotalChange {
+  category: string;
+  before: Subtotal;
+  after: Subtotal;
+}
+
+export interface AcrDiff {
+  beforeProduct: string;
+  afterProduct: string;
+  changes: QuestionChange[];
+  subtotals: CategorySubtotalChange[];
+  unchanged: number;
+}
+
+const CATEGORY_ORDER = ['perceivable', 'operable', 'understandable', 'robust'];
+
+/** Numeric score from a filled ACR cell; "*" and blank are unscored */
+export function parseScoreCell(text: string): number | null {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+function sameComment(a: string, b: string): boolean {
+  return a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+}
+
+function subtotal(questions: TemplateQuestion[]): Subtotal {
+  let earned = 0;
+  let possible = 0;
+  for (const q of questions) {
+    const score = parseScoreCell(q.currentScore);
+    if (score === null) continue;
+    earned += score * q.weight;
+    possible += q.weight;
+  }
+  return { earned, possible };
+}
+
+function classify(before: TemplateQuestion, after: TemplateQuestion): QuestionChangeKind | null {
+  const beforeScore = parseScoreCell(before.currentScore);
+  const afterScore = parseScoreCell(after.currentScore);
+  if (before.currentScore.trim() !== after.currentScore.trim()) {
+    if (beforeScore !== null && afterScore !== null) {
+      return afterScore > beforeScore ? 'improved' : 'declined';
+    }
+    return 'score';
+  }
+  return sameComment(before.currentComment, after.currentComment) ? null : 'comment';
+}
+
+/**
+ * Compare two filled ACR sections question by question.
+ * Questions are matched like carry-forward: same category and row, then by text.
+ */
+export function diffAcrProducts(before: ParsedProduct, after: ParsedProduct): AcrDiff {
+  const beforeQuestions = extractQuestions(before);
+  const afterQuestions = extractQuestions(after);
+  const claimed = new Set<TemplateQuestion>();
+  const changes: QuestionChange[] = [];
+  let unchanged = 0;
+
+  const findBefore = (target: TemplateQuestion): TemplateQuestion | undefined => {
+    const candidates = beforeQuestions.filter((q) => !claimed.has(q) && textsMatch(target.questionText, q.questionText));
+    return (
+      candidates.find((q) => q.category === target.category && q.rowIndex === target.rowIndex) ??
+      candidates.find((q) => q.category === target.category) ??
+      candidates[0]
+    );
+  };
+
+  for (const question of afterQuestions) {
+    const match = findBefore(question);
+    if (!match) {
+      changes.push({
+        kind: 'added',
+        category: question.category,
+        section: question.section,
+        questionText: question.questionText,
+        beforeScore: null,
+        afterScore: question.currentScore,
+        beforeComment: '',
+        afterComment: question.currentComment,
+      });
+      continue;
+    }
+    claimed.add(match);
+
+    const kind = classify(match, question);
+    if (!kind) {
+      unchanged++;
+      continue;
+    }
+    changes.push({
+      kind,
+      category: question.category,
+      section: question.section,
+      questionText: question.questionText,
+      beforeScore: match.currentScore,
+      afterScore: question.currentScore,
+      beforeComment: match.currentComment,
+      afterComment: question.currentComment,
+    });
+  }
+
+  for (const question of beforeQuestions) {
+    if (claimed.has(question)) continue;
+    changes.push({
+      kind: 'removed',
+      category: question.category,
+      section: question.section,
+      questionText: question.questionText,
+      beforeScore: question.currentScore,
+      afterScore: null,
+      beforeComment: question.currentComment,
+      afterComment: '',
+    });
+  }
+
+  const subtotals = CATEGORY_ORDER.map((category) => ({
+    category,
+    before: subtotal(beforeQuestions.filter((q) => q.category === category)),
+    after: subtotal(afterQuestions.filter((q) => q.category === category)),
+  }));
+
+  return { beforeProduct: before.name, afterProduct: after.name, changes, subtotals, unchanged };
+}
@@ -0,0 +1,299 @@
+import {
+  Document,
+  Packer,
+  Paragraph,
+  Table,
+  TableRow,
+  TableCell,
+  TextRun,
+  HeadingLevel,
+  WidthType,
+  BorderStyle,
+  ShadingType,
+  TableLayoutType,
+  convertInchesToTwip,
+} from 'docx';
+import { writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { AcrDiff, QuestionChange, QuestionChangeKind, Subtotal } from './acrDiff.js';
+import type { RuleDelta, ScanDiff } from './scanDiff.js';
+import { escapeMarkdown } from '../scanner/remediationReport.js';
+
+export interface DiffTable {
+  headers: string[];
+  /** Column widths in twips for the DOCX rendering */
+  widths: number[];
+  rows: string[][];
+}
+
+/** A titled block of the change summary, rendered to both Markdown and DOCX */
+export interface DiffSection {
+  title: string;
+  /** 1 = product / scan, 2 = change group */
+  depth: 1 | 2;
+  paragraphs?: string[];
+  table?: DiffTable;
+}
+
+export interface DiffReport {
+  title: string;
+  before: string;
+  after: string;
+  sections: DiffSection[];
+}
+
+function formatSubtotal(s: Subtotal): string {
+  if (s.possible === 0) return '—';
+  return `${round(s.earned)}/${round(s.possible)} (${Math.round((s.earned / s.possible) * 100)}%)`;
+}
+
+function formatChange(before: Subtotal, after: Subtotal): string {
+  if (before.possible === 0 || after.possible === 0) return '—';
+  const points = Math.round((after.earned / after.possible - before.earned / before.possible) * 100);
+  return points === 0 ? 'no change' : `${points > 0 ? '+' : ''}${points} pts`;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const scoreCell = (score: string | null) => (score === null ? '—' : score.trim() || 'blank');
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+const QUESTION_GROUPS: { kind: QuestionChangeKind; title: string }[] = [
+  { kind: 'declined', title: 'Declined Scores' },
+  { kind: 'improved', title: 'Improved Scores' },
+  { kind: 'score', title: 'Other Score Changes' },
+  { kind: 'comment', title: 'Comment Updates' },
+  { kind: 'added', title: 'Added Questions' },
+  { kind: 'removed', title: 'Removed Questions' },
+];
+
+function questionTable(kind: QuestionChangeKind, changes: QuestionChange[]): DiffTable {
+  if (kind === 'comment') {
+    return {
+      headers: ['Question', 'Previous Comment', 'Current Comment'],
+      widths: [3100, 3100, 3100],
+      rows: changes.map((c) => [c.questionText, c.beforeComment, c.afterComment]),
+    };
+  }
+  return {
+    headers: ['Question', 'Category', 'Before', 'After', 'Comment'],
+    widths: [3300, 1300, 800, 800, 3100],
+    rows: changes.map((c) => [
+      c.questionText,
+      capitalize(c.category),
+      scoreCell(c.beforeScore),
+      scoreCell(c.afterScore),
+      kind === 'removed' ? c.beforeComment : c.afterComment,
+    ]),
+  };
+}
+
+/** Sections for one product's question-level ACR comparison */
+export function buildAcrDiffSections(diff: AcrDiff): DiffSection[] {
+  const title = diff.beforeProduct === diff.afterProduct ? diff.afterProduct : `${diff.beforeProduct} → ${diff.afterProduct}`;
+  const count = (kind: QuestionChangeKind) => diff.changes.filter((c) => c.kind === kind).length;
+
+  const sections: DiffSection[] = [{
+    title,
+    depth: 1,
+    paragraphs: [
+      `${count('improved')} improved, ${count('declined')} declined, ${count('score')} other score change(s), ` +
+      `${count('comment')} comment update(s), ${count('added')} added and ${count('removed')} removed question(s); ${diff.unchanged} unchanged.`,
+    ],
+  }, {
+    title: 'Category Subtotals',
+    depth: 2,
+    table: {
+      headers: ['Category', 'Before', 'After', 'Change'],
+      widths: [2400, 2500, 2500, 1900],
+      rows: diff.subtotals.map((s) => [capitalize(s.category), formatSubtotal(s.before), formatSubtotal(s.after), formatChange(s.before, s.after)]),
+    },
+  }];
+
+  for (const group of QUESTION_GROUPS) {
+    const changes = diff.changes.filter((c) => c.kind === group.kind);
+    if (changes.length > 0) {
+      sections.push({ title: group.title, depth: 2, table: questionTable(group.kind, changes) });
+    }
+  }
+
+  return sections;
+}
+
+function ruleTable(rules: RuleDelta[], columns: 'new' | 'resolved' | 'changed'): DiffTable {
+  if (columns === 'new') {
+    return {
+      headers: ['Rule', 'Impact', 'Pages', 'Elements'],
+      widths: [4300, 1600, 1700, 1700],
+      rows: rules.map((r) => [`${r.ruleId}: ${r.description}`, r.impact ?? '—', String(r.afterPages), String(r.afterNodes)]),
+    };
+  }
+  if (columns === 'resolved') {
+    return {
+      headers: ['Rule', 'Impact', 'Pages Before', 'Elements Before'],
+      widths: [4300, 1600, 1700, 1700],
+      rows: rules.map((r) => [`${r.ruleId}: ${r.description}`, r.impact ?? '—', String(r.beforePages), String(r.beforeNodes)]),
+    };
+  }
+  return {
+    headers: ['Rule', 'Impact', 'Pages', 'Elements', 'Newly Failing', 'Fixed'],
+    widths: [3100, 1100, 1300, 1300, 1250, 1250],
+    rows: rules.map((r) => [
+      r.ruleId,
+      r.impact ?? '—',
+      `${r.beforePages} → ${r.afterPages}`,
+      `${r.beforeNodes} → ${r.afterNodes}`,
+      String(r.newPages.length),
+      String(r.fixedPages.length),
+    ]),
+  };
+}
+
+/** Sections for a rule/page comparison of two scans */
+export function buildScanDiffSections(diff: ScanDiff): DiffSection[] {
+  const byStatus = (status: RuleDelta['status']) => diff.rules.filter((r) => r.status === status);
+  const sections: DiffSection[] = [{
+    title: 'Automated Scan Changes',
+    depth: 1,
+    paragraphs: [
+      `Pages scanned: ${diff.beforeUrls} → ${diff.afterUrls} (${diff.pagesAdded.length} added, ${diff.pagesRemoved.length} removed).`,
+      `${byStatus('new').length} new failing rule(s), ${byStatus('resolved').length} resolved, ${byStatus('changed').length} changed.`,
+    ],
+  }];
+
+  const groups: [RuleDelta['status'], string][] = [['new', 'New Failures'], ['resolved', 'Resolved Rules'], ['changed', 'Changed Rules']];
+  for (const [status, title] of groups) {
+    const rules = byStatus(status);
+    if (rules.length > 0) {
+      sections.push({ title, depth: 2, table: ruleTable(rules, status) });
+    }
+  }
+
+  for (const [title, pages] of [['Pages Added', diff.pagesAdded], ['Pages Removed', diff.pagesRemoved]] as const) {
+    if (pages.length > 0) {
+      sections.push({ title, depth: 2, table: { headers: ['Page'], widths: [9300], rows: pages.map((p) => [p]) } });
+    }
+  }
+
+  return sections;
+}
+
+/** Render the change summary as Markdown for release notes */
+export function generateDiffMarkdown(report: DiffReport): string {
+  const lines: string[] = [];
+  lines.push(`# ${report.title}`);
+  lines.push(`**Before:** ${report.before}  `);
+  lines.push(`**After:** ${report.after}`);
+  lines.push('');
+
+  for (const section of report.sections) {
+    lines.push(`${section.depth === 1 ? '##' : '###'} ${section.title}`);
+    lines.push('');
+    for (const p of section.paragraphs ?? []) {
+      lines.push(p);
+      lines.push('');
+    }
+    if (section.table) {
+      lines.push(`| ${section.table.headers.join(' | ')} |`);
+      lines.push(`|${section.table.headers.map(() => '---').join('|')}|`);
+      for (const row of section.table.rows) {
+        lines.push(`| ${row.map((cell) => escapeMarkdown(cell)).join(' | ')} |`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// DOCX rendering
+
+const BLUE = '1F4E79';
+const LIGHT_BLUE = 'D6E4F0';
+const DARK_GRAY = '333333';
+const WHITE = 'FFFFFF';
+
+const thinBorder = {
+  top: { style: BorderStyle.SINGLE, size: 1, color: 'BFBFBF' },
+  bottom: { style: BorderStyle.SINGLE, size: 1, color: 'BFBFBF' },
+  left: { style: BorderStyle.SINGLE, size: 1, color: 'BFBFBF' },
+  right: { style: BorderStyle.SINGLE, size: 1, color: 'BFBFBF' },
+} as const;
+
+function text(value: string, opts?: { bold?: boolean; color?: string; size?: number }): TextRun {
+  return new TextRun({ text: value, font: 'Aptos', size: opts?.size ?? 20, bold: opts?.bold, color: opts?.color ?? DARK_GRAY });
+}
+
+function heading(value: string, level: (typeof HeadingLevel)[keyof typeof HeadingLevel]): Paragraph {
+  return new Paragraph({
+    heading: level,
+    spacing: { before: 360, after: 120 },
+    children: [new TextRun({ text: value, color: BLUE, bold: true })],
+  });
+}
+
+function paragraph(runs: TextRun[]): Paragraph {
+  return new Paragraph({ spacing: { before: 60, after: 60 }, children: runs });
+}
+
+function cell(runs: TextRun[], width: number, header = false, shade?: string): TableCell {
+  return new TableCell({
+    width: { size: width, type: WidthType.DXA },
+    shading: header ? { type: ShadingType.SOLID, color: BLUE } : shade ? { type: ShadingType.SOLID, color: shade } : undefined,
+    borders: thinBorder,
+    children: [new Paragraph({ spacing: { before: 40, after: 40 }, children: runs })],
+  });
+}
+
+function diffTable(table: DiffTable): Table {
+  const header = new TableRow({
+    tableHeader: true,
+    children: table.headers.map((label, i) => cell([text(label, { bold: true, color: WHITE })], table.widths[i], true)),
+  });
+  const body = table.rows.map((row, r) => new TableRow({
+    children: row.map((value, i) => cell([text(value)], table.widths[i], false, r % 2 === 0 ? LIGHT_BLUE : undefined)),
+  }));
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    layout: TableLayoutType.FIXED,
+    rows: [header, ...body],
+  });
+}
+
+/** Render the change summary as a Word document */
+export async function generateDiffDocx(report: DiffReport, outputPath: string): Promise<void> {
+  const children: (Paragraph | Table)[] = [
+    heading(report.title, HeadingLevel.TITLE),
+    paragraph([text('Before: ', { bold: true }), text(report.before)]),
+    paragraph([text('After: ', { bold: true }), text(report.after)]),
+  ];
+
+  for (const section of report.sections) {
+    children.push(heading(section.title, section.depth === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2));
+    for (const p of section.paragraphs ?? []) {
+      children.push(paragraph([text(p)]));
+    }
+    if (section.table) {
+      children.push(diffTable(section.table));
+    }
+  }
+
+  const doc = new Document({
+    sections: [{
+      properties: {
+        page: {
+          margin: {
+            top: convertInchesToTwip(0.8),
+            bottom: convertInchesToTwip(0.8),
+            left: convertInchesToTwip(0.9),
+            right: convertInchesToTwip(0.9),
+          },
+        },
+      },
+      children,
+    }],
+  });
+
+  const buffer = await Packer.toBuffer(doc);
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, buffer);
+}
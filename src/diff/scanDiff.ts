@@ -0,0 +1,107 @@
+import { readFileSync, existsSync } from 'fs';
+import type { DetailedScanResult, Impact } from '../types.js';
+import { IMPACT_ORDER, pageKey } from '../scanner/resultAggregator.js';
+
+/** How one axe rule's failures changed between two scans */
+export interface RuleDelta {
+  ruleId: string;
+  description: string;
+  impact: Impact | null;
+  status: 'new' | 'resolved' | 'changed';
+  beforePages: number;
+  afterPages: number;
+  beforeNodes: number;
+  afterNodes: number;
+  /** Pages failing only in the later scan */
+  newPages: string[];
+  /** Pages failing before that scanned cleanly for this rule later */
+  fixedPages: string[];
+}
+
+export interface ScanDiff {
+  beforeUrls: number;
+  afterUrls: number;
+  /** Pages scanned only in the later run, or only in the earlier one */
+  pagesAdded: string[];
+  pagesRemoved: string[];
+  rules: RuleDelta[];
+}
+
+/** Load a `--scan-only` results file */
+export function loadScanResults(path: string): DetailedScanResult[] {
+  if (!existsSync(path)) {
+    throw new Error(`Scan results not found at ${path}`);
+  }
+  const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${path} is not a scan results file (expected a JSON array)`);
+  }
+  return parsed as DetailedScanResult[];
+}
+
+interface RuleFailures {
+  description: string;
+  impact: Impact | null;
+  /** page (URL, plus variant from a scan matrix) → failing node count */
+  pages: Map<string, number>;
+}
+
+function failuresByRule(results: DetailedScanResult[]): Map<string, RuleFailures> {
+  const rules = new Map<string, RuleFailures>();
+  for (const result of results) {
+    for (const violation of result.violations) {
+      const rule = rules.get(violation.ruleId) ?? { description: violation.description, impact: violation.impact, pages: new Map() };
+      const page = pageKey(result);
+      rule.pages.set(page, (rule.pages.get(page) ?? 0) + violation.nodes);
+      rules.set(violation.ruleId, rule);
+    }
+  }
+  return rules;
+}
+
+const sum = (pages: Map<string, number> | undefined) => [...(pages?.values() ?? [])].reduce((a, b) => a + b, 0);
+
+/** Compare two scans rule by rule; rules with identical failures are left out */
+export function diffScanResults(before: DetailedScanResult[], after: DetailedScanResult[]): ScanDiff {
+  const beforeRules = failuresByRule(before);
+  const afterRules = failuresByRule(after);
+  const beforeUrls = new Set(before.map(pageKey));
+  const afterUrls = new Set(after.map(pageKey));
+  const rescanned = new Set(after.filter((r) => r.status === 'ok').map(pageKey));
+
+  const rules: RuleDelta[] = [];
+  for (const ruleId of new Set([...beforeRules.keys(), ...afterRules.keys()])) {
+    const was = beforeRules.get(ruleId);
+    const now = afterRules.get(ruleId);
+    const newPages = [...(now?.pages.keys() ?? [])].filter((url) => !was?.pages.has(url));
+    const fixedPages = [...(was?.pages.keys() ?? [])].filter((url) => !now?.pages.has(url) && rescanned.has(url));
+    const beforeNodes = sum(was?.pages);
+    const afterNodes = sum(now?.pages);
+    if (newPages.length === 0 && fixedPages.length === 0 && beforeNodes === afterNodes) continue;
+
+    rules.push({
+      ruleId,
+      description: (now ?? was)!.description,
+      impact: (now ?? was)!.impact,
+      status: !was ? 'new' : !now ? 'resolved' : 'changed',
+      beforePages: was?.pages.size ?? 0,
+      afterPages: now?.pages.size ?? 0,
+      beforeNodes,
+      afterNodes,
+      newPages,
+      fixedPages,
+    });
+  }
+
+  // Most severe first
+  const rank = (impact: Impact | null) => (impact ? IMPACT_ORDER.indexOf(impact) : -1);
+  rules.sort((a, b) => rank(b.impact) - rank(a.impact) || a.ruleId.localeCompare(b.ruleId));
+
+  return {
+    beforeUrls: beforeUrls.size,
+    afterUrls: afterUrls.size,
+    pagesAdded: [...afterUrls].filter((url) => !beforeUrls.has(url)),
+    pagesRemoved: [...beforeUrls].filter((url) => !afterUrls.has(url)),
+    rules,
+  };
+}
@@ -0,0 +1,230 @@
+import {
+  Document,
+  Packer,
+  Paragraph,
+  Table,
+  TableRow,
+  TableCell,
+  TextRun,
+  HeadingLevel,
+  WidthType,
+  BorderStyle,
+  ShadingType,
+  TableLayoutType,
+  convertInchesToTwip,
+} from 'docx';
+import { writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type {
+  ConformanceLevel,
+  ConformanceRow,
+  QuestionScore,
+  VpatEdition,
+  WcagScResult,
+  WcagStandard,
+} from '../types.js';
+import { buildChapterConformance, buildWcagConformance, loadVpatTables } from '../mapping/conformance.js';
+import { WCAG_LEVELS, standardLabel } from '../mapping/wcagStandard.js';
+
+export interface VpatReportInput {
+  product: string;
+  reportDate: string;
+  edition: VpatEdition;
+  standard: WcagStandard;
+  scores: QuestionScore[];
+  wcagResults: Map<string, WcagScResult>;
+}
+
+/** A titled block of the report: a conformance table, or a note for chapters that don't apply */
+export interface VpatSection {
+  title: string;
+  /** 1 = report (WCAG / 508 / EN), 2 = table or chapter */
+  depth: 1 | 2;
+  rows?: ConformanceRow[];
+  note?: string;
+}
+
+const EDITION_NAMES: Record<VpatEdition, string> = {
+  wcag: 'WCAG',
+  '508': 'Revised Section 508',
+  eu: 'EU',
+  int: 'International',
+};
+
+const CONFORMANCE_TERMS: [ConformanceLevel, string][] = [
+  ['Supports', 'The functionality of the product has at least one method that meets the criterion without known defects or meets with equivalent facilitation.'],
+  ['Partially Supports', 'Some functionality of the product does not meet the criterion.'],
+  ['Does Not Support', 'The majority of product functionality does not meet the criterion.'],
+  ['Not Applicable', 'The criterion is not relevant to the product.'],
+  ['Not Evaluated', 'The product has not been evaluated against the criterion.'],
+];
+
+const includesWcag = (edition: VpatEdition) => edition !== 'eu';
+const includes508 = (edition: VpatEdition) => edition === '508' || edition === 'int';
+const includesEn = (edition: VpatEdition) => edition === 'eu' || edition === 'int';
+
+/** Roll scores up into the sections of the chosen edition */
+export function buildVpatSections(input: VpatReportInput): VpatSection[] {
+  const { edition, standard, scores, wcagResults } = input;
+  const sections: VpatSection[] = [];
+
+  if (includesWcag(edition)) {
+    const rows = buildWcagConformance(scores, wcagResults, standard);
+    sections.push({ title: `WCAG ${standard.version} Report`, depth: 1 });
+    WCAG_LEVELS.slice(0, WCAG_LEVELS.indexOf(standard.level) + 1).forEach((level, i) => {
+      sections.push({
+        title: `Table ${i + 1}: Success Criteria, Level ${level}`,
+        depth: 2,
+        rows: rows.filter((r) => r.level === level),
+      });
+    });
+  }
+
+  const tables = loadVpatTables();
+  if (includes508(edition)) {
+    sections.push({ title: 'Revised Section 508 Report', depth: 1 });
+    for (const chapter of tables.section508) {
+      sections.push({ title: chapter.title, depth: 2, rows: buildChapterConformance(chapter, scores, wcagResults) });
+    }
+  }
+
+  if (includesEn(edition)) {
+    sections.push({ title: 'EN 301 549 Report', depth: 1 });
+    for (const chapter of tables.en301549) {
+      sections.push(chapter.note
+        ? { title: chapter.title, depth: 2, note: chapter.note }
+        : { title: chapter.title, depth: 2, rows: buildChapterConformance(chapter, scores, wcagResults) });
+    }
+  }
+
+  return sections;
+}
+
+/** Standards named in the report header for an edition */
+function applicableStandards(edition: VpatEdition, standard: WcagStandard): string[] {
+  const standards: string[] = [];
+  if (includesWcag(edition)) standards.push(standardLabel(standard));
+  if (includes508(edition)) standards.push('Revised Section 508 standards published January 18, 2017 and corrected January 22, 2018');
+  if (includesEn(edition)) standards.push('EN 301 549 Accessibility requirements for ICT products and services - V3.2.1 (2021-03)');
+  return standards;
+}
+
+// Rendering
+
+const BLUE = '1F4E79';
+const LIGHT_BLUE = 'D6E4F0';
+const DARK_GRAY = '333333';
+const WHITE = 'FFFFFF';
+const COLUMN_WIDTHS = [3400, 2000, 4200];
+
+const thinBorder = {
+  top: { style: BorderStyle.SINGLE, size: 1, color: 'BFBFBF' },
+  bottom: { style: BorderStyle.SINGLE, size: 1, color: 'BFBFBF' },
+  left: { style: BorderStyle.SINGLE, size: 1, color: 'BFBFBF' },
+  right: { style: BorderStyle.SINGLE, size: 1, color: 'BFBFBF' },
+} as const;
+
+function text(value: string, opts?: { bold?: boolean; color?: string; size?: number }): TextRun {
+  return new TextRun({ text: value, font: 'Aptos', size: opts?.size ?? 20, bold: opts?.bold, color: opts?.color ?? DARK_GRAY });
+}
+
+function heading(value: string, level: (typeof HeadingLevel)[keyof typeof HeadingLevel]): Paragraph {
+  return new Paragraph({
+    heading: level,
+    spacing: { before: 360, after: 120 },
+    children: [new TextRun({ text: value, color: BLUE, bold: true })],
+  });
+}
+
+function paragraph(runs: TextRun[]): Paragraph {
+  return new Paragraph({ spacing: { before: 60, after: 60 }, children: runs });
+}
+
+function cell(runs: TextRun[], width: number, header = false, shade?: string): TableCell {
+  return new TableCell({
+    width: { size: width, type: WidthType.DXA },
+    shading: header ? { type: ShadingType.SOLID, color: BLUE } : shade ? { type: ShadingType.SOLID, color: shade } : undefined,
+    borders: thinBorder,
+    children: [new Paragraph({ spacing: { before: 40, after: 40 }, children: runs })],
+  });
+}
+
+function criterionLabel(row: ConformanceRow): string {
+  return row.level ? `${row.id} ${row.name} (Level ${row.level})` : `${row.id} ${row.name}`;
+}
+
+function conformanceTable(rows: ConformanceRow[]): Table {
+  const header = new TableRow({
+    tableHeader: true,
+    children: ['Criteria', 'Conformance Level', 'Remarks and Explanations'].map((label, i) =>
+      cell([text(label, { bold: true, color: WHITE })], COLUMN_WIDTHS[i], true)
+    ),
+  });
+
+  const body = rows.map((row) => {
+    const shade = row.conformance === null ? LIGHT_BLUE : undefined;
+    return new TableRow({
+      children: [
+        cell([text(criterionLabel(row), { bold: row.conformance === null })], COLUMN_WIDTHS[0], false, shade),
+        cell([text(row.conformance ?? 'Heading cell – no response required')], COLUMN_WIDTHS[1], false, shade),
+        cell([text(row.remarks)], COLUMN_WIDTHS[2], false, shade),
+      ],
+    });
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    layout: TableLayoutType.FIXED,
+    rows: [header, ...body],
+  });
+}
+
+/** Generate an ITI VPAT 2.5 Accessibility Conformance Report for the chosen edition */
+export async function generateVpatDocx(input: VpatReportInput, outputPath: string): Promise<void> {
+  const children: (Paragraph | Table)[] = [];
+
+  children.push(
+    heading(`${input.product} Accessibility Conformance Report`, HeadingLevel.TITLE),
+    paragraph([text(`${EDITION_NAMES[input.edition]} Edition (Based on VPAT® Version 2.5)`, { size: 24 })]),
+    paragraph([text('Name of Product/Version: ', { bold: true }), text(input.product)]),
+    paragraph([text('Report Date: ', { bold: true }), text(input.reportDate)]),
+    paragraph([
+      text('Evaluation Methods Used: ', { bold: true }),
+      text('Automated testing with axe-core across representative product pages, combined with manual expert review.'),
+    ]),
+    heading('Applicable Standards/Guidelines', HeadingLevel.HEADING_2),
+    ...applicableStandards(input.edition, input.standard).map((s) => paragraph([text(`• ${s}`)])),
+    heading('Terms', HeadingLevel.HEADING_2),
+    ...CONFORMANCE_TERMS.map(([term, definition]) => paragraph([text(`${term}: `, { bold: true }), text(definition)]))
+  );
+
+  for (const section of buildVpatSections(input)) {
+    children.push(heading(section.title, section.depth === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2));
+    if (section.note) {
+      children.push(paragraph([text(section.note)]));
+    }
+    if (section.rows) {
+      children.push(conformanceTable(section.rows));
+    }
+  }
+
+  const doc = new Document({
+    sections: [{
+      properties: {
+        page: {
+          margin: {
+            top: convertInchesToTwip(0.8),
+            bottom: convertInchesToTwip(0.8),
+            left: convertInchesToTwip(0.9),
+            right: convertInchesToTwip(0.9),
+          },
+        },
+      },
+      children,
+    }],
+  });
+
+  const buffer = await Packer.toBuffer(doc);
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, buffer);
+}
@@ -0,0 +1,173 @@
+import type { ParsedProduct, ParsedRow, QuestionScore } from '../types.js';
+import { textsMatch } from './index.js';
+
+/** A previous answer that could not be carried into the current run */
+export interface CarryForwardDrop {
+  questionText: string;
+  /** Previous score as written in the old ACR ("*", "", ...) */
+  previousScore: string;
+  reason: string;
+}
+
+/** Scores lifted from a previous ACR, keyed by the *current* template position */
+export interface CarryForwardResult {
+  /** `tableIndex:rowIndex` (current template) → previous score */
+  scores: Map<string, QuestionScore>;
+  /** Keys whose answer came from a different row in the previous ACR → old location */
+  moved: Map<string, string>;
+  /** Previous answers that were never candidates for carry-forward */
+  dropped: CarryForwardDrop[];
+}
+
+/** What happened to each carry-forward candidate after scoring */
+export interface CarryForwardReport {
+  carried: { questionText: string; score: number; comment: string; movedFrom?: string }[];
+  dropped: CarryForwardDrop[];
+}
+
+interface QuestionRow {
+  tableIndex: number;
+  category: string;
+  row: ParsedRow;
+}
+
+function questionRows(product: ParsedProduct): QuestionRow[] {
+  return product.tables.flatMap((table) =>
+    table.rows
+      .filter((row) => row.type === 'question' && row.questionText)
+      .map((row) => ({ tableIndex: table.tableIndex, category: table.category, row }))
+  );
+}
+
+/** Pick the previous ACR's section for this product — by name, then by position */
+export function findPreviousProduct(
+  previousProducts: ParsedProduct[],
+  current: ParsedProduct,
+  sectionIndex: number
+): ParsedProduct | undefined {
+  const name = current.name.toLowerCase();
+  const byName = previousProducts.find((p) => {
+    const other = p.name.toLowerCase();
+    return other.includes(name) || name.includes(other);
+  });
+  if (byName) return byName;
+  if (previousProducts.length === 1) return previousProducts[0];
+  return previousProducts[sectionIndex];
+}
+
+/** Parse a score cell from a filled ACR — only numeric scores in [0, 1] carry forward */
+function parsePreviousScore(text: string | undefined): number | null {
+  const trimmed = text?.trim() ?? '';
+  if (trimmed === '') return null;
+  const value = Number(trimmed);
+  if (!Number.isFinite(value) || value < 0 || value > 1) return null;
+  return value;
+}
+
+/**
+ * Build the carry-forward map for `scoreQuestions` from a previously filled ACR.
+ *
+ * Rows are matched by position first (same category table and row, same question
+ * text). When the row layout changed between templates, the previous answer is
+ * located by question text within the same category, then anywhere in the product.
+ */
+export function buildCarryForwardScores(
+  previous: ParsedProduct,
+  current: ParsedProduct
+): CarryForwardResult {
+  const scores = new Map<string, QuestionScore>();
+  const moved = new Map<string, string>();
+  const dropped: CarryForwardDrop[] = [];
+
+  const previousRows = questionRows(previous);
+  const currentRows = questionRows(current);
+  const claimed = new Set<QuestionRow>();
+
+  const findPrevious = (target: QuestionRow): QuestionRow | undefined => {
+    const text = target.row.questionText!;
+    const samePosition = previousRows.find(
+      (p) =>
+        !claimed.has(p) &&
+        p.category === target.category &&
+        p.row.rowIndex === target.row.rowIndex &&
+        textsMatch(text, p.row.questionText!)
+    );
+    if (samePosition) return samePosition;
+
+    return (
+      previousRows.find(
+        (p) => !claimed.has(p) && p.category === target.category && textsMatch(text, p.row.questionText!)
+      ) ?? previousRows.find((p) => !claimed.has(p) && textsMatch(text, p.row.questionText!))
+    );
+  };
+
+  for (const target of currentRows) {
+    const match = findPrevious(target);
+    if (!match) continue;
+    claimed.add(match);
+
+    // Unscored rows ("*" or blank) were never answered — nothing to carry
+    const score = parsePreviousScore(match.row.score);
+    if (score === null) continue;
+
+    const key = `${target.tableIndex}:${target.row.rowIndex}`;
+    const weight = target.row.weight || 0;
+    if (match.category !== target.category || match.row.rowIndex !== target.row.rowIndex) {
+      moved.set(key, `${match.category} row ${match.row.rowIndex}`);
+    }
+    scores.set(key, {
+      rowIndex: target.row.rowIndex,
+      tableIndex: target.tableIndex,
+      questionText: target.row.questionText!,
+      score,
+      weight,
+      weightedScore: weight * score,
+      comment: match.row.comment?.trim() ?? '',
+      automatable: false,
+      source: 'carry-forward',
+    });
+  }
+
+  for (const p of previousRows) {
+    if (claimed.has(p) || parsePreviousScore(p.row.score) === null) continue;
+    dropped.push({
+      questionText: p.row.questionText!,
+      previousScore: p.row.score ?? '',
+      reason: 'Question no longer in template',
+    });
+  }
+
+  return { scores, moved, dropped };
+}
+
+/** Compare carry-forward candidates with final scores to explain what was used */
+export function buildCarryForwardReport(
+  carryForward: CarryForwardResult,
+  scores: QuestionScore[]
+): CarryForwardReport {
+  const report: CarryForwardReport = { carried: [], dropped: [...carryForward.dropped] };
+
+  for (const [key, candidate] of carryForward.scores) {
+    const final = scores.find((s) => `${s.tableIndex}:${s.rowIndex}` === key);
+    if (final?.source === 'carry-forward') {
+      report.carried.push({
+        questionText: final.questionText,
+        score: final.score!,
+        comment: final.comment,
+        movedFrom: carryForward.moved.get(key),
+      });
+      continue;
+    }
+
+    let reason = 'Question not scored in this run';
+    if (final?.source === 'scan') reason = 'Now scored automatically by scan';
+    else if (final?.source === 'template') reason = 'Template already has a score';
+    report.dropped.push({
+      questionText: candidate.questionText,
+      previousScore: String(candidate.score),
+      reason,
+    });
+  }
+
+  return report;
+}
@@ -0,0 +1,152 @@
+import { readFileSync, existsSync } from 'fs';
+import { resolve } from 'path';
+import type {
+  ConformanceLevel,
+  ConformanceRow,
+  QuestionScore,
+  VpatChapterDef,
+  VpatTablesDef,
+  WcagCriterion,
+  WcagScResult,
+  WcagStandard,
+} from '../types.js';
+import { criteriaForStandard, loadWcagCriteria } from './wcagStandard.js';
+
+let cachedTables: VpatTablesDef | null = null;
+
+/** Load the Section 508 and EN 301 549 table definitions from JSON */
+export function loadVpatTables(
+  tablesPath: string = resolve(import.meta.dirname, '../../mappings/vpat-tables.json')
+): VpatTablesDef {
+  if (cachedTables) return cachedTables;
+
+  if (!existsSync(tablesPath)) {
+    throw new Error(`vpat-tables.json not found at ${tablesPath}`);
+  }
+
+  cachedTables = JSON.parse(readFileSync(tablesPath, 'utf-8')) as VpatTablesDef;
+  return cachedTables;
+}
+
+/**
+ * Roll question scores and scan results up to one criterion's conformance.
+ * Question scores decide when any are present; a scan failure on the same
+ * criterion downgrades an otherwise supporting verdict to partial. Supports
+ * needs a passing answer from a reviewer, the template, a carried-forward ACR
+ * or AI review: automated checks cover only part of most criteria, so clean
+ * scan results alone leave the criterion Not Evaluated.
+ */
+export function rollupCriterion(
+  criterion: WcagCriterion,
+  scores: QuestionScore[],
+  wcagResult?: WcagScResult
+): ConformanceRow {
+  const related = scores.filter((s) => !s.outOfScope && s.wcagScs?.includes(criterion.sc));
+  const scored = related.filter((s) => s.score !== null);
+  const failing = scored.filter((s) => s.score === 0);
+  const passing = scored.filter((s) => s.score === 1);
+  const partial = scored.filter((s) => s.score! > 0 && s.score! < 1);
+  const scanFailed = wcagResult?.status === 'fail';
+  const scanRemark = wcagResult && scanFailed
+    ? `Automated testing found ${wcagResult.totalViolations} issue(s) on ${wcagResult.urlsWithViolations} of ${wcagResult.totalUrls} page(s).`
+    : '';
+
+  let conformance: ConformanceLevel;
+  let remarks: string;
+
+  if (scored.length > 0) {
+    if (failing.length === 0 && partial.length === 0) {
+      if (scanFailed) {
+        conformance = 'Partially Supports';
+        remarks = scanRemark;
+      } else if (passing.some((s) => s.source !== 'scan')) {
+        conformance = 'Supports';
+        remarks = joinComments(passing);
+      } else {
+        conformance = 'Not Evaluated';
+        remarks = `Automated checks only: ${joinComments(passing)} Manual review required.`;
+      }
+    } else {
+      conformance = passing.length === 0 && partial.length === 0 ? 'Does Not Support' : 'Partially Supports';
+      remarks = joinComments([...failing, ...partial]);
+    }
+  } else if (wcagResult && wcagResult.status !== 'incomplete') {
+    if (scanFailed) {
+      conformance = wcagResult.urlsWithViolations < wcagResult.totalUrls ? 'Partially Supports' : 'Does Not Support';
+      remarks = scanRemark;
+    } else {
+      conformance = 'Not Evaluated';
+      remarks = `Automated checks only: no issues found across ${wcagResult.totalUrls} page(s). Manual review required.`;
+    }
+  } else {
+    conformance = 'Not Evaluated';
+    remarks = 'Requires manual evaluation.';
+  }
+
+  return { id: criterion.sc, name: criterion.name, level: criterion.level, conformance, remarks };
+}
+
+/** Conformance rows for every criterion in a standard, in catalog order */
+export function buildWcagConformance(
+  scores: QuestionScore[],
+  wcagResults: Map<string, WcagScResult>,
+  standard: WcagStandard
+): ConformanceRow[] {
+  return criteriaForStandard(standard).map((c) => rollupCriterion(c, scores, wcagResults.get(c.sc)));
+}
+
+/**
+ * Combine criterion verdicts for a derived row (e.g. 302.1 Without Vision).
+ * Not Evaluated and Not Applicable criteria are ignored once anything else was evaluated.
+ */
+export function combineConformance(levels: ConformanceLevel[]): ConformanceLevel {
+  const evaluated = levels.filter((l) => l !== 'Not Evaluated' && l !== 'Not Applicable');
+  if (evaluated.length === 0) {
+    return levels.length > 0 && levels.every((l) => l === 'Not Applicable') ? 'Not Applicable' : 'Not Evaluated';
+  }
+  if (evaluated.every((l) => l === 'Supports')) return 'Supports';
+  if (evaluated.every((l) => l === 'Does Not Support')) return 'Does Not Support';
+  return 'Partially Supports';
+}
+
+/** Resolve a Section 508 / EN 301 549 chapter into rows */
+export function buildChapterConformance(
+  chapter: VpatChapterDef,
+  scores: QuestionScore[],
+  wcagResults: Map<string, WcagScResult>
+): ConformanceRow[] {
+  if (chapter.wcag) {
+    const prefix = chapter.idPrefix ?? '';
+    return buildWcagConformance(scores, wcagResults, chapter.wcag).map((row) => ({ ...row, id: prefix + row.id }));
+  }
+
+  const criteria = new Map(loadWcagCriteria().map((c) => [c.sc, c]));
+  return (chapter.rows ?? []).map((def) => {
+    if (def.heading) {
+      return { id: def.id, name: def.name, conformance: null, remarks: def.remarks ?? '' };
+    }
+    if (def.wcagScs) {
+      const rows = def.wcagScs
+        .map((sc) => criteria.get(sc))
+        .filter((c): c is WcagCriterion => c !== undefined)
+        .map((c) => rollupCriterion(c, scores, wcagResults.get(c.sc)));
+      const conformance = combineConformance(rows.map((r) => r.conformance!));
+      const gaps = rows.filter((r) => r.conformance === 'Does Not Support' || r.conformance === 'Partially Supports');
+      const remarks = gaps.length > 0
+        ? `See ${gaps.map((r) => `${r.id} ${r.name}`).join(', ')}.`
+        : def.remarks ?? (conformance === 'Not Evaluated' ? 'Requires manual evaluation.' : '');
+      return { id: def.id, name: def.name, conformance, remarks };
+    }
+    return {
+      id: def.id,
+      name: def.name,
+      conformance: def.conformance ?? 'Not Evaluated',
+      remarks: def.remarks ?? (def.conformance ? '' : 'Requires manual evaluation.'),
+    };
+  });
+}
+
+/** Distinct comments of the given scores, in question order */
+function joinComments(scores: QuestionScore[]): string {
+  return [...new Set(scores.map((s) => s.comment.trim()).filter(Boolean))].join(' ');
+}
@@ -1,12 +1,58 @@
-import type { WcagScResult, QuestionScore, ParsedProduct } from '../types.js';
+import type {
+  WcagScResult,
+  AxeRuleAggregate,
+  QuestionScore,
+  ParsedProduct,
+  ParsedRow,
+  ScoreSource,
+  ScoringConfig,
+  QuestionVerdict,
+  WcagStandard,
+  WcagToQuestionEntry,
+  ManualAnswer,
+} from '../types.js';
 import { loadQuestionMapping } from './questionMapping.js';
+import { attribution, isStale } from './manualAnswers.js';
+import { isScInStandard, standardLabel } from './wcagStandard.js';
+import { worseImpact } from '../scanner/resultAggregator.js';
+
+/** Pass/fail only: any failure is Does Not Support. Used unless a config sets `scoring` */
+export const BINARY_SCORING: ScoringConfig = {
+  partialCredit: 0,
+  partialThresholds: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+};
+
+/**
+ * Defaults for a config's `scoring` block: half credit for partial support;
+ * critical issues are never partial, minor ones always are.
+ */
+export const PARTIAL_SCORING: ScoringConfig = {
+  partialCredit: 0.5,
+  partialThresholds: { critical: 0, serious: 0.25, moderate: 0.5, minor: 1 },
+};
+
+export interface ScoringOptions {
+  /** Manual scores carried forward from a previous ACR, keyed by "tableIndex:rowIndex" */
+  carryForwardScores?: Map<string, QuestionScore>;
+  /** Per-rule results; when present, questions with axeRules are scored by those rules only */
+  ruleResults?: Map<string, AxeRuleAggregate>;
+  /** Target standard; questions covering only other criteria are left unscored */
+  standard?: WcagStandard;
+  /** Partial-support thresholds and credit; defaults to BINARY_SCORING */
+  scoring?: ScoringConfig;
+  /** Reviewers' answers keyed by question ID; valid ones override every other source */
+  manualAnswers?: Map<string, ManualAnswer>;
+  /** Date answers are checked for staleness against; defaults to now */
+  today?: Date;
+}
 
 /** Generate scores for all questions in a product based on axe scan results */
 export function scoreQuestions(
   product: ParsedProduct,
   wcagResults: Map<string, WcagScResult>,
-  carryForwardScores?: Map<string, QuestionScore>
+  options: ScoringOptions = {}
 ): QuestionScore[] {
+  const { carryForwardScores, ruleResults, standard, scoring = BINARY_SCORING, manualAnswers, today } = options;
   const questionMapping = loadQuestionMapping();
   const scores: QuestionScore[] = [];
 
@@ -26,15 +72,51 @@ export function scoreQuestions(
 
         // Find this question in the mapping
         const mappingEntry = questionMapping.find((e) => e.wcagSc === currentScPrefix);
-        const questionDef = mappingEntry?.questions.find(
-          (q) => textsMatch(questionText, q.questionText)
-        );
+        const questionDef = mappingEntry ? findQuestionDef(mappingEntry, questionText) : undefined;
 
         let score: number | null = null;
         let comment = '';
+        let source: ScoreSource | undefined;
+        let verdict: QuestionVerdict | undefined;
         const automatable = questionDef?.automatable ?? false;
+        const outOfScope = standard !== undefined && questionDef !== undefined
+          && !questionDef.wcagScs.some((sc) => isScInStandard(sc, standard));
 
-        if (automatable && questionDef) {
+        if (outOfScope) {
+          score = null;
+          comment = `Not required for ${standardLabel(standard!)} (${questionDef!.wcagScs.join(', ')}).`;
+        } else if (automatable && questionDef && ruleResults && questionDef.axeRules.length > 0) {
+          const relevantRules = findRelevantRuleResults(questionDef.axeRules, ruleResults);
+          const failing = relevantRules.filter((r) => r.status === 'fail');
+          const incomplete = relevantRules.filter((r) => r.status === 'incomplete');
+
+          if (relevantRules.length === 0) {
+            // The rules never ran (e.g. an audit that is switched off) or found nothing to test:
+            // keep the template or carried-forward answer instead of discarding it
+            const preserved = preservedAnswer(row, table.tableIndex, carryForwardScores);
+            if (preserved) {
+              ({ score, comment, source } = preserved);
+            } else {
+              score = null;
+              comment = `No automated results for ${questionDef.axeRules.join(', ')}; manual review required.`;
+            }
+          } else if (failing.length > 0) {
+            verdict = gradeRuleResults(relevantRules, scoring);
+            const partial = verdict.conformance === 'Partially Supports';
+            score = partial ? scoring.partialCredit : 0;
+            source = 'scan';
+            comment = (partial ? 'Partially supports — ' : '') + failing.map(describeRuleFailure).join('; ');
+          } else if (incomplete.length > 0) {
+            score = null;
+            comment = `Requires manual review — axe-core returned incomplete results for ${incomplete.map((r) => r.ruleId).join(', ')}.`;
+          } else {
+            score = 1;
+            source = 'scan';
+            verdict = gradeRuleResults(relevantRules, scoring);
+            const totalUrls = relevantRules[0].totalUrls;
+            comment = `No issues found for ${relevantRules.map((r) => r.ruleId).join(', ')} across ${totalUrls} page(s).`;
+          }
+        } else if (automatable && questionDef) {
           // Find relevant WCAG SC results
           const relevantResults = findRelevantResults(
             currentScPrefix,
@@ -48,6 +130,7 @@ export function scoreQuestions(
 
             if (hasFailures) {
               score = 0;
+              source = 'scan';
               const failResults = relevantResults.filter((r) => r.status === 'fail');
               const totalViolations = failResults.reduce((sum, r) => sum + r.totalViolations, 0);
               const urlCount = new Set(failResults.map((r) => r.urlsWithViolations)).size;
@@ -58,6 +141,7 @@ export function scoreQuestions(
               comment = 'Requires manual review — axe-core returned incomplete results.';
             } else {
               score = 1;
+              source = 'scan';
               const totalUrls = relevantResults[0]?.totalUrls ?? 0;
               comment = `No issues found across ${totalUrls} page(s).`;
             }
@@ -68,27 +152,27 @@ export function scoreQuestions(
           }
         } else {
           // Non-automatable question — preserve existing template values if present
-          const existingScore = row.score?.trim();
-          const existingComment = row.comment?.trim();
-
-          if (existingScore === '1' || existingScore === '0') {
-            score = parseInt(existingScore, 10);
-            comment = existingComment || '';
-          } else if (carryForwardScores) {
-            const cfScore = carryForwardScores.get(`${table.tableIndex}:${row.rowIndex}`);
-            if (cfScore && cfScore.score !== null) {
-              score = cfScore.score;
-              comment = cfScore.comment || '';
-            } else {
-              score = null;
-              comment = existingComment || 'Manual review required.';
-            }
+          const preserved = preservedAnswer(row, table.tableIndex, carryForwardScores);
+          if (preserved) {
+            ({ score, comment, source } = preserved);
           } else {
             score = null;
-            comment = existingComment || 'Manual review required.';
+            comment = row.comment?.trim() || 'Manual review required.';
           }
         }
 
+        // A reviewer's answer wins over scan results and earlier answers until it goes stale
+        const answer = questionDef && !outOfScope ? manualAnswers?.get(questionDef.id) : undefined;
+        const stale = answer !== undefined && isStale(answer, today);
+        if (answer && !stale) {
+          score = answer.score;
+          comment = `${answer.comment} (${attribution(answer)})`;
+          source = 'manual';
+          verdict = undefined;
+        } else if (answer && score === null) {
+          comment = `${comment} Answer by ${answer.reviewer} (${answer.reviewedOn}) expired on ${answer.validUntil}.`;
+        }
+
         const weightedScore = score !== null ? weight * score : null;
 
         scores.push({
@@ -100,6 +184,12 @@ export function scoreQuestions(
           weightedScore,
           comment,
           automatable,
+          ...(verdict ? { verdict } : {}),
+          ...(questionDef ? { wcagScs: questionDef.wcagScs } : {}),
+          ...(outOfScope ? { outOfScope } : {}),
+          ...(source ? { source } : {}),
+          ...(questionDef ? { questionId: questionDef.id } : {}),
+          ...(answer ? (stale ? { staleAnswer: answer } : { manualAnswer: answer }) : {}),
         });
       }
     }
@@ -108,6 +198,33 @@ export function scoreQuestions(
   return scores;
 }
 
+/** A question's answer from the filled-in template, else from the carried-forward ACR */
+function preservedAnswer(
+  row: ParsedRow,
+  tableIndex: number,
+  carryForwardScores?: Map<string, QuestionScore>
+): { score: number; comment: string; source: ScoreSource } | null {
+  const existingScore = row.score?.trim();
+  if (existingScore === '1' || existingScore === '0') {
+    return { score: parseInt(existingScore, 10), comment: row.comment?.trim() || '', source: 'template' };
+  }
+  const cfScore = carryForwardScores?.get(`${tableIndex}:${row.rowIndex}`);
+  if (cfScore && cfScore.score !== null) {
+    return { score: cfScore.score, comment: cfScore.comment || '', source: 'carry-forward' };
+  }
+  return null;
+}
+
+/** Find a question's mapping definition; exact text wins over fuzzy matches of sibling questions */
+export function findQuestionDef(
+  entry: WcagToQuestionEntry,
+  questionText: string
+): WcagToQuestionEntry['questions'][number] | undefined {
+  const normalized = normalizeText(questionText);
+  return entry.questions.find((q) => normalizeText(q.questionText) === normalized)
+    ?? entry.questions.find((q) => textsMatch(questionText, q.questionText));
+}
+
 /** Find WCAG results relevant to a question */
 export function findRelevantResults(
   scPrefix: string,
@@ -126,6 +243,65 @@ export function findRelevantResults(
   return results;
 }
 
+/** Find per-rule results for a question's mapped axe rules, in mapping order */
+export function findRelevantRuleResults(
+  axeRules: string[],
+  ruleResults: Map<string, AxeRuleAggregate>
+): AxeRuleAggregate[] {
+  return axeRules
+    .map((ruleId) => ruleResults.get(ruleId))
+    .filter((r): r is AxeRuleAggregate => r !== undefined);
+}
+
+/**
+ * Grade a question's rule results: pages affected, worst impact and node
+ * pass/fail counts. Failures stay Partially Supports while the share of
+ * affected pages is within the threshold for the worst impact.
+ */
+export function gradeRuleResults(rules: AxeRuleAggregate[], scoring: ScoringConfig): QuestionVerdict {
+  const failing = rules.filter((r) => r.status === 'fail');
+  const affectedPages = new Set(failing.flatMap((r) => r.failingUrls)).size;
+  const totalPages = rules[0]?.totalUrls ?? 0;
+  const worstImpact = failing.reduce<QuestionVerdict['worstImpact']>((worst, r) => worseImpact(worst, r.worstImpact), null);
+  const failingNodes = rules.reduce((sum, r) => sum + r.violationNodes, 0);
+  const passingNodes = rules.reduce((sum, r) => sum + r.passingNodes, 0);
+
+  let conformance: QuestionVerdict['conformance'] = 'Supports';
+  if (failing.length > 0) {
+    // Violations without a reported impact are graded as serious
+    const threshold = scoring.partialThresholds[worstImpact ?? 'serious'];
+    const pageShare = totalPages > 0 ? affectedPages / totalPages : 1;
+    conformance = pageShare <= threshold ? 'Partially Supports' : 'Does Not Support';
+  }
+
+  return { conformance, affectedPages, totalPages, worstImpact, failingNodes, passingNodes };
+}
+
+const MAX_COMMENT_PAGES = 3;
+
+/** "image-alt: 4 violation(s) on 2 page(s) (/, /about; chromium/mobile; states: menu-open)" */
+function describeRuleFailure(rule: AxeRuleAggregate): string {
+  const pages = rule.failingUrls.slice(0, MAX_COMMENT_PAGES).map(shortUrl);
+  const more = rule.failingUrls.length - pages.length;
+  const pageList = more > 0 ? `${pages.join(', ')}, +${more} more` : pages.join(', ');
+  const scope = [
+    ...(rule.failingVariants ? [rule.failingVariants.join(', ')] : []),
+    ...(rule.failingStates ? [`states: ${rule.failingStates.join(', ')}`] : []),
+  ];
+  const details = [pageList, ...scope].join('; ');
+  return `${rule.ruleId}: ${rule.violationNodes} violation(s) on ${rule.failingUrls.length} page(s) (${details})`;
+}
+
+/** Path and query of a URL, falling back to the raw string */
+function shortUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
 /** Normalize question text for matching — handles garbled chars like alter*tive */
 export function normalizeText(text: string): string {
   return text
@@ -164,12 +340,14 @@ export function scoringSummary(scores: QuestionScore[]): {
   automated: number;
   manual: number;
   passing: number;
+  partial: number;
   failing: number;
   na: number;
 } {
   const automated = scores.filter((s) => s.automatable);
   const manual = scores.filter((s) => !s.automatable);
   const passing = scores.filter((s) => s.score === 1);
+  const partial = scores.filter((s) => s.score !== null && s.score > 0 && s.score < 1);
   const failing = scores.filter((s) => s.score === 0);
   const na = scores.filter((s) => s.score === null);
 
@@ -178,6 +356,7 @@ export function scoringSummary(scores: QuestionScore[]): {
     automated: automated.length,
     manual: manual.length,
     passing: passing.length,
+    partial: partial.length,
     failing: failing.length,
     na: na.length,
   };
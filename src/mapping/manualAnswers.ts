@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { readFileSync, existsSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import type { ManualAnswer, QuestionScore } from '../types.js';
+
+const isoDate = (field: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${field} must be a YYYY-MM-DD date`);
+
+const answerSchema = z.object({
+  score: z.number().min(0).max(1),
+  comment: z.string().min(1),
+  reviewer: z.string().min(1),
+  reviewedOn: isoDate('reviewedOn'),
+  evidence: z.array(z.string().min(1)).default([]),
+  validUntil: isoDate('validUntil'),
+});
+
+const manualAnswersFileSchema = z.object({
+  /** Keyed by the question's stable ID from the question mapping */
+  answers: z.record(answerSchema),
+});
+
+/** Load and validate a product's manual answers; `.yaml` / `.yml` files are read as YAML, anything else as JSON */
+export function loadManualAnswers(path: string): Map<string, ManualAnswer> {
+  if (!existsSync(path)) {
+    throw new Error(`Manual answers file not found at ${path}`);
+  }
+  const raw = readFileSync(path, 'utf-8');
+  const parsed = /\.ya?ml$/i.test(path) ? parseYaml(raw) : JSON.parse(raw);
+  return new Map(Object.entries(manualAnswersFileSchema.parse(parsed).answers));
+}
+
+/** An answer lapses at the end of its validUntil day */
+export function isStale(answer: ManualAnswer, today: Date = new Date()): boolean {
+  return answer.validUntil < today.toISOString().slice(0, 10);
+}
+
+/** "Reviewed by Jane Doe on 2026-09-01; evidence: <links>" for ACR comments */
+export function attribution(answer: ManualAnswer): string {
+  const evidence = answer.evidence.length > 0 ? `; evidence: ${answer.evidence.join(', ')}` : '';
+  return `Reviewed by ${answer.reviewer} on ${answer.reviewedOn}${evidence}`;
+}
+
+export interface ManualAnswersReport {
+  applied: QuestionScore[];
+  stale: QuestionScore[];
+  /** Answer IDs that matched no question in the template, e.g. after a typo or a removed question */
+  unknown: string[];
+}
+
+export function buildManualAnswersReport(answers: Map<string, ManualAnswer>, scores: QuestionScore[]): ManualAnswersReport {
+  const matched = new Set(scores.flatMap((s) => (s.questionId ? [s.questionId] : [])));
+  return {
+    applied: scores.filter((s) => s.manualAnswer),
+    stale: scores.filter((s) => s.staleAnswer),
+    unknown: [...answers.keys()].filter((id) => !matched.has(id)),
+  };
+}
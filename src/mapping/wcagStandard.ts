@@ -0,0 +1,101 @@
+import { readFileSync, existsSync } from 'fs';
+import { resolve } from 'path';
+import type {
+  WcagCriterion,
+  WcagLevel,
+  WcagStandard,
+  WcagToQuestionEntry,
+  WcagVersion,
+} from '../types.js';
+
+export const WCAG_VERSIONS: WcagVersion[] = ['2.0', '2.1', '2.2'];
+export const WCAG_LEVELS: WcagLevel[] = ['A', 'AA', 'AAA'];
+
+/** WCAG 2.1 AA, the standard reported against when a config names none */
+export const DEFAULT_STANDARD: WcagStandard = { version: '2.1', level: 'AA' };
+
+// axe-core conformance tags; axe has no wcag21aaa, wcag22a or wcag22aaa tags
+const AXE_TAGS: { tag: string; version: WcagVersion; level: WcagLevel }[] = [
+  { tag: 'wcag2a', version: '2.0', level: 'A' },
+  { tag: 'wcag2aa', version: '2.0', level: 'AA' },
+  { tag: 'wcag2aaa', version: '2.0', level: 'AAA' },
+  { tag: 'wcag21a', version: '2.1', level: 'A' },
+  { tag: 'wcag21aa', version: '2.1', level: 'AA' },
+  { tag: 'wcag22aa', version: '2.2', level: 'AA' },
+];
+
+/** Every tag the scanner ran before `standard` existed; configs without a `standard` still scan with these */
+export const LEGACY_AXE_TAGS = AXE_TAGS.map((t) => t.tag);
+
+let cachedCriteria: WcagCriterion[] | null = null;
+
+/** Load the WCAG success criteria catalog from JSON */
+export function loadWcagCriteria(
+  criteriaPath: string = resolve(import.meta.dirname, '../../mappings/wcag-criteria.json')
+): WcagCriterion[] {
+  if (cachedCriteria) return cachedCriteria;
+
+  if (!existsSync(criteriaPath)) {
+    throw new Error(`wcag-criteria.json not found at ${criteriaPath}`);
+  }
+
+  cachedCriteria = JSON.parse(readFileSync(criteriaPath, 'utf-8')) as WcagCriterion[];
+  return cachedCriteria;
+}
+
+const versionRank = (version: WcagVersion) => WCAG_VERSIONS.indexOf(version);
+const levelRank = (level: WcagLevel) => WCAG_LEVELS.indexOf(level);
+
+/** Human-readable label, e.g. "WCAG 2.2 Level AA" */
+export function standardLabel(standard: WcagStandard): string {
+  return `WCAG ${standard.version} Level ${standard.level}`;
+}
+
+/** axe-core tags to run for a standard */
+export function axeTagsForStandard(standard: WcagStandard): string[] {
+  return AXE_TAGS.filter(
+    (t) => versionRank(t.version) <= versionRank(standard.version) && levelRank(t.level) <= levelRank(standard.level)
+  ).map((t) => t.tag);
+}
+
+/** Whether a criterion is part of a standard */
+export function isCriterionInStandard(criterion: WcagCriterion, standard: WcagStandard): boolean {
+  if (versionRank(criterion.version) > versionRank(standard.version)) return false;
+  if (criterion.removedIn && versionRank(criterion.removedIn) <= versionRank(standard.version)) return false;
+  return levelRank(criterion.level) <= levelRank(standard.level);
+}
+
+/** All success criteria required by a standard */
+export function criteriaForStandard(standard: WcagStandard): WcagCriterion[] {
+  return loadWcagCriteria().filter((c) => isCriterionInStandard(c, standard));
+}
+
+/** Whether a success criterion number (e.g. "2.5.8") is part of a standard */
+export function isScInStandard(sc: string, standard: WcagStandard): boolean {
+  const criterion = loadWcagCriteria().find((c) => c.sc === sc);
+  return criterion !== undefined && isCriterionInStandard(criterion, standard);
+}
+
+/** Keep only mapping questions covering at least one SC in the standard; drop emptied sections */
+export function filterMappingForStandard(
+  mapping: WcagToQuestionEntry[],
+  standard: WcagStandard
+): WcagToQuestionEntry[] {
+  return mapping
+    .map((entry) => ({
+      ...entry,
+      questions: entry.questions.filter((q) => q.wcagScs.some((sc) => isScInStandard(sc, standard))),
+    }))
+    .filter((entry) => entry.questions.length > 0);
+}
+
+/** Per-version inclusion text for the template's Standards / Guidelines table */
+export function standardsTableRows(standard: WcagStandard): { standard: string; included: string }[] {
+  return WCAG_VERSIONS.map((version) => {
+    const versionIncluded = versionRank(version) <= versionRank(standard.version);
+    const included = WCAG_LEVELS.map(
+      (level) => `Level ${level} — ${versionIncluded && levelRank(level) <= levelRank(standard.level) ? 'Yes' : 'No'}`
+    ).join('\n');
+    return { standard: `Web Content Accessibility Guidelines ${version}`, included };
+  });
+}
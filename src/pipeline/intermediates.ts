@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { AxeRuleAggregate, QuestionScore, WcagScResult, WcagStandard } from '../types.js';
+
+/**
+ * JSON files passed between the pipeline subcommands:
+ * scan → scan-results → aggregate → verdicts → score → scores → review / render.
+ * Scan results are the plain `--scan-only` array; the others carry a `kind`
+ * and the product so a file from the wrong stage or product is rejected.
+ */
+export type IntermediateKind = 'scan-results' | 'verdicts' | 'scores';
+
+/** Default location: ./output/<product>-<kind>.json */
+export function intermediatePath(product: string, kind: IntermediateKind): string {
+  return resolve(`./output/${product.toLowerCase()}-${kind}.json`);
+}
+
+/** Output of `aggregate`: per-criterion and per-rule verdicts across all scanned pages */
+export interface VerdictsFile {
+  kind: 'verdicts';
+  product: string;
+  standard: WcagStandard;
+  generatedAt: string;
+  wcag: WcagScResult[];
+  rules: AxeRuleAggregate[];
+}
+
+/** Output of `score` and `review`; scores may be edited by hand before `render` */
+export interface ScoresFile {
+  kind: 'scores';
+  product: string;
+  reportDate: string;
+  generatedAt: string;
+  scores: QuestionScore[];
+}
+
+const scoreSchema = z.object({
+  rowIndex: z.number().int().min(0),
+  tableIndex: z.number().int().min(0),
+  questionText: z.string(),
+  score: z.number().min(0).max(1).nullable(),
+  weight: z.number().min(0),
+  comment: z.string(),
+  automatable: z.boolean(),
+}).passthrough();
+
+export function writeIntermediate(path: string, data: VerdictsFile | ScoresFile): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(data, null, 2) + '\n');
+}
+
+function readIntermediate(path: string, kind: 'verdicts' | 'scores', product: string): Record<string, unknown> {
+  if (!existsSync(path)) {
+    throw new Error(`${kind} file not found at ${path}`);
+  }
+  const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  if (parsed?.kind !== kind) {
+    throw new Error(`${path} is not a ${kind} file`);
+  }
+  if (parsed.product !== product) {
+    throw new Error(`${path} belongs to ${parsed.product}, not ${product}`);
+  }
+  return parsed;
+}
+
+export function buildVerdictsFile(
+  product: string,
+  standard: WcagStandard,
+  wcagResults: Map<string, WcagScResult>,
+  ruleResults: Map<string, AxeRuleAggregate>
+): VerdictsFile {
+  return {
+    kind: 'verdicts',
+    product,
+    standard,
+    generatedAt: new Date().toISOString(),
+    wcag: [...wcagResults.values()],
+    rules: [...ruleResults.values()],
+  };
+}
+
+/** Read a verdicts file back into the maps scoring and reporting take */
+export function readVerdicts(path: string, product: string): {
+  wcagResults: Map<string, WcagScResult>;
+  ruleResults: Map<string, AxeRuleAggregate>;
+} {
+  const file = readIntermediate(path, 'verdicts', product) as unknown as VerdictsFile;
+  return {
+    wcagResults: new Map(file.wcag.map((r) => [r.sc, r])),
+    ruleResults: new Map(file.rules.map((r) => [r.ruleId, r])),
+  };
+}
+
+export function buildScoresFile(product: string, reportDate: string, scores: QuestionScore[]): ScoresFile {
+  return { kind: 'scores', product, reportDate, generatedAt: new Date().toISOString(), scores };
+}
+
+/**
+ * Read a scores file, validating hand edits. Weighted scores are recomputed
+ * so changing `score` alone is enough.
+ */
+export function readScores(path: string, product: string): QuestionScore[] {
+  const file = readIntermediate(path, 'scores', product);
+  return z.array(scoreSchema).parse(file.scores).map((s) => ({
+    ...s,
+    weightedScore: s.score === null ? null : s.weight * s.score,
+  }) as QuestionScore);
+}
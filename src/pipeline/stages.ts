@@ -0,0 +1,576 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import Table from 'cli-table3';
+import { writeFileSync } from 'fs';
+import { resolve, basename, dirname } from 'path';
+import type JSZip from 'jszip';
+import { scanUrls } from '../scanner/axeRunner.js';
+import { loadScanEvidence } from '../scanner/evidence.js';
+import {
+  findResumableRun,
+  loadScanRunResults,
+  recordScannedPage,
+  saveScanRun,
+  scannedPages,
+  scanRunPath,
+  scanSettingsHash,
+} from '../scanner/scanCache.js';
+import { buildRemediationIssues, generateJunitXml, generateRemediationMarkdown, generateSarif, type RemediationIssue } from '../scanner/remediationReport.js';
+import { aggregateResults, aggregateRuleResults, summarizeScanFailures, pageKey } from '../scanner/resultAggregator.js';
+import { applySuppressions, loadSuppressions } from '../scanner/suppressions.js';
+import { loadOwnership } from '../scanner/ownership.js';
+import { scoreQuestions, scoringSummary } from '../mapping/index.js';
+import { buildCarryForwardScores, buildCarryForwardReport, findPreviousProduct, type CarryForwardReport, type CarryForwardResult } from '../mapping/carryForward.js';
+import { buildManualAnswersReport, loadManualAnswers, type ManualAnswersReport } from '../mapping/manualAnswers.js';
+import { parseTemplate } from '../docx/reader.js';
+import { generateDocx } from '../docx/writer.js';
+import { reviewManualQuestions, mergeAiResults } from '../ai/aiReviewer.js';
+import { generateRemediationPlanDocx } from '../remediation/planDocx.js';
+import { generateHtmlReport } from '../remediation/htmlReport.js';
+import { buildTrackerIssues, trackerIssuesToCsv, trackerIssuesToJson } from '../remediation/tracker.js';
+import { syncTrackerIssues } from '../remediation/trackerSync.js';
+import { fixedRemediationIds, loadIssueHistory, saveIssueHistory, updateIssueHistory } from '../remediation/history.js';
+import { generateVpatDocx } from '../docx/vpatWriter.js';
+import type {
+  VpatConfig,
+  ScanResult,
+  ScanRun,
+  DetailedScanResult,
+  Suppression,
+  WaivedFinding,
+  WcagScResult,
+  AxeRuleAggregate,
+  QuestionScore,
+  ParsedProduct,
+  RunComparison,
+} from '../types.js';
+
+export const EXPORT_FORMATS = ['sarif', 'junit', 'tracker'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** CLI flags the stages read */
+export interface StageOptions {
+  verbose?: boolean;
+  concurrency?: number;
+  evidence?: boolean;
+  resume?: boolean;
+  aiConfidence?: number;
+  aiModel?: string;
+  export?: ExportFormat[];
+  syncIssues?: boolean;
+  dryRun?: boolean;
+  ci?: boolean;
+}
+
+/** The template's product section, with what is needed to write it back out */
+export interface TemplateProduct {
+  product: ParsedProduct;
+  zip: JSZip;
+  parsedDoc: any[];
+}
+
+/**
+ * Apply flag overrides to the config and timestamp the output filename so
+ * repeated runs never overwrite. Returns the timestamp and the evidence directory.
+ */
+export function prepareOutputs(config: VpatConfig, options: StageOptions): { timestamp: string; evidenceDir?: string } {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  config.outputPath = config.outputPath.replace(/\.docx$/i, `-${timestamp}.docx`);
+
+  if (options.concurrency) {
+    config.scanOptions.concurrency = options.concurrency;
+  }
+  if (options.evidence) {
+    config.scanOptions.evidence = { ...config.scanOptions.evidence, screenshots: true, elementScreenshots: true, accessibilityTree: true };
+  }
+  const { evidence } = config.scanOptions;
+  const evidenceDir = evidence.screenshots || evidence.elementScreenshots || evidence.accessibilityTree
+    ? resolve(config.outputPath.replace(/\.docx$/i, '-evidence'))
+    : undefined;
+  return { timestamp, evidenceDir };
+}
+
+/**
+ * Scan the config's URLs, caching each page's results as soon as it finishes.
+ * With --resume, pages already cached by the product's last unfinished run
+ * (with the same scan settings) are reused instead of scanned again.
+ */
+export async function scanStage(
+  config: VpatConfig,
+  options: StageOptions,
+  evidenceDir: string | undefined,
+  timestamp: string
+): Promise<DetailedScanResult[]> {
+  const cacheDir = resolve(config.cacheDir ?? resolve(dirname(config.outputPath), 'scan-cache'));
+  const settings = scanSettingsHash(config);
+  const resumable = options.resume ? findResumableRun(cacheDir, config.product, settings) : null;
+  if (resumable) {
+    console.log(chalk.dim(`  Resuming ${basename(resumable.path)}: ${resumable.run.entries.length} page(s) already scanned`));
+  } else if (options.resume) {
+    console.log(chalk.yellow('  No unfinished run with the same scan settings to resume; scanning every page'));
+  }
+  const runPath = resumable?.path ?? scanRunPath(cacheDir, config.product, timestamp);
+  const run: ScanRun = resumable?.run ?? {
+    product: config.product,
+    startedAt: new Date().toISOString(),
+    settings,
+    completed: false,
+    entries: [],
+  };
+  const cached = loadScanRunResults(cacheDir, run);
+  const done = scannedPages(run);
+  saveScanRun(runPath, run);
+
+  const variantCount = config.scanOptions.matrix.browsers.length * config.scanOptions.matrix.viewports.length;
+  const scanSpinner = ora(`Scanning ${config.urls.length} URLs${variantCount > 1 ? ` in ${variantCount} variants` : ''}...`).start();
+  const scanned = await scanUrls(
+    config.urls,
+    {
+      ...config.scanOptions,
+      auth: config.auth,
+      evidenceDir,
+      axeTags: config.axeTags,
+      states: config.states,
+      skip: (url, variant) => done.has(pageKey({ url, variant })),
+      onPageScanned: (results) => recordScannedPage(cacheDir, runPath, run, results),
+    },
+    (url, index, total, variant) => {
+      scanSpinner.text = `Scanning (${index + 1}/${total}): ${url}${variant ? ` [${variant}]` : ''}`;
+    }
+  );
+  run.completed = true;
+  saveScanRun(runPath, run);
+
+  const results = [...cached, ...scanned];
+  const { failed } = summarizeScanFailures(results);
+  const notes = [
+    ...(failed.length > 0 ? [`${failed.length} failed`] : []),
+    ...(cached.length > 0 ? [`${cached.length} from cache`] : []),
+  ];
+  const message = `Scanned ${results.length} URLs${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+  if (failed.length > 0) {
+    scanSpinner.warn(message);
+  } else {
+    scanSpinner.succeed(message);
+  }
+  return results;
+}
+
+/** List pages that failed to scan; returns the reason to stop when too many failed */
+export function checkScanFailures(config: VpatConfig, rawScanResults: DetailedScanResult[]): string | null {
+  const { failed, failureRate } = summarizeScanFailures(rawScanResults);
+  if (failed.length > 0) {
+    printScanErrors(failed);
+  }
+  if (failureRate > config.scanOptions.maxFailureRate) {
+    const message = `${failed.length}/${rawScanResults.length} pages failed to scan (max ${Math.round(config.scanOptions.maxFailureRate * 100)}%)`;
+    console.error(chalk.red(`Stopping: ${message}`));
+    return message;
+  }
+  return null;
+}
+
+/** Apply known-issue waivers before anything is aggregated or reported */
+export function applyWaivers(
+  config: VpatConfig,
+  rawScanResults: DetailedScanResult[]
+): { scanResults: DetailedScanResult[]; waived: WaivedFinding[] } {
+  if (!config.suppressionsPath) {
+    return { scanResults: rawScanResults, waived: [] };
+  }
+  const outcome = applySuppressions(rawScanResults, loadSuppressions(resolve(config.suppressionsPath)));
+  printExpiredSuppressions(outcome.expired);
+  if (outcome.waived.length > 0) {
+    const nodes = outcome.waived.reduce((sum, w) => sum + w.nodes.length, 0);
+    console.log(chalk.dim(`  Waived: ${nodes} element(s) across ${outcome.waived.length} finding(s)`));
+  }
+  return { scanResults: outcome.results, waived: outcome.waived };
+}
+
+export function printScanSummary(scanResults: ScanResult[], evidenceDir?: string): void {
+  const totalViolations = scanResults.reduce((sum, r) => sum + r.violations.length, 0);
+  const totalPasses = scanResults.reduce((sum, r) => sum + r.passes.length, 0);
+  const totalIncomplete = scanResults.reduce((sum, r) => sum + r.incomplete.length, 0);
+  console.log(chalk.dim(`  Violations: ${totalViolations} | Passes: ${totalPasses} | Incomplete: ${totalIncomplete}`));
+  if (evidenceDir) {
+    console.log(chalk.dim(`  Evidence: ${evidenceDir}`));
+  }
+  console.log();
+}
+
+/**
+ * Write the remediation report and any --export files, record the run in the
+ * issue history and sync the tracker. Dry runs and CI runs read the history
+ * but don't record themselves.
+ */
+export async function writeRemediationOutputs(
+  config: VpatConfig,
+  scanResults: DetailedScanResult[],
+  waived: WaivedFinding[],
+  options: StageOptions
+): Promise<{ remediationIssues: RemediationIssue[]; comparison: RunComparison }> {
+  const productName = config.product;
+  const ownership = config.ownershipPath ? loadOwnership(resolve(config.ownershipPath)) : [];
+  const remediationIssues = buildRemediationIssues(scanResults, ownership);
+
+  const historyPath = resolve(config.historyPath ?? resolve(dirname(config.outputPath), `${productName.toLowerCase()}-history.json`));
+  const { history, comparison } = updateIssueHistory(
+    loadIssueHistory(historyPath, productName),
+    remediationIssues,
+    scanResults,
+    new Date().toISOString().slice(0, 10),
+    waived
+  );
+  if (!options.dryRun && !options.ci) {
+    saveIssueHistory(historyPath, history);
+  }
+  if (comparison.previousRun) {
+    const regressed = [...comparison.issues.values()].filter((t) => t.status === 'regressed').length;
+    console.log(chalk.dim(`  Since ${comparison.previousRun}: ${comparison.resolved.length} finding(s) resolved, ${regressed} issue(s) regressed`));
+  }
+
+  const remediationMd = generateRemediationMarkdown(remediationIssues, config.product, config.reportDate, config.standard, waived, comparison);
+  const remediationPath = resolve(config.outputPath.replace(/\.docx$/i, '-remediation.md'));
+  writeFileSync(remediationPath, remediationMd);
+  console.log(chalk.green(`Remediation report saved to ${remediationPath}`));
+  if (options.export?.includes('sarif')) {
+    const sarifPath = resolve(config.outputPath.replace(/\.docx$/i, '-findings.sarif'));
+    writeFileSync(sarifPath, generateSarif(remediationIssues));
+    console.log(chalk.green(`SARIF saved to ${sarifPath}`));
+  }
+  if (options.export?.includes('junit')) {
+    const junitPath = resolve(config.outputPath.replace(/\.docx$/i, '-junit.xml'));
+    writeFileSync(junitPath, generateJunitXml(scanResults, config.product));
+    console.log(chalk.green(`JUnit report saved to ${junitPath}`));
+  }
+  const trackerComponent = config.tracker?.component ?? config.product;
+  if (options.export?.includes('tracker')) {
+    const trackerIssues = buildTrackerIssues(remediationIssues, trackerComponent);
+    const issuesPath = resolve(config.outputPath.replace(/\.docx$/i, '-issues'));
+    writeFileSync(`${issuesPath}.json`, trackerIssuesToJson(trackerIssues));
+    writeFileSync(`${issuesPath}.csv`, trackerIssuesToCsv(trackerIssues));
+    console.log(chalk.green(`Tracker issues saved to ${issuesPath}.json and ${issuesPath}.csv`));
+  }
+  if (options.syncIssues && !options.dryRun && !options.ci) {
+    if (!config.tracker) {
+      throw new Error('--sync-issues needs a "tracker" block in the config');
+    }
+    const syncSpinner = ora(`Syncing issues to ${config.tracker.endpoint}...`).start();
+    const sync = await syncTrackerIssues(
+      buildTrackerIssues(remediationIssues, trackerComponent),
+      config.tracker,
+      trackerComponent,
+      new Date().toISOString().slice(0, 10),
+      fixedRemediationIds(history, comparison)
+    );
+    syncSpinner.succeed(`Tracker: ${sync.created.length} created, ${sync.commented.length} updated, ${sync.reopened.length} reopened, ${sync.closed.length} closed`);
+  }
+  console.log();
+
+  return { remediationIssues, comparison };
+}
+
+export function aggregateStage(
+  scanResults: ScanResult[],
+  verbose: boolean
+): { wcagResults: Map<string, WcagScResult>; ruleResults: Map<string, AxeRuleAggregate> } {
+  const aggSpinner = ora('Aggregating results by WCAG criterion...').start();
+  const wcagResults = aggregateResults(scanResults);
+  const ruleResults = aggregateRuleResults(scanResults);
+  aggSpinner.succeed(`Aggregated results for ${wcagResults.size} WCAG success criteria`);
+
+  if (verbose) {
+    const aggTable = new Table({
+      head: ['WCAG SC', 'Status', 'Violations', 'URLs Affected'],
+      style: { head: ['cyan'] },
+    });
+    for (const [sc, result] of [...wcagResults.entries()].sort()) {
+      const statusColor = result.status === 'pass' ? 'green' : result.status === 'fail' ? 'red' : 'yellow';
+      aggTable.push([
+        sc,
+        chalk[statusColor](result.status),
+        String(result.totalViolations),
+        `${result.urlsWithViolations}/${result.totalUrls}`,
+      ]);
+    }
+    console.log(aggTable.toString());
+    console.log();
+  }
+
+  return { wcagResults, ruleResults };
+}
+
+export async function loadTemplateProduct(config: VpatConfig): Promise<TemplateProduct> {
+  const templateSpinner = ora('Parsing DOCX template...').start();
+  const { products, zip, parsedDoc } = await parseTemplate(resolve(config.templatePath));
+  const product = products[config.productSectionIndex];
+  if (!product) {
+    templateSpinner.fail(`Product section index ${config.productSectionIndex} not found`);
+    throw new Error(`Product section index ${config.productSectionIndex} not found`);
+  }
+  templateSpinner.succeed(`Parsed template: ${product.name}`);
+  return { product, zip, parsedDoc };
+}
+
+/** Score the template's questions, starting from the previous ACR's manual answers when carryForwardPath is set */
+export async function scoreStage(
+  config: VpatConfig,
+  product: ParsedProduct,
+  wcagResults: Map<string, WcagScResult>,
+  ruleResults: Map<string, AxeRuleAggregate>,
+  verbose: boolean
+): Promise<QuestionScore[]> {
+  let carryForward: CarryForwardResult | undefined;
+  if (config.carryForwardPath) {
+    const cfSpinner = ora('Reading previous ACR for carry-forward...').start();
+    const previous = await parseTemplate(resolve(config.carryForwardPath));
+    const previousProduct = findPreviousProduct(previous.products, product, config.productSectionIndex);
+    if (!previousProduct) {
+      cfSpinner.fail(`No matching product section for ${product.name} in ${config.carryForwardPath}`);
+      throw new Error(`No matching product section in ${config.carryForwardPath}`);
+    }
+    carryForward = buildCarryForwardScores(previousProduct, product);
+    cfSpinner.succeed(`Loaded ${carryForward.scores.size} previous answer(s) from ${previousProduct.name}`);
+  }
+
+  const manualAnswers = config.manualAnswersPath ? loadManualAnswers(resolve(config.manualAnswersPath)) : undefined;
+
+  const scoreSpinner = ora('Scoring questions...').start();
+  const scores = scoreQuestions(product, wcagResults, {
+    carryForwardScores: carryForward?.scores,
+    ruleResults,
+    standard: config.standard,
+    scoring: config.scoring,
+    manualAnswers,
+  });
+  scoreSpinner.succeed('Questions scored');
+
+  if (carryForward) {
+    printCarryForwardReport(buildCarryForwardReport(carryForward, scores), verbose);
+  }
+  if (manualAnswers) {
+    printManualAnswersReport(buildManualAnswersReport(manualAnswers, scores));
+  }
+  return scores;
+}
+
+/** Score manual-review questions with AI; updates `scores` in place */
+export async function reviewStage(
+  config: VpatConfig,
+  scores: QuestionScore[],
+  wcagResults: Map<string, WcagScResult>,
+  scanResults: DetailedScanResult[],
+  options: StageOptions
+): Promise<void> {
+  const aiSpinner = ora('AI reviewing manual questions...').start();
+  const aiResults = await reviewManualQuestions(
+    scores,
+    wcagResults,
+    scanResults,
+    loadScanEvidence(scanResults),
+    {
+      confidenceThreshold: options.aiConfidence ?? 0.7,
+      model: options.aiModel ?? 'claude-sonnet-4-20250514',
+      standard: config.standard,
+    },
+    (completed, total) => {
+      aiSpinner.text = `AI reviewing manual questions (${completed}/${total} batches)...`;
+    }
+  );
+
+  const threshold = options.aiConfidence ?? 0.7;
+  const { scored, belowThreshold } = mergeAiResults(scores, aiResults, threshold);
+  aiSpinner.succeed(`AI reviewed ${aiResults.length} questions (${scored} scored, ${belowThreshold} need manual review)`);
+  console.log();
+}
+
+export function printScoreSummary(scores: QuestionScore[], verbose: boolean): void {
+  const summary = scoringSummary(scores);
+  const summaryTable = new Table({
+    style: { head: ['cyan'] },
+  });
+  summaryTable.push(
+    { 'Total Questions': String(summary.total) },
+    { 'Automated': chalk.blue(String(summary.automated)) },
+    { 'Manual Review': chalk.yellow(String(summary.manual)) },
+    { 'Passing': chalk.green(String(summary.passing)) },
+    { 'Partially Supports': chalk.cyan(String(summary.partial)) },
+    { 'Failing': chalk.red(String(summary.failing)) },
+    { 'N/A': chalk.dim(String(summary.na)) },
+  );
+  console.log(summaryTable.toString());
+  console.log();
+
+  if (verbose) {
+    const detailTable = new Table({
+      head: ['Question', 'Weight', 'Score', 'Auto', 'Comment'],
+      style: { head: ['cyan'] },
+      colWidths: [40, 8, 7, 6, 50],
+      wordWrap: true,
+    });
+    for (const s of scores) {
+      const scoreStr = s.score === null ? '*' : String(s.score);
+      const scoreColor = s.score === 1 ? 'green' : s.score === 0 ? 'red' : s.score === null ? 'dim' : 'cyan';
+      detailTable.push([
+        s.questionText.substring(0, 38),
+        String(s.weight),
+        chalk[scoreColor](scoreStr),
+        s.automatable ? 'Y' : 'N',
+        s.comment.substring(0, 48),
+      ]);
+    }
+    console.log(detailTable.toString());
+    console.log();
+  }
+}
+
+/** Write the filled ACR, plus the VPAT 2.5 edition when the config asks for one */
+export async function renderStage(
+  config: VpatConfig,
+  template: TemplateProduct,
+  scores: QuestionScore[],
+  wcagResults: Map<string, WcagScResult>
+): Promise<void> {
+  const docxSpinner = ora('Generating output document...').start();
+  const outputPath = resolve(config.outputPath);
+  await generateDocx(template.zip, template.parsedDoc, template.product, scores, config.reportDate, outputPath);
+  docxSpinner.succeed(`Output saved to ${outputPath}`);
+
+  if (config.vpatEdition) {
+    const vpatSpinner = ora(`Generating VPAT 2.5 (${config.vpatEdition} edition)...`).start();
+    const vpatPath = resolve(config.outputPath.replace(/\.docx$/i, `-VPAT-${config.vpatEdition}.docx`));
+    await generateVpatDocx({
+      product: config.product,
+      reportDate: config.reportDate,
+      edition: config.vpatEdition,
+      standard: config.standard,
+      scores,
+      wcagResults,
+    }, vpatPath);
+    vpatSpinner.succeed(`VPAT saved to ${vpatPath}`);
+  }
+}
+
+/** Write the HTML report (when scores are available) and the remediation plan DOCX */
+export async function writeReportDocuments(
+  config: VpatConfig,
+  remediationIssues: RemediationIssue[],
+  scanResults: DetailedScanResult[],
+  waived: WaivedFinding[],
+  comparison: RunComparison,
+  scored?: { scores: QuestionScore[]; wcagResults: Map<string, WcagScResult> }
+): Promise<void> {
+  // Single-file HTML report for sharing outside Word
+  if (scored) {
+    const htmlPath = resolve(config.outputPath.replace(/\.docx$/i, '-report.html'));
+    writeFileSync(htmlPath, generateHtmlReport({
+      product: config.product,
+      reportDate: config.reportDate,
+      standard: config.standard,
+      issues: remediationIssues,
+      wcagResults: scored.wcagResults,
+      scores: scored.scores,
+      scanResults,
+    }));
+    console.log(chalk.green(`HTML report saved to ${htmlPath}`));
+  }
+
+  const planSpinner = ora('Generating remediation plan DOCX...').start();
+  const planPath = resolve(config.outputPath.replace(/\.docx$/i, '-remediation-plan.docx'));
+  await generateRemediationPlanDocx(remediationIssues, config, planPath, waived, comparison);
+  planSpinner.succeed(`Remediation plan saved to ${planPath}`);
+}
+
+export function printRemainingManual(scores: QuestionScore[]): void {
+  console.log();
+  const remainingManual = scores.filter(s => s.score === null).length;
+  if (remainingManual > 0) {
+    console.log(chalk.green(`Done! ${remainingManual} question(s) still need manual review (marked with *).`));
+  } else {
+    console.log(chalk.green('Done! All questions have been scored.'));
+  }
+}
+
+export function printScanErrors(failed: ScanResult[]): void {
+  const errorTable = new Table({
+    head: ['Failed URL', 'Status', 'Detail'],
+    style: { head: ['cyan'] },
+    colWidths: [50, 18, 40],
+    wordWrap: true,
+  });
+  for (const r of failed) {
+    errorTable.push([
+      pageKey(r),
+      chalk.red(r.status === 'http-error' ? `http-error (${r.httpStatus})` : r.status === 'auth-redirect' ? 'login redirect' : r.status),
+      (r.error ?? '').substring(0, 120),
+    ]);
+  }
+  console.log(errorTable.toString());
+}
+
+function printExpiredSuppressions(expired: Suppression[]): void {
+  for (const s of expired) {
+    const scope = [s.ruleId, s.urlPattern, s.selector].filter(Boolean).join(' / ');
+    console.warn(chalk.yellow(`  Warning: suppression for ${scope} (owner ${s.owner}) expired on ${s.expires} and no longer applies`));
+  }
+}
+
+function printCarryForwardReport(report: CarryForwardReport, verbose: boolean): void {
+  console.log(chalk.dim(`  Carried forward: ${report.carried.length} | Dropped: ${report.dropped.length}`));
+
+  if (report.carried.length > 0) {
+    const carriedTable = new Table({
+      head: ['Carried Forward', 'Score', 'Note'],
+      style: { head: ['cyan'] },
+      colWidths: [60, 7, 30],
+      wordWrap: true,
+    });
+    for (const c of report.carried) {
+      carriedTable.push([
+        c.questionText.substring(0, 58),
+        String(c.score),
+        c.movedFrom ? `Moved from ${c.movedFrom}` : '',
+      ]);
+    }
+    console.log(carriedTable.toString());
+  }
+
+  if (report.dropped.length > 0) {
+    const droppedTable = new Table({
+      head: verbose ? ['Dropped', 'Prev', 'Reason'] : ['Dropped Reason', 'Count'],
+      style: { head: ['cyan'] },
+      ...(verbose ? { colWidths: [60, 6, 34], wordWrap: true } : {}),
+    });
+    if (verbose) {
+      for (const d of report.dropped) {
+        droppedTable.push([d.questionText.substring(0, 58), d.previousScore, d.reason]);
+      }
+    } else {
+      const byReason = new Map<string, number>();
+      for (const d of report.dropped) {
+        byReason.set(d.reason, (byReason.get(d.reason) ?? 0) + 1);
+      }
+      for (const [reason, count] of byReason) {
+        droppedTable.push([reason, String(count)]);
+      }
+    }
+    console.log(droppedTable.toString());
+  }
+  console.log();
+}
+
+function printManualAnswersReport(report: ManualAnswersReport): void {
+  console.log(chalk.dim(
+    `  Manual answers: ${report.applied.length} applied | ${report.stale.length} stale | ${report.unknown.length} unknown`
+  ));
+  for (const s of report.stale) {
+    const answer = s.staleAnswer!;
+    console.log(chalk.yellow(
+      `  Stale: ${s.questionId} answered by ${answer.reviewer} on ${answer.reviewedOn}, expired ${answer.validUntil}`
+    ));
+  }
+  for (const id of report.unknown) {
+    console.log(chalk.yellow(`  Unknown question ID: ${id}`));
+  }
+  console.log();
+}
@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type {
+  IssueHistory,
+  IssueHistoryEntry,
+  IssueStatus,
+  IssueTracking,
+  RunComparison,
+  ScanResult,
+  WaivedFinding,
+} from '../types.js';
+import type { RemediationIssue } from '../scanner/remediationReport.js';
+import { urlTemplate } from '../scanner/urlPatterns.js';
+import { pageKey } from '../scanner/resultAggregator.js';
+
+/** Load a product's issue history, or start an empty one */
+export function loadIssueHistory(path: string, product: string): IssueHistory {
+  if (!existsSync(path)) {
+    return { product, runs: [], entries: [] };
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as IssueHistory;
+}
+
+export function saveIssueHistory(path: string, history: IssueHistory): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(history, null, 2) + '\n');
+}
+
+/**
+ * Normalize a node selector so the same element matches across runs:
+ * positional indexes and generated numeric ids shift between deploys.
+ */
+export function normalizeSelector(target: string[]): string {
+  return target
+    .join(' > ')
+    .replace(/:nth-(child|of-type|last-child|last-of-type)\(\d+\)/g, ':nth-$1(n)')
+    .replace(/\d{3,}/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Stable remediation item ID derived from the rule, e.g. REM-3F9A0C; unlike list positions it survives reordering */
+export function remediationId(ruleId: string): string {
+  return `REM-${createHash('sha1').update(ruleId).digest('hex').slice(0, 6).toUpperCase()}`;
+}
+
+export function issueFingerprint(ruleId: string, selector: string, template: string): string {
+  return createHash('sha1').update(`${ruleId}\n${selector}\n${template}`).digest('hex').slice(0, 16);
+}
+
+/** Template plus variant and state, e.g. "/:id/d (webkit/mobile) [menu-open]"; just the template for a page as loaded */
+function templateKey(page: { url: string; variant?: string; state?: string }): string {
+  return pageKey({ url: urlTemplate(page.url), variant: page.variant, state: page.state });
+}
+
+/**
+ * Record this run's findings in the history and compare against the previous run.
+ * Findings are only marked resolved when their page template was scanned successfully
+ * in the same variant and state, so a page or state that failed doesn't count as fixed.
+ * Waived findings were filtered out of the results but not fixed: their entries stay open.
+ */
+export function updateIssueHistory(
+  history: IssueHistory,
+  issues: RemediationIssue[],
+  scanResults: ScanResult[],
+  runDate: string,
+  waived: WaivedFinding[] = []
+): { history: IssueHistory; comparison: RunComparison } {
+  const previous = new Map(history.entries.map((e) => [e.fingerprint, e]));
+  const current = new Map<string, IssueHistoryEntry>();
+  const statusesByRule = new Map<string, { statuses: IssueStatus[]; firstSeen: string }>();
+
+  for (const issue of issues) {
+    for (const occurrence of issue.occurrences) {
+      const template = urlTemplate(occurrence.url);
+      for (const node of occurrence.nodes) {
+        const selector = normalizeSelector(node.target);
+        const fingerprint = issueFingerprint(issue.ruleId, selector, templateKey(occurrence));
+        if (current.has(fingerprint)) continue;
+
+        const earlier = previous.get(fingerprint);
+        const status: IssueStatus = !earlier ? 'new' : earlier.status === 'resolved' ? 'regressed' : 'open';
+        const entry: IssueHistoryEntry = {
+          fingerprint,
+          ruleId: issue.ruleId,
+          selector,
+          urlTemplate: template,
+          ...(occurrence.variant ? { variant: occurrence.variant } : {}),
+          ...(occurrence.state ? { state: occurrence.state } : {}),
+          help: issue.help,
+          impact: issue.impact,
+          status,
+          firstSeen: earlier?.firstSeen ?? runDate,
+          lastSeen: runDate,
+        };
+        current.set(fingerprint, entry);
+
+        const rule = statusesByRule.get(issue.ruleId) ?? { statuses: [], firstSeen: entry.firstSeen };
+        rule.statuses.push(status);
+        if (entry.firstSeen < rule.firstSeen) rule.firstSeen = entry.firstSeen;
+        statusesByRule.set(issue.ruleId, rule);
+      }
+    }
+  }
+
+  const scannedTemplates = new Set(scanResults.filter((r) => r.status === 'ok').map(templateKey));
+  const waivedFingerprints = new Set(waived.flatMap((w) =>
+    w.nodes.map((node) => issueFingerprint(w.ruleId, normalizeSelector(node.target), templateKey(w)))
+  ));
+  const resolved: IssueHistoryEntry[] = [];
+  const carried: IssueHistoryEntry[] = [];
+  for (const entry of history.entries) {
+    if (current.has(entry.fingerprint)) continue;
+    if (entry.status !== 'resolved' && !waivedFingerprints.has(entry.fingerprint) && scannedTemplates.has(pageKey({ ...entry, url: entry.urlTemplate }))) {
+      const fixed = { ...entry, status: 'resolved' as const, resolvedOn: runDate };
+      resolved.push(fixed);
+      carried.push(fixed);
+    } else {
+      carried.push(entry);
+    }
+  }
+
+  const tracking = new Map<string, IssueTracking>();
+  for (const [ruleId, { statuses, firstSeen }] of statusesByRule) {
+    const status = statuses.includes('regressed') ? 'regressed' : statuses.every((s) => s === 'new') ? 'new' : 'open';
+    tracking.set(ruleId, { status, firstSeen });
+  }
+
+  const runs = history.runs.filter((r) => r !== runDate);
+  return {
+    history: { product: history.product, runs: [...runs, runDate], entries: [...current.values(), ...carried] },
+    comparison: { previousRun: runs.at(-1) ?? null, issues: tracking, resolved },
+  };
+}
+
+/**
+ * Remediation IDs of rules fixed this run: a finding was resolved on a page scanned
+ * successfully, and no finding of the rule is left open anywhere in the history.
+ */
+export function fixedRemediationIds(history: IssueHistory, comparison: RunComparison): Set<string> {
+  const outstanding = new Set(history.entries.filter((e) => e.status !== 'resolved').map((e) => e.ruleId));
+  return new Set(comparison.resolved.filter((e) => !outstanding.has(e.ruleId)).map((e) => remediationId(e.ruleId)));
+}
+
+/** Short label for reports, e.g. "New" or "Open since 2026-01-15" */
+export function trackingLabel(tracking: IssueTracking): string {
+  switch (tracking.status) {
+    case 'new': return 'New';
+    case 'regressed': return `Regressed (first seen ${tracking.firstSeen})`;
+    default: return `Open since ${tracking.firstSeen}`;
+  }
+}
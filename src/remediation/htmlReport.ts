@@ -0,0 +1,307 @@
+import { readFileSync, existsSync } from 'fs';
+import type { DetailedScanResult, QuestionScore, WcagScResult, WcagStandard } from '../types.js';
+import type { RemediationIssue } from '../scanner/remediationReport.js';
+import { wcagScFromTag } from '../scanner/remediationReport.js';
+import { pageKey } from '../scanner/resultAggregator.js';
+import { standardLabel } from '../mapping/wcagStandard.js';
+
+export interface HtmlReportInput {
+  product: string;
+  reportDate: string;
+  standard: WcagStandard;
+  issues: RemediationIssue[];
+  wcagResults: Map<string, WcagScResult>;
+  scores: QuestionScore[];
+  /** Every scanned page, so clean and failed pages show up in the drill-down */
+  scanResults: DetailedScanResult[];
+}
+
+const IMPACTS = ['critical', 'serious', 'moderate', 'minor'] as const;
+
+function esc(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Inline a PNG as a data URI so the report needs no external files */
+function imageDataUri(path: string | undefined): string | null {
+  if (!path || !existsSync(path)) return null;
+  return `data:image/png;base64,${readFileSync(path).toString('base64')}`;
+}
+
+function issueScs(issue: RemediationIssue): string[] {
+  return issue.wcagTags.map(wcagScFromTag).filter((sc): sc is string => sc !== null);
+}
+
+function options(label: string, id: string, values: string[], format: (v: string) => string = (v) => v): string {
+  return `<label>${label}
+      <select id="${id}" data-filter="${id.replace('filter-', '')}">
+        <option value="">All</option>
+        ${values.map((v) => `<option value="${esc(v)}">${esc(format(v))}</option>`).join('\n        ')}
+      </select>
+    </label>`;
+}
+
+function sortableHeader(labels: string[]): string {
+  return `<tr>${labels.map((l) => `<th scope="col" aria-sort="none"><button type="button" class="sort">${esc(l)}</button></th>`).join('')}</tr>`;
+}
+
+function scoreLabel(score: QuestionScore): string {
+  if (score.score === null) return score.outOfScope ? 'Out of scope' : 'Needs review';
+  if (score.score === 1) return 'Supports';
+  if (score.score === 0) return 'Does Not Support';
+  return 'Partially Supports';
+}
+
+function issuesSection(issues: RemediationIssue[], pageIds: Map<string, string>): string {
+  const rows = issues.map((issue) => {
+    const scs = issueScs(issue);
+    const pages = [...new Set(issue.occurrences.map(pageKey))];
+    const urls = new Set(issue.occurrences.map((o) => o.url));
+    return `<tr data-impact="${issue.impact}" data-sc="${scs.join(' ')}" data-rule="${esc(issue.ruleId)}" data-page="${pages.map((p) => pageIds.get(p)).join(' ')}">
+        <td><a href="#issue-${esc(issue.ruleId)}">${esc(issue.ruleId)}</a></td>
+        <td>${esc(issue.help)}</td>
+        <td data-sort="${IMPACTS.indexOf(issue.impact)}"><span class="impact ${issue.impact}">${issue.impact}</span></td>
+        <td>${scs.length > 0 ? scs.join(', ') : 'best-practice'}</td>
+        <td>${urls.size}</td>
+        <td>${issue.totalNodes}</td>
+      </tr>`;
+  });
+
+  const details = issues.map((issue) => {
+    const scs = issueScs(issue);
+    const occurrences = issue.occurrences.map((o) => `<section data-page="${pageIds.get(pageKey(o))}">
+          <h4>${esc(pageKey(o))}</h4>
+          <table>
+            <thead><tr><th scope="col">Selector</th><th scope="col">HTML</th><th scope="col">Fix</th></tr></thead>
+            <tbody>
+              ${o.nodes.map((n) => {
+                const shot = imageDataUri(n.screenshotPath);
+                return `<tr><td><code>${esc(n.target.join(' > '))}</code>${shot ? `<br><img src="${shot}" alt="Screenshot of ${esc(n.target.join(' > '))}">` : ''}</td><td><code>${esc(n.html)}</code></td><td>${esc(n.failureSummary)}</td></tr>`;
+              }).join('\n              ')}
+            </tbody>
+          </table>
+        </section>`).join('\n        ');
+    return `<details id="issue-${esc(issue.ruleId)}" data-impact="${issue.impact}" data-sc="${scs.join(' ')}" data-rule="${esc(issue.ruleId)}" data-page="${issue.occurrences.map((o) => pageIds.get(pageKey(o))).join(' ')}">
+        <summary><strong>${esc(issue.ruleId)}</strong> — ${esc(issue.help)} <span class="impact ${issue.impact}">${issue.impact}</span> (${issue.totalNodes} elements)</summary>
+        <p>${esc(issue.description)} <a href="${esc(issue.helpUrl)}">How to fix</a></p>
+        ${occurrences}
+      </details>`;
+  });
+
+  return `<section aria-labelledby="issues-heading">
+    <h2 id="issues-heading">Issues</h2>
+    ${issues.length === 0 ? '<p>No violations found.</p>' : `<table class="sortable">
+      <caption>Issues by rule (<span class="count"></span> shown)</caption>
+      <thead>${sortableHeader(['Rule', 'Summary', 'Impact', 'WCAG SC', 'Pages', 'Elements'])}</thead>
+      <tbody>
+      ${rows.join('\n      ')}
+      </tbody>
+    </table>
+    ${details.join('\n    ')}`}
+  </section>`;
+}
+
+function criteriaSection(wcagResults: Map<string, WcagScResult>): string {
+  const rows = [...wcagResults.values()].map((r) => `<tr data-sc="${r.sc}">
+        <td data-sort="${r.sc.split('.').map((n) => n.padStart(2, '0')).join('.')}">${r.sc}</td>
+        <td><span class="status ${r.status}">${r.status}</span></td>
+        <td>${r.totalViolations}</td>
+        <td data-sort="${r.urlsWithViolations}">${r.urlsWithViolations} / ${r.totalUrls}</td>
+        <td>${esc(r.topIssues.join('; '))}</td>
+      </tr>`);
+
+  return `<section aria-labelledby="criteria-heading">
+    <h2 id="criteria-heading">WCAG Success Criteria</h2>
+    <table class="sortable">
+      <caption>Automated results by success criterion (<span class="count"></span> shown)</caption>
+      <thead>${sortableHeader(['Criterion', 'Status', 'Violations', 'Pages affected', 'Top issues'])}</thead>
+      <tbody>
+      ${rows.join('\n      ')}
+      </tbody>
+    </table>
+  </section>`;
+}
+
+function pagesSection(input: HtmlReportInput, pageIds: Map<string, string>): string {
+  const pages = input.scanResults.map((result) => {
+    const key = pageKey(result);
+    const id = pageIds.get(key)!;
+    const issues = input.issues.filter((i) => i.occurrences.some((o) => pageKey(o) === key));
+    const shot = imageDataUri(result.evidence?.screenshotPath);
+    const status = result.status === 'ok'
+      ? `${issues.length} issue(s)`
+      : `Not scanned: ${result.status}${result.error ? ` — ${esc(result.error)}` : ''}`;
+    const list = issues.map((issue) => {
+      const nodes = issue.occurrences.filter((o) => pageKey(o) === key).flatMap((o) => o.nodes);
+      return `<li data-impact="${issue.impact}" data-sc="${issueScs(issue).join(' ')}" data-rule="${esc(issue.ruleId)}"><a href="#issue-${esc(issue.ruleId)}">${esc(issue.ruleId)}</a> <span class="impact ${issue.impact}">${issue.impact}</span> — ${nodes.length} element(s): ${nodes.slice(0, 5).map((n) => `<code>${esc(n.target.join(' > '))}</code>`).join(', ')}</li>`;
+    });
+    return `<details data-page="${id}" data-rule="${issues.map((i) => esc(i.ruleId)).join(' ')}">
+        <summary>${esc(key)} — ${status}</summary>
+        ${list.length > 0 ? `<ul>\n          ${list.join('\n          ')}\n        </ul>` : ''}
+        ${shot ? `<img class="page-shot" src="${shot}" alt="Screenshot of ${esc(result.url)}">` : ''}
+      </details>`;
+  });
+
+  return `<section aria-labelledby="pages-heading">
+    <h2 id="pages-heading">Pages</h2>
+    ${pages.join('\n    ')}
+  </section>`;
+}
+
+function scorecardSection(scores: QuestionScore[]): string {
+  const rows = scores.map((s) => `<tr data-sc="${(s.wcagScs ?? []).join(' ')}">
+        <td>${esc(s.questionText)}</td>
+        <td>${(s.wcagScs ?? []).join(', ')}</td>
+        <td>${s.weight}</td>
+        <td data-sort="${s.score ?? -1}">${s.score ?? '*'}</td>
+        <td>${scoreLabel(s)}</td>
+        <td>${s.source ?? ''}</td>
+        <td>${esc(s.comment)}</td>
+      </tr>`);
+
+  return `<section aria-labelledby="scorecard-heading">
+    <h2 id="scorecard-heading">Question Scorecard</h2>
+    <table class="sortable">
+      <caption>Template questions (<span class="count"></span> shown)</caption>
+      <thead>${sortableHeader(['Question', 'WCAG SC', 'Weight', 'Score', 'Conformance', 'Source', 'Comment'])}</thead>
+      <tbody>
+      ${rows.join('\n      ')}
+      </tbody>
+    </table>
+  </section>`;
+}
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; color: #333; margin: 2rem auto; max-width: 75rem; padding: 0 1rem; line-height: 1.45; }
+  h1, h2 { color: #1f4e79; }
+  table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1.5rem; font-size: 0.9rem; }
+  caption { text-align: left; font-weight: 600; padding: 0.25rem 0; }
+  th, td { border: 1px solid #bfbfbf; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #1f4e79; color: #fff; }
+  tbody tr:nth-child(odd) { background: #f2f6fa; }
+  button.sort { all: inherit; cursor: pointer; border: 0; padding: 0; }
+  button.sort:focus-visible { outline: 2px solid #fff; outline-offset: 2px; }
+  th[aria-sort="ascending"] button::after { content: " ▲"; }
+  th[aria-sort="descending"] button::after { content: " ▼"; }
+  details { border: 1px solid #d6e4f0; border-radius: 4px; margin: 0.5rem 0; padding: 0.25rem 0.75rem; }
+  summary { cursor: pointer; padding: 0.25rem 0; }
+  code { font-size: 0.85em; word-break: break-all; }
+  img { max-width: 100%; border: 1px solid #bfbfbf; margin-top: 0.25rem; }
+  img.page-shot { max-height: 30rem; }
+  .filters { display: flex; flex-wrap: wrap; gap: 1rem; padding: 0.75rem; background: #d6e4f0; border-radius: 4px; position: sticky; top: 0; }
+  .filters label { display: flex; flex-direction: column; font-weight: 600; font-size: 0.85rem; }
+  .impact, .status { font-weight: 700; }
+  .critical, .fail { color: #c00000; }
+  .serious { color: #9c5700; }
+  .moderate, .incomplete { color: #7a6000; }
+  .minor, .pass { color: #3b6d22; }
+  .summary-list { display: flex; flex-wrap: wrap; gap: 1.5rem; list-style: none; padding: 0; }
+  [hidden] { display: none !important; }
+`;
+
+/** Filters hide any element whose data-* attribute lacks the chosen value; headers sort their table */
+const SCRIPT = `
+(function () {
+  var selects = document.querySelectorAll('select[data-filter]');
+  function matches(el, key, value) {
+    var attr = el.getAttribute('data-' + key);
+    return !value || attr === null || attr.split(' ').indexOf(value) !== -1;
+  }
+  function apply() {
+    var active = [];
+    selects.forEach(function (s) { active.push([s.getAttribute('data-filter'), s.value]); });
+    document.querySelectorAll('main [data-impact], main [data-sc], main [data-rule], main [data-page]').forEach(function (el) {
+      el.hidden = !active.every(function (f) { return matches(el, f[0], f[1]); });
+    });
+    document.querySelectorAll('table.sortable').forEach(function (table) {
+      var count = table.querySelector('.count');
+      if (count) count.textContent = table.querySelectorAll('tbody tr:not([hidden])').length;
+    });
+  }
+  selects.forEach(function (s) { s.addEventListener('change', apply); });
+
+  document.querySelectorAll('table.sortable th button.sort').forEach(function (button) {
+    button.addEventListener('click', function () {
+      var th = button.parentElement;
+      var table = th.closest('table');
+      var index = Array.prototype.indexOf.call(th.parentElement.children, th);
+      var ascending = th.getAttribute('aria-sort') !== 'ascending';
+      table.querySelectorAll('th').forEach(function (h) { h.setAttribute('aria-sort', 'none'); });
+      th.setAttribute('aria-sort', ascending ? 'ascending' : 'descending');
+      var key = function (row) {
+        var cell = row.children[index];
+        var value = cell.getAttribute('data-sort') || cell.textContent.trim();
+        var number = parseFloat(value);
+        return isNaN(number) || String(number) !== value.replace(/\\.0+$/, '') ? value.toLowerCase() : number;
+      };
+      var body = table.tBodies[0];
+      Array.prototype.slice.call(body.rows)
+        .sort(function (a, b) {
+          var x = key(a), y = key(b);
+          var order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+          return ascending ? order : -order;
+        })
+        .forEach(function (row) { body.appendChild(row); });
+    });
+  });
+  apply();
+})();
+`;
+
+/**
+ * Single-file HTML report: no server and no external assets, screenshots inlined.
+ * Pages are keyed by URL, variant and state, so each can be filtered on its own.
+ */
+export function generateHtmlReport(input: HtmlReportInput): string {
+  const pageIds = new Map(input.scanResults.map((r, i) => [pageKey(r), `p${i + 1}`]));
+  for (const issue of input.issues) {
+    for (const o of issue.occurrences) {
+      if (!pageIds.has(pageKey(o))) pageIds.set(pageKey(o), `p${pageIds.size + 1}`);
+    }
+  }
+
+  const scs = [...new Set([...input.wcagResults.keys(), ...input.issues.flatMap(issueScs)])]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const rules = [...new Set(input.issues.map((i) => i.ruleId))].sort();
+  const byImpact = IMPACTS.map((impact) => `<li><span class="impact ${impact}">${impact}</span>: ${input.issues.filter((i) => i.impact === impact).length} rule(s)</li>`);
+  const scored = input.scores.filter((s) => s.score !== null);
+  const passing = scored.filter((s) => s.score === 1).length;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(input.product)} Accessibility Report — ${esc(input.reportDate)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>${esc(input.product)} Accessibility Report</h1>
+  <p><strong>Date:</strong> ${esc(input.reportDate)} · <strong>Standard:</strong> ${esc(standardLabel(input.standard))} · <strong>Pages scanned:</strong> ${input.scanResults.length}</p>
+  <ul class="summary-list">
+    ${byImpact.join('\n    ')}
+    <li>Questions passing: ${passing} of ${scored.length} scored</li>
+  </ul>
+</header>
+<form class="filters" aria-label="Filter report" onsubmit="return false">
+    ${options('Impact', 'filter-impact', [...IMPACTS])}
+    ${options('WCAG SC', 'filter-sc', scs)}
+    ${options('Page', 'filter-page', [...pageIds.keys()].map((url) => pageIds.get(url)!), (id) => [...pageIds].find(([, v]) => v === id)![0])}
+    ${options('Rule', 'filter-rule', rules)}
+</form>
+<main>
+  ${issuesSection(input.issues, pageIds)}
+  ${criteriaSection(input.wcagResults)}
+  ${pagesSection(input, pageIds)}
+  ${scorecardSection(input.scores)}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -12,10 +12,17 @@ import {
   BorderStyle,
   ShadingType,
   TableLayoutType,
+  ImageRun,
   convertInchesToTwip,
 } from 'docx';
-import { writeFileSync, mkdirSync } from 'fs';
+import { writeFileSync, mkdirSync, readFileSync, existsSync } from 'fs';
 import { dirname } from 'path';
+import { pngDimensions } from '../scanner/evidence.js';
+import { standardLabel } from '../mapping/wcagStandard.js';
+import { remediationId, trackingLabel } from './history.js';
+import { groupIssuesByOwner, ownerLabel } from '../scanner/ownership.js';
+import { distinctElements } from '../scanner/remediationReport.js';
+import type { WcagStandard, WaivedFinding, RunComparison, ComponentOwner } from '../types.js';
 
 // Colors
 const BLUE = '1F4E79';
@@ -33,8 +40,17 @@ interface RemediationIssue {
   wcagTags: string[];
   help: string;
   helpUrl: string;
-  occurrences: { url: string; nodes: { target: string[]; html: string; failureSummary: string }[] }[];
+  occurrences: {
+    url: string;
+    nodes: { target: string[]; html: string; failureSummary: string; screenshotPath?: string }[];
+    owner?: ComponentOwner | null;
+    variant?: string;
+    state?: string;
+  }[];
   totalNodes: number;
+  variants?: string[];
+  variantScope?: string;
+  states?: string[];
 }
 
 // Helpers
@@ -140,6 +156,25 @@ function severityTag(severity: string): TextRun {
   return new TextRun({ text: severity, bold: true, font: 'Aptos', size: 20, color });
 }
 
+/** Element screenshot scaled to fit the text column, or null if it can't be read */
+function screenshotParagraph(path: string): Paragraph | null {
+  if (!existsSync(path)) return null;
+  const data = readFileSync(path);
+  const size = pngDimensions(data);
+  if (!size || size.width === 0 || size.height === 0) return null;
+
+  const scale = Math.min(1, 480 / size.width, 240 / size.height);
+  return new Paragraph({
+    spacing: { before: 40, after: 80 },
+    indent: { left: convertInchesToTwip(0.5) },
+    children: [new ImageRun({
+      type: 'png',
+      data,
+      transformation: { width: Math.round(size.width * scale), height: Math.round(size.height * scale) },
+    })],
+  });
+}
+
 function spacer(): Paragraph {
   return new Paragraph({ spacing: { before: 80, after: 80 }, children: [] });
 }
@@ -157,12 +192,15 @@ function wcagScFromTag(tag: string): string | null {
 /** Generate a remediation plan DOCX from scan issues */
 export async function generateRemediationPlanDocx(
   issues: RemediationIssue[],
-  config: { product: string; reportDate: string },
-  outputPath: string
+  config: { product: string; reportDate: string; standard: WcagStandard },
+  outputPath: string,
+  waived: WaivedFinding[] = [],
+  comparison?: RunComparison
 ): Promise<void> {
   const today = new Date();
   const dateStr = today.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
   const totalOccurrences = issues.reduce((sum, i) => sum + i.totalNodes, 0);
+  const totalDistinct = issues.reduce((sum, i) => sum + distinctElements(i.occurrences).length, 0);
   const totalPages = new Set(issues.flatMap(i => i.occurrences.map(o => o.url))).size;
 
   const children: any[] = [];
@@ -186,17 +224,25 @@ export async function generateRemediationPlanDocx(
     ['Product', [normal(config.product)]],
     ['Prepared by', [normal('ClearGov')]],
     ['Date', [normal(dateStr)]],
-    ['Conformance Standard', [normal('WCAG 2.1 Level AA')]],
+    ['Conformance Standard', [normal(standardLabel(config.standard))]],
   ]));
 
   // Executive Summary
   children.push(heading('Executive Summary', HeadingLevel.HEADING_2));
   children.push(bodyText([
-    normal(`An automated accessibility assessment of ${config.product} identified ${issues.length} distinct accessibility rules with a total of ${totalOccurrences} occurrences across ${totalPages} pages.`),
+    normal(`An automated accessibility assessment of ${config.product} identified ${issues.length} distinct accessibility rules with a total of ${totalOccurrences} occurrences (${totalDistinct} distinct elements) across ${totalPages} pages.`),
   ]));
 
+  if (comparison?.previousRun) {
+    const statuses = [...comparison.issues.values()].map(t => t.status);
+    const count = (status: string) => statuses.filter(s => s === status).length;
+    children.push(bodyText([
+      normal(`Compared with the previous run on ${comparison.previousRun}: ${count('new')} new, ${count('open')} still open and ${count('regressed')} regressed issues; ${comparison.resolved.length} findings have been resolved.`),
+    ]));
+  }
+
   if (issues.length === 0) {
-    children.push(bodyText([normal('No accessibility violations were found. The product appears to conform to WCAG 2.1 Level AA based on automated testing.')]));
+    children.push(bodyText([normal(`No accessibility violations were found. The product appears to conform to ${standardLabel(config.standard)} based on automated testing.`)]));
   }
 
   // Findings Summary Table
@@ -204,7 +250,7 @@ export async function generateRemediationPlanDocx(
     children.push(heading('Findings Summary', HeadingLevel.HEADING_2));
 
     const findingsRows = issues.map((issue, i) => {
-      const remId = `REM-${String(i + 1).padStart(3, '0')}`;
+      const remId = remediationId(issue.ruleId);
       const wcagScs = issue.wcagTags.map(wcagScFromTag).filter((sc): sc is string => sc !== null);
       const wcagLabel = wcagScs.length > 0 ? wcagScs.join(', ') : 'Best practice';
       const shade = i % 2 === 0 ? LIGHT_BLUE : undefined;
@@ -213,10 +259,11 @@ export async function generateRemediationPlanDocx(
       return new TableRow({
         children: [
           dataCell([bold(remId, { size: 20 })], 1100, shade),
-          dataCell([normal(issue.help, { size: 20 })], 2800, shade),
-          dataCell([normal(wcagLabel, { size: 20 })], 2400, shade),
+          dataCell([normal(issue.help, { size: 20 })], 2400, shade),
+          dataCell([normal(wcagLabel, { size: 20 })], 1900, shade),
           dataCell([severityTag(capitalize(issue.impact))], 1200, shade),
           dataCell([normal(String(issue.totalNodes), { size: 20 })], 900, shade),
+          dataCell([normal(String(distinctElements(issue.occurrences).length), { size: 20 })], 900, shade),
           dataCell([normal(String(pagesAffected), { size: 20 })], 900, shade),
         ],
       });
@@ -230,10 +277,11 @@ export async function generateRemediationPlanDocx(
           tableHeader: true,
           children: [
             headerCell('ID', 1100),
-            headerCell('Rule', 2800),
-            headerCell('WCAG SC', 2400),
+            headerCell('Rule', 2400),
+            headerCell('WCAG SC', 1900),
             headerCell('Severity', 1200),
             headerCell('Count', 900),
+            headerCell('Distinct', 900),
             headerCell('Pages', 900),
           ],
         }),
@@ -241,36 +289,85 @@ export async function generateRemediationPlanDocx(
       ],
     }));
 
+    // Findings by owning team and component, when an ownership file was applied
+    if (issues.some(issue => issue.occurrences.some(o => o.owner !== undefined))) {
+      children.push(heading('Findings by Owner', HeadingLevel.HEADING_2));
+
+      const ownerRows = groupIssuesByOwner(issues).map((group, i) => {
+        const shade = i % 2 === 0 ? LIGHT_BLUE : undefined;
+        return new TableRow({
+          children: [
+            dataCell([normal(group.owner?.team ?? 'Unowned', { size: 20 })], 1800, shade),
+            dataCell([normal(group.owner?.component ?? '—', { size: 20 })], 2000, shade),
+            dataCell([normal(group.rules.map(r => remediationId(r.ruleId)).join(', '), { size: 20 })], 3000, shade),
+            dataCell([normal(String(group.nodes), { size: 20 })], 900, shade),
+            dataCell([normal(String(group.pages), { size: 20 })], 1000, shade),
+          ],
+        });
+      });
+
+      children.push(new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        layout: TableLayoutType.FIXED,
+        rows: [
+          new TableRow({
+            tableHeader: true,
+            children: [
+              headerCell('Team', 1800),
+              headerCell('Component', 2000),
+              headerCell('Items', 3000),
+              headerCell('Count', 900),
+              headerCell('Pages Broken', 1000),
+            ],
+          }),
+          ...ownerRows,
+        ],
+      }));
+    }
+
     // Detailed Remediation Items
     children.push(heading('Detailed Remediation Items', HeadingLevel.HEADING_2));
 
     for (let i = 0; i < issues.length; i++) {
       const issue = issues[i];
-      const remId = `REM-${String(i + 1).padStart(3, '0')}`;
+      const remId = remediationId(issue.ruleId);
       const wcagScs = issue.wcagTags.map(wcagScFromTag).filter((sc): sc is string => sc !== null);
       const wcagLabel = wcagScs.length > 0 ? wcagScs.join(', ') : 'Best practice';
       const pagesAffected = new Set(issue.occurrences.map(o => o.url)).size;
+      const elements = distinctElements(issue.occurrences);
 
       children.push(heading(`${remId}: ${issue.help}`, HeadingLevel.HEADING_3));
 
+      const tracking = comparison?.issues.get(issue.ruleId);
+      const owners = [...new Set(issue.occurrences.filter(o => o.owner !== undefined).map(o => ownerLabel(o.owner ?? null)))];
       children.push(labelValueTable([
         ['Severity', [severityTag(capitalize(issue.impact))]],
+        ...(tracking ? [['Status', [normal(trackingLabel(tracking))]] as [string, TextRun[]]] : []),
         ['WCAG Success Criterion', [normal(wcagLabel)]],
         ['Occurrences', [normal(String(issue.totalNodes))]],
+        ['Distinct Elements', [normal(String(elements.length))]],
         ['Affected Pages', [normal(String(pagesAffected))]],
+        ...(owners.length > 0 ? [['Owners', [normal(owners.join('; '))]] as [string, TextRun[]]] : []),
+        ...(issue.variants ? [['Found In', [normal(`${issue.variants.join(', ')} (${issue.variantScope})`)]] as [string, TextRun[]]] : []),
+        ...(issue.states ? [['States', [normal(issue.states.join(', '))]] as [string, TextRun[]]] : []),
       ]));
 
       children.push(spacer());
       children.push(bodyText([bold('Description: '), normal(issue.description)]));
 
       // Show sample affected elements
-      const sampleNodes = issue.occurrences.flatMap(o => o.nodes).slice(0, 5);
-      if (sampleNodes.length > 0) {
+      const sampleElements = elements.slice(0, 5);
+      if (sampleElements.length > 0) {
         children.push(bodyText([bold('Affected elements (sample):')]));
-        for (const node of sampleNodes) {
+        for (const { node, urls } of sampleElements) {
           children.push(bulletItem([
             mono(node.target.join(' > ').substring(0, 80)),
+            ...(urls.length > 1 ? [normal(` (on ${urls.length} pages)`, { size: 20 })] : []),
           ]));
+          const screenshot = node.screenshotPath ? screenshotParagraph(node.screenshotPath) : null;
+          if (screenshot) {
+            children.push(screenshot);
+          }
         }
       }
 
@@ -282,6 +379,77 @@ export async function generateRemediationPlanDocx(
     }
   }
 
+  // Findings fixed since the previous run
+  if (comparison && comparison.resolved.length > 0) {
+    children.push(heading('Resolved Since Last Run', HeadingLevel.HEADING_2));
+
+    const resolvedRows = comparison.resolved.map((entry, i) => {
+      const shade = i % 2 === 0 ? LIGHT_BLUE : undefined;
+      return new TableRow({
+        children: [
+          dataCell([normal(entry.ruleId, { size: 20 })], 1800, shade),
+          dataCell([mono(entry.selector.substring(0, 80))], 2900, shade),
+          dataCell([normal(entry.urlTemplate, { size: 20 })], 3000, shade),
+          dataCell([normal(entry.firstSeen, { size: 20 })], 1600, shade),
+        ],
+      });
+    });
+
+    children.push(new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      layout: TableLayoutType.FIXED,
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: [
+            headerCell('Rule', 1800),
+            headerCell('Element', 2900),
+            headerCell('Page Template', 3000),
+            headerCell('First Seen', 1600),
+          ],
+        }),
+        ...resolvedRows,
+      ],
+    }));
+  }
+
+  // Waived findings are listed for transparency but excluded from the plan
+  if (waived.length > 0) {
+    children.push(heading('Waived Findings', HeadingLevel.HEADING_2));
+    children.push(bodyText([normal('The following findings match an active suppression (confirmed false positive or accepted risk) and are excluded from scoring and the remediation timeline.')]));
+
+    const waivedRows = waived.map((finding, i) => {
+      const shade = i % 2 === 0 ? LIGHT_BLUE : undefined;
+      return new TableRow({
+        children: [
+          dataCell([normal(finding.ruleId, { size: 20 })], 1800, shade),
+          dataCell([normal(finding.url, { size: 20 })], 2600, shade),
+          dataCell([normal(finding.suppression.reason, { size: 20 })], 2600, shade),
+          dataCell([normal(finding.suppression.owner, { size: 20 })], 1200, shade),
+          dataCell([normal(finding.suppression.expires, { size: 20 })], 1100, shade),
+        ],
+      });
+    });
+
+    children.push(new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      layout: TableLayoutType.FIXED,
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: [
+            headerCell('Rule', 1800),
+            headerCell('Page', 2600),
+            headerCell('Reason', 2600),
+            headerCell('Owner', 1200),
+            headerCell('Expires', 1100),
+          ],
+        }),
+        ...waivedRows,
+      ],
+    }));
+  }
+
   const doc = new Document({
     styles: {
       default: {
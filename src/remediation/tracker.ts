@@ -0,0 +1,84 @@
+import type { RemediationIssue } from '../scanner/remediationReport.js';
+import { wcagScFromTag } from '../scanner/remediationReport.js';
+import { remediationId } from './history.js';
+
+/** One remediation item shaped for Jira / GitHub issue import */
+export interface TrackerIssue {
+  /** Stable remediation ID, e.g. REM-3F9A0C */
+  id: string;
+  title: string;
+  /** Markdown body with affected pages, selectors and HTML */
+  body: string;
+  labels: string[];
+  component: string;
+  ruleId: string;
+  impact: RemediationIssue['impact'];
+  pages: number;
+  elements: number;
+}
+
+/** Occurrences listed per issue body before the rest are summarized */
+const MAX_BODY_NODES = 20;
+
+function issueBody(issue: RemediationIssue, wcagScs: string[]): string {
+  const lines: string[] = [];
+  lines.push(issue.description);
+  lines.push('');
+  lines.push(`- **Rule:** ${issue.ruleId}`);
+  lines.push(`- **Impact:** ${issue.impact}`);
+  lines.push(`- **WCAG:** ${wcagScs.length > 0 ? wcagScs.join(', ') : 'best-practice'}`);
+  lines.push(`- **How to fix:** ${issue.helpUrl}`);
+  lines.push('');
+  lines.push('### Affected elements');
+
+  let listed = 0;
+  for (const occurrence of issue.occurrences) {
+    if (listed >= MAX_BODY_NODES) break;
+    lines.push('');
+    lines.push(`**${occurrence.url}**`);
+    for (const node of occurrence.nodes.slice(0, MAX_BODY_NODES - listed)) {
+      lines.push(`- \`${node.target.join(' > ')}\``);
+      lines.push(`  \`\`\`html\n  ${node.html}\n  \`\`\``);
+      listed++;
+    }
+  }
+  if (issue.totalNodes > listed) {
+    lines.push('');
+    lines.push(`…and ${issue.totalNodes - listed} more element(s).`);
+  }
+  return lines.join('\n');
+}
+
+/** Convert remediation issues to tracker issues with stable IDs */
+export function buildTrackerIssues(issues: RemediationIssue[], component: string): TrackerIssue[] {
+  return issues.map((issue) => {
+    const wcagScs = issue.wcagTags.map(wcagScFromTag).filter((sc): sc is string => sc !== null);
+    const id = remediationId(issue.ruleId);
+    return {
+      id,
+      title: `[${id}] ${issue.help} (${issue.ruleId})`,
+      body: issueBody(issue, wcagScs),
+      labels: ['accessibility', `impact-${issue.impact}`, ...wcagScs.map((sc) => `wcag-${sc}`)],
+      component,
+      ruleId: issue.ruleId,
+      impact: issue.impact,
+      pages: new Set(issue.occurrences.map((o) => o.url)).size,
+      elements: issue.totalNodes,
+    };
+  });
+}
+
+export function trackerIssuesToJson(issues: TrackerIssue[]): string {
+  return JSON.stringify(issues, null, 2) + '\n';
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** CSV for Jira's importer: labels are space-separated, as Jira labels can't contain spaces */
+export function trackerIssuesToCsv(issues: TrackerIssue[]): string {
+  const header = ['ID', 'Summary', 'Description', 'Labels', 'Component', 'Impact', 'Pages', 'Elements'];
+  const rows = issues.map((i) => [i.id, i.title, i.body, i.labels.join(' '), i.component, i.impact, String(i.pages), String(i.elements)]);
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,97 @@
+import type { TrackerConfig } from '../types.js';
+import type { TrackerIssue } from './tracker.js';
+
+/** An issue as listed by the tracker endpoint */
+export interface RemoteIssue {
+  /** Tracker's own key, e.g. "A11Y-42" or "17" */
+  id: string;
+  /** Remediation ID the issue was created for */
+  externalId: string;
+  state: 'open' | 'closed';
+}
+
+export interface SyncSummary {
+  created: string[];
+  commented: string[];
+  reopened: string[];
+  closed: string[];
+}
+
+/**
+ * Keep a tracker in step with the current remediation items.
+ *
+ * Open issues missing from `issues` are only closed when listed in `fixed`
+ * (see `fixedRemediationIds`), so pages that failed to load or were skipped
+ * this run don't close defects nobody fixed.
+ *
+ * The endpoint contract:
+ * - `GET    <endpoint>/issues?component=<c>` → `RemoteIssue[]`
+ * - `POST   <endpoint>/issues` `{ externalId, title, body, labels, component }` → `{ id }`
+ * - `POST   <endpoint>/issues/<id>/comments` `{ body }`
+ * - `PATCH  <endpoint>/issues/<id>` `{ state }`
+ */
+export async function syncTrackerIssues(
+  issues: TrackerIssue[],
+  config: TrackerConfig,
+  component: string,
+  runDate: string,
+  fixed: Set<string>
+): Promise<SyncSummary> {
+  const base = config.endpoint.replace(/\/+$/, '');
+  const token = process.env[config.tokenEnv];
+
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Tracker ${method} ${path} failed: ${response.status} ${response.statusText}`);
+    }
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  };
+
+  const remote = await request<RemoteIssue[]>('GET', `/issues?component=${encodeURIComponent(component)}`);
+  const byExternalId = new Map(remote.map((r) => [r.externalId, r]));
+  const summary: SyncSummary = { created: [], commented: [], reopened: [], closed: [] };
+
+  for (const issue of issues) {
+    const existing = byExternalId.get(issue.id);
+    const status = `${issue.elements} element(s) on ${issue.pages} page(s)`;
+
+    if (!existing) {
+      await request('POST', '/issues', {
+        externalId: issue.id,
+        title: issue.title,
+        body: issue.body,
+        labels: issue.labels,
+        component,
+      });
+      summary.created.push(issue.id);
+    } else if (existing.state === 'closed') {
+      await request('PATCH', `/issues/${encodeURIComponent(existing.id)}`, { state: 'open' });
+      await request('POST', `/issues/${encodeURIComponent(existing.id)}/comments`, { body: `Regressed: found again on ${runDate} (${status}).` });
+      summary.reopened.push(issue.id);
+    } else {
+      await request('POST', `/issues/${encodeURIComponent(existing.id)}/comments`, { body: `Still open as of ${runDate} (${status}).` });
+      summary.commented.push(issue.id);
+    }
+  }
+
+  const current = new Set(issues.map((i) => i.id));
+  for (const r of remote) {
+    // Issues filed by hand carry no remediation ID and are left alone
+    if (r.state !== 'open' || !r.externalId || current.has(r.externalId) || !fixed.has(r.externalId)) continue;
+    await request('POST', `/issues/${encodeURIComponent(r.id)}/comments`, { body: `No longer detected as of ${runDate}; closing.` });
+    await request('PATCH', `/issues/${encodeURIComponent(r.id)}`, { state: 'closed' });
+    summary.closed.push(r.externalId);
+  }
+
+  return summary;
+}
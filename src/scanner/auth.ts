@@ -0,0 +1,105 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { Browser, BrowserContextOptions } from 'playwright';
+import type { AuthConfig, FormLoginConfig } from '../types.js';
+
+type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Environment variable ${name} is required for form login`);
+  }
+  return value;
+}
+
+/** Run the scripted login in a throwaway context and capture its session */
+async function runFormLogin(
+  browser: Browser,
+  login: FormLoginConfig,
+  contextOptions: BrowserContextOptions,
+  timeout: number
+): Promise<StorageState> {
+  const context = await browser.newContext(contextOptions);
+  const page = await context.newPage();
+  try {
+    await page.goto(login.loginUrl, { waitUntil: 'networkidle', timeout });
+    await page.fill(login.usernameSelector, requireEnv(login.usernameEnv), { timeout });
+    await page.fill(login.passwordSelector, requireEnv(login.passwordEnv), { timeout });
+    await page.click(login.submitSelector, { timeout });
+
+    if (login.successSelector) {
+      await page.waitForSelector(login.successSelector, { timeout });
+    } else {
+      const loginPath = new URL(login.loginUrl).pathname;
+      await page.waitForURL((url) => url.pathname !== loginPath, { timeout });
+    }
+    await page.waitForLoadState('networkidle', { timeout });
+
+    return await context.storageState();
+  } catch (error) {
+    throw new Error(`Form login at ${login.loginUrl} failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await context.close();
+  }
+}
+
+/**
+ * Build the context options every scan page should share.
+ * Form login runs once here; its session is reused by all scan contexts.
+ */
+export async function prepareAuthContext(
+  browser: Browser,
+  auth: AuthConfig | null | undefined,
+  timeout: number
+): Promise<BrowserContextOptions> {
+  if (!auth) return {};
+
+  const options: BrowserContextOptions = {};
+  if (Object.keys(auth.headers).length > 0) {
+    options.extraHTTPHeaders = auth.headers;
+  }
+
+  let state: StorageState = { cookies: [], origins: [] };
+  if (auth.storageStatePath) {
+    state = JSON.parse(readFileSync(resolve(auth.storageStatePath), 'utf-8')) as StorageState;
+  }
+  if (auth.formLogin) {
+    state = await runFormLogin(browser, auth.formLogin, { ...options, storageState: state }, timeout);
+  }
+
+  const cookies = [
+    ...state.cookies,
+    ...auth.cookies.map((c) => ({
+      ...c,
+      expires: -1,
+      httpOnly: false,
+      secure: false,
+      sameSite: 'Lax' as const,
+    })),
+  ];
+  if (cookies.length > 0 || state.origins.length > 0) {
+    options.storageState = { cookies, origins: state.origins };
+  }
+
+  return options;
+}
+
+/** URL fragment that identifies the login screen, if one can be determined */
+export function loginUrlPattern(auth: AuthConfig | null | undefined): string | null {
+  if (!auth) return null;
+  if (auth.loginUrlPattern) return auth.loginUrlPattern;
+  if (auth.formLogin) return new URL(auth.formLogin.loginUrl).pathname;
+  return null;
+}
+
+/** True when a page landed on the login screen instead of the requested URL */
+export function isLoginRedirect(
+  requestedUrl: string,
+  finalUrl: string,
+  auth: AuthConfig | null | undefined
+): boolean {
+  const pattern = loginUrlPattern(auth);
+  if (!pattern) return false;
+  return finalUrl.includes(pattern) && !requestedUrl.includes(pattern);
+}
@@ -1,6 +1,42 @@
-import { chromium, type Browser, type Page } from 'playwright';
+import { errors, type BrowserContextOptions, type Page } from 'playwright';
 import AxeBuilder from '@axe-core/playwright';
-import type { ScanResult, AxeRuleResult, DetailedScanResult, AxeViolationDetail } from '../types.js';
+import type {
+  ScanResult,
+  ScanStatus,
+  AxeRuleResult,
+  DetailedScanResult,
+  AxeViolationDetail,
+  AuthConfig,
+  EvidenceOptions,
+  InteractionState,
+  KeyboardAuditOptions,
+  ReflowOptions,
+  ScanMatrix,
+} from '../types.js';
+import { prepareAuthContext, isLoginRedirect } from './auth.js';
+import { captureEvidence } from './evidence.js';
+import { auditKeyboard, applyKeyboardAudit } from './keyboardAudit.js';
+import { auditReflow, applyReflowAudit } from './reflowAudit.js';
+import { enterState } from './interactionStates.js';
+import { BROWSER_TYPES, DEFAULT_MATRIX, scanVariants, variantContextOptions } from './matrix.js';
+import { LEGACY_AXE_TAGS } from '../mapping/wcagStandard.js';
+
+/** Scan settings shared by every page; evidence is captured when `evidenceDir` is set */
+export interface ScanUrlOptions {
+  timeout: number;
+  waitForSelector: string;
+  auth?: AuthConfig | null;
+  evidence?: EvidenceOptions;
+  evidenceDir?: string;
+  keyboard?: KeyboardAuditOptions;
+  reflow?: ReflowOptions;
+  /** Variant name recorded on the result and used for evidence paths */
+  variant?: string;
+  /** Interaction state name recorded on the result and used for evidence paths */
+  state?: string;
+  /** axe-core tags to run; defaults to LEGACY_AXE_TAGS */
+  axeTags?: string[];
+}
 
 function extractRuleResults(results: any[]): AxeRuleResult[] {
   return results.map((r) => ({
@@ -32,65 +68,204 @@ export function extractViolationDetails(violations: any[]): AxeViolationDetail[]
   }));
 }
 
-export async function scanUrl(
-  page: Page,
+/** Build the result for a page that could not be loaded or analyzed */
+export function failedScanResult(
   url: string,
-  options: { timeout: number; waitForSelector: string }
-): Promise<DetailedScanResult> {
-  await page.goto(url, { waitUntil: 'networkidle', timeout: options.timeout });
+  status: Exclude<ScanStatus, 'ok'>,
+  error: string,
+  httpStatus?: number
+): DetailedScanResult {
+  return {
+    url,
+    timestamp: new Date().toISOString(),
+    status,
+    ...(httpStatus !== undefined ? { httpStatus } : {}),
+    error,
+    violations: [],
+    passes: [],
+    incomplete: [],
+    violationDetails: [],
+  };
+}
+
+/** Classify a scan exception as a timeout or a generic navigation failure */
+export function scanErrorStatus(error: unknown): 'timeout' | 'navigation-error' {
+  return error instanceof errors.TimeoutError ? 'timeout' : 'navigation-error';
+}
+
+/** Load a page and wait until it is ready; returns a failed result when it cannot be analyzed */
+async function loadPage(page: Page, url: string, options: ScanUrlOptions): Promise<DetailedScanResult | null> {
+  const response = await page.goto(url, { waitUntil: 'networkidle', timeout: options.timeout });
+  if (isLoginRedirect(url, page.url(), options.auth)) {
+    return failedScanResult(url, 'auth-redirect', `Redirected to login page ${page.url()}`);
+  }
+  if (response && response.status() >= 400) {
+    return failedScanResult(url, 'http-error', `HTTP ${response.status()} ${response.statusText()}`.trim(), response.status());
+  }
   await page.waitForSelector(options.waitForSelector, { timeout: options.timeout });
+  // Client-side routers may bounce to the login screen after the first load
+  if (isLoginRedirect(url, page.url(), options.auth)) {
+    return failedScanResult(url, 'auth-redirect', `Redirected to login page ${page.url()}`);
+  }
+  return null;
+}
 
+/** Run axe-core on the page as it is now and capture evidence */
+async function analyzePage(page: Page, url: string, options: ScanUrlOptions): Promise<DetailedScanResult> {
   const results = await new AxeBuilder({ page })
-    .withTags(['wcag2a', 'wcag2aa', 'wcag2aaa', 'wcag21a', 'wcag21aa', 'wcag22aa'])
+    .withTags(options.axeTags ?? LEGACY_AXE_TAGS)
     .analyze();
 
-  return {
+  const result: DetailedScanResult = {
     url,
     timestamp: new Date().toISOString(),
+    status: 'ok',
+    ...(options.variant ? { variant: options.variant } : {}),
+    ...(options.state ? { state: options.state } : {}),
     violations: extractRuleResults(results.violations),
     passes: extractRuleResults(results.passes),
     incomplete: extractRuleResults(results.incomplete),
     violationDetails: extractViolationDetails(results.violations),
   };
+
+  if (options.evidenceDir && options.evidence) {
+    await captureEvidence(page, result, { ...options.evidence, dir: options.evidenceDir });
+  }
+  return result;
+}
+
+export async function scanUrl(
+  page: Page,
+  url: string,
+  options: ScanUrlOptions
+): Promise<DetailedScanResult> {
+  const failed = await loadPage(page, url, options);
+  if (failed) return failed;
+  const result = await analyzePage(page, url, options);
+
+  // Tabbing moves focus and may follow a skip link, so it runs after axe and evidence capture
+  if (options.keyboard?.enabled) {
+    try {
+      applyKeyboardAudit(result, await auditKeyboard(page, options.keyboard));
+    } catch {
+      // A page that breaks the audit still keeps its axe results
+    }
+  }
+
+  // Reloads the page at other sizes, so it runs last
+  if (options.reflow?.enabled) {
+    try {
+      applyReflowAudit(result, await auditReflow(page, url, options));
+    } catch {
+      // A page that breaks the audit still keeps its axe results
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reload the page, run a state's steps and analyze the result. Keyboard and
+ * reflow audits only run on the page as loaded, not on each state.
+ */
+export async function scanState(
+  page: Page,
+  url: string,
+  state: InteractionState,
+  options: ScanUrlOptions
+): Promise<DetailedScanResult> {
+  const failed = await loadPage(page, url, options);
+  if (failed) return { ...failed, state: state.name };
+  try {
+    await enterState(page, state, options.timeout);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ...failedScanResult(url, 'state-error', message), state: state.name };
+  }
+  return analyzePage(page, url, { ...options, state: state.name });
 }
 
+async function scanOrFail(url: string, scan: () => Promise<DetailedScanResult>): Promise<DetailedScanResult> {
+  try {
+    return await scan();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return failedScanResult(url, scanErrorStatus(error), message.split('\n')[0]);
+  }
+}
+
+export interface ScanUrlsOptions extends ScanUrlOptions {
+  concurrency: number;
+  matrix?: ScanMatrix;
+  states?: Record<string, InteractionState[]>;
+  /** Pages to leave out, e.g. those an interrupted run already scanned */
+  skip?: (url: string, variant?: string) => boolean;
+  /** Called as each page finishes with its results: the page as loaded, then each state */
+  onPageScanned?: (results: DetailedScanResult[]) => void;
+}
+
+/**
+ * Scan every URL once per browser × viewport combination of the matrix.
+ * Results are tagged with their variant only when there is more than one.
+ * URLs with interaction states get one extra result per state, unless the
+ * page itself failed to load.
+ */
 export async function scanUrls(
   urls: string[],
-  options: { concurrency: number; timeout: number; waitForSelector: string },
-  onProgress?: (url: string, index: number, total: number) => void
+  options: ScanUrlsOptions,
+  onProgress?: (url: string, index: number, total: number, variant?: string) => void
 ): Promise<DetailedScanResult[]> {
-  const browser = await chromium.launch({ headless: true });
+  const variants = scanVariants(options.matrix ?? DEFAULT_MATRIX);
+  const tagVariants = variants.length > 1;
+  const total = urls.length * variants.length;
   const results: DetailedScanResult[] = [];
+  let scanned = 0;
+
+  for (const browserName of [...new Set(variants.map((v) => v.browser))]) {
+    const browser = await BROWSER_TYPES[browserName].launch({ headless: true });
+    try {
+      // Log in once per engine; every page context reuses the resulting session
+      const authOptions: BrowserContextOptions = await prepareAuthContext(browser, options.auth, options.timeout);
+
+      for (const variant of variants.filter((v) => v.browser === browserName)) {
+        const contextOptions = { ...variantContextOptions(variant), ...authOptions };
+        const variantName = tagVariants ? variant.name : undefined;
+        const pending = urls.filter((url) => !options.skip?.(url, variantName));
+        scanned += urls.length - pending.length;
 
-  // Process in batches of `concurrency`
-  for (let i = 0; i < urls.length; i += options.concurrency) {
-    const batch = urls.slice(i, i + options.concurrency);
-    const batchResults = await Promise.all(
-      batch.map(async (url, batchIdx) => {
-        const context = await browser.newContext();
-        const page = await context.newPage();
-        try {
-          onProgress?.(url, i + batchIdx, urls.length);
-          return await scanUrl(page, url, options);
-        } catch (error) {
-          const message = error instanceof Error ? error.message : String(error);
-          console.error(`Failed to scan ${url}: ${message}`);
-          return {
-            url,
-            timestamp: new Date().toISOString(),
-            violations: [],
-            passes: [],
-            incomplete: [],
-            violationDetails: [],
-          } satisfies DetailedScanResult;
-        } finally {
-          await context.close();
+        // Process in batches of `concurrency`
+        for (let i = 0; i < pending.length; i += options.concurrency) {
+          const batch = pending.slice(i, i + options.concurrency);
+          const batchResults = await Promise.all(
+            batch.map(async (url, batchIdx) => {
+              const context = await browser.newContext(contextOptions);
+              const page = await context.newPage();
+              const pageOptions = { ...options, variant: variantName };
+              try {
+                onProgress?.(url, scanned + batchIdx, total, variantName);
+                const pageResults = [await scanOrFail(url, () => scanUrl(page, url, pageOptions))];
+                if (pageResults[0].status === 'ok') {
+                  for (const state of options.states?.[url] ?? []) {
+                    const result = await scanOrFail(url, () => scanState(page, url, state, pageOptions));
+                    pageResults.push({ ...result, state: state.name });
+                  }
+                }
+                if (variantName) pageResults.forEach((r) => { r.variant = variantName; });
+                options.onPageScanned?.(pageResults);
+                return pageResults;
+              } finally {
+                await context.close();
+              }
+            })
+          );
+          results.push(...batchResults.flat());
+          scanned += batch.length;
         }
-      })
-    );
-    results.push(...batchResults);
+      }
+    } finally {
+      await browser.close();
+    }
   }
 
-  await browser.close();
   return results;
 }
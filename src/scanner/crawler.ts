@@ -0,0 +1,140 @@
+import { chromium } from 'playwright';
+import type { AuthConfig, DiscoveryConfig } from '../types.js';
+import { prepareAuthContext, isLoginRedirect } from './auth.js';
+import { fetchSitemapUrls } from './sitemap.js';
+import { isUrlAllowed, groupUrlsByTemplate, sampleTemplates, type UrlTemplateGroup } from './urlPatterns.js';
+
+/** Result of a discovery run, as written to the sidecar file */
+export interface DiscoveryResult {
+  generatedAt: string;
+  startUrl: string | null;
+  sitemapUrl: string | null;
+  /** Every page found, in discovery order */
+  pagesFound: number;
+  templates: (UrlTemplateGroup & { samples: string[] })[];
+  /** Sampled URLs to scan */
+  urls: string[];
+}
+
+const SKIPPED_EXTENSIONS = /\.(pdf|zip|docx?|xlsx?|pptx?|csv|png|jpe?g|gif|svg|webp|mp4|mp3|ics)$/i;
+
+/** Normalize a link for de-duplication: absolute, no fragment */
+export function normalizeLink(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/** Same-origin, allowed, non-asset links from a page */
+export function filterCrawlLinks(links: string[], pageUrl: string, discovery: DiscoveryConfig): string[] {
+  const origin = new URL(pageUrl).origin;
+  const result: string[] = [];
+  for (const href of links) {
+    const url = normalizeLink(href, pageUrl);
+    if (!url) continue;
+    const parsed = new URL(url);
+    if (parsed.origin !== origin || SKIPPED_EXTENSIONS.test(parsed.pathname)) continue;
+    if (!isUrlAllowed(url, discovery.include, discovery.exclude)) continue;
+    result.push(url);
+  }
+  return result;
+}
+
+/** Breadth-first crawl of same-origin links from the start URL */
+async function crawl(
+  startUrl: string,
+  discovery: DiscoveryConfig,
+  scanOptions: { timeout: number; auth?: AuthConfig | null },
+  limit: number,
+  onProgress?: (url: string, found: number) => void
+): Promise<string[]> {
+  const browser = await chromium.launch({ headless: true });
+  const found: string[] = [];
+  try {
+    const context = await browser.newContext(
+      await prepareAuthContext(browser, scanOptions.auth, scanOptions.timeout)
+    );
+    const page = await context.newPage();
+    const queue: { url: string; depth: number }[] = [{ url: startUrl, depth: 0 }];
+    const queued = new Set([startUrl]);
+
+    while (queue.length > 0 && found.length < limit) {
+      const { url, depth } = queue.shift()!;
+      onProgress?.(url, found.length);
+
+      let links: string[];
+      try {
+        const response = await page.goto(url, { waitUntil: 'networkidle', timeout: scanOptions.timeout });
+        if ((response && response.status() >= 400) || isLoginRedirect(url, page.url(), scanOptions.auth)) {
+          continue;
+        }
+        links = await page.$$eval('a[href]', (anchors) => anchors.map((a) => a.getAttribute('href') ?? ''));
+      } catch {
+        continue;
+      }
+
+      if (isUrlAllowed(url, discovery.include, discovery.exclude)) {
+        found.push(url);
+      }
+      if (depth >= discovery.maxDepth) continue;
+
+      for (const link of filterCrawlLinks(links, url, discovery)) {
+        if (queued.has(link)) continue;
+        queued.add(link);
+        queue.push({ url: link, depth: depth + 1 });
+      }
+    }
+
+    await context.close();
+  } finally {
+    await browser.close();
+  }
+  return found;
+}
+
+/**
+ * Discover a product's pages from its sitemap and/or by crawling from a start URL,
+ * then group near-identical URLs into templates and sample each template.
+ */
+export async function discoverUrls(
+  discovery: DiscoveryConfig,
+  scanOptions: { timeout: number; auth?: AuthConfig | null },
+  onProgress?: (url: string, found: number) => void
+): Promise<DiscoveryResult> {
+  const pages: string[] = [];
+  const add = (urls: string[]) => {
+    for (const url of urls) {
+      if (pages.length >= discovery.maxPages) break;
+      if (!pages.includes(url)) pages.push(url);
+    }
+  };
+
+  if (discovery.sitemapUrl) {
+    const origin = new URL(discovery.sitemapUrl).origin;
+    const sitemapUrls = await fetchSitemapUrls(discovery.sitemapUrl, discovery.maxPages);
+    add(sitemapUrls
+      .map((u) => normalizeLink(u, discovery.sitemapUrl!))
+      .filter((url): url is string =>
+        url !== null && new URL(url).origin === origin && isUrlAllowed(url, discovery.include, discovery.exclude)
+      ));
+  }
+
+  if (discovery.startUrl && pages.length < discovery.maxPages) {
+    add(await crawl(discovery.startUrl, discovery, scanOptions, discovery.maxPages - pages.length, onProgress));
+  }
+
+  const groups = groupUrlsByTemplate(pages);
+  return {
+    generatedAt: new Date().toISOString(),
+    startUrl: discovery.startUrl ?? null,
+    sitemapUrl: discovery.sitemapUrl ?? null,
+    pagesFound: pages.length,
+    templates: groups.map((g) => ({ ...g, samples: g.urls.slice(0, discovery.samplesPerTemplate) })),
+    urls: sampleTemplates(groups, discovery.samplesPerTemplate),
+  };
+}
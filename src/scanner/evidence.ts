@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { mkdirSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import type { Page } from 'playwright';
+import type { DetailedScanResult, EvidenceOptions } from '../types.js';
+import type { ScanEvidence } from '../ai/types.js';
+
+/** Directory name for a page's evidence: readable path fragment (+ scan variant and state) + short hash */
+export function evidenceSlug(url: string, variant?: string, state?: string): string {
+  const labels = [variant, state].filter((l): l is string => Boolean(l));
+  const hash = createHash('sha1').update([url, ...labels].join('\n')).digest('hex').slice(0, 8);
+  let path = url;
+  try {
+    const parsed = new URL(url);
+    path = parsed.hostname + parsed.pathname;
+  } catch {
+    // keep the raw string
+  }
+  if (labels.length > 0) path += `-${labels.join('-')}`;
+  const readable = path.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${readable || 'page'}-${hash}`;
+}
+
+/**
+ * Capture screenshots and the accessibility tree for a scanned page.
+ * Files go under `<dir>/<slug>/`; paths are recorded on the result and on
+ * each violation node that was photographed. Capture failures never fail the scan.
+ */
+export async function captureEvidence(
+  page: Page,
+  result: DetailedScanResult,
+  options: EvidenceOptions & { dir: string }
+): Promise<void> {
+  const pageDir = join(options.dir, evidenceSlug(result.url, result.variant, result.state));
+  mkdirSync(pageDir, { recursive: true });
+  result.evidence = {};
+
+  if (options.screenshots) {
+    const screenshotPath = join(pageDir, 'page.png');
+    try {
+      await page.screenshot({ path: screenshotPath, fullPage: true });
+      result.evidence.screenshotPath = screenshotPath;
+    } catch {
+      // Some pages refuse full-page capture (e.g. huge canvases) — skip
+    }
+  }
+
+  if (options.accessibilityTree) {
+    try {
+      const tree = await page.locator('body').ariaSnapshot();
+      const treePath = join(pageDir, 'accessibility-tree.yml');
+      writeFileSync(treePath, tree);
+      result.evidence.accessibilityTreePath = treePath;
+    } catch {
+      // ignore
+    }
+  }
+
+  if (options.elementScreenshots) {
+    let captured = 0;
+    for (const violation of result.violationDetails) {
+      for (let n = 0; n < violation.nodeDetails.length; n++) {
+        if (captured >= options.maxElementScreenshots) return;
+        const node = violation.nodeDetails[n];
+        // Only plain selectors — iframe/shadow DOM chains can't be located directly
+        if (node.target.length !== 1) continue;
+
+        const nodePath = join(pageDir, `${violation.ruleId}-${n + 1}.png`);
+        try {
+          await page.locator(node.target[0]).first().screenshot({ path: nodePath, timeout: 5000 });
+          node.screenshotPath = nodePath;
+          captured++;
+        } catch {
+          // hidden or detached elements can't be photographed
+        }
+      }
+    }
+  }
+}
+
+/** Load captured evidence files into the in-memory form used by AI review */
+export function loadScanEvidence(scanResults: DetailedScanResult[]): ScanEvidence | undefined {
+  const evidence: ScanEvidence = { screenshots: new Map(), accessibilityTrees: new Map() };
+  for (const result of scanResults) {
+    const screenshotPath = result.evidence?.screenshotPath;
+    if (screenshotPath && existsSync(screenshotPath)) {
+      evidence.screenshots.set(result.url, readFileSync(screenshotPath));
+    }
+    const treePath = result.evidence?.accessibilityTreePath;
+    if (treePath && existsSync(treePath)) {
+      evidence.accessibilityTrees.set(result.url, readFileSync(treePath, 'utf-8'));
+    }
+  }
+  if (evidence.screenshots.size === 0 && evidence.accessibilityTrees.size === 0) return undefined;
+  return evidence;
+}
+
+/** Read width/height from a PNG header, or null if the buffer is not a PNG */
+export function pngDimensions(buffer: Buffer): { width: number; height: number } | null {
+  const signature = '89504e470d0a1a0a';
+  if (buffer.length < 24 || buffer.subarray(0, 8).toString('hex') !== signature) return null;
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
@@ -0,0 +1,55 @@
+import type { Page } from 'playwright';
+import type { InteractionState, InteractionStep } from '../types.js';
+
+/** Short human-readable form of a step for error messages, e.g. `click "#open-dialog"` */
+export function describeStep(step: InteractionStep): string {
+  switch (step.action) {
+    case 'fill':
+      return `fill "${step.selector}"`;
+    case 'press':
+      return step.selector ? `press ${step.key} in "${step.selector}"` : `press ${step.key}`;
+    case 'wait':
+      return step.selector ? `wait for "${step.selector}"` : `wait ${step.ms}ms`;
+    default:
+      return `${step.action} "${step.selector}"`;
+  }
+}
+
+async function runStep(page: Page, step: InteractionStep, timeout: number): Promise<void> {
+  switch (step.action) {
+    case 'click':
+      await page.click(step.selector, { timeout });
+      break;
+    case 'fill':
+      await page.fill(step.selector, step.value, { timeout });
+      break;
+    case 'press':
+      if (step.selector) await page.press(step.selector, step.key, { timeout });
+      else await page.keyboard.press(step.key);
+      break;
+    case 'hover':
+      await page.hover(step.selector, { timeout });
+      break;
+    case 'wait':
+      if (step.selector) await page.waitForSelector(step.selector, { timeout });
+      if (step.ms !== undefined) await page.waitForTimeout(step.ms);
+      break;
+  }
+}
+
+/**
+ * Put a freshly loaded page into a state by running its steps in order.
+ * Throws on the first step that fails, naming the state and the step.
+ */
+export async function enterState(page: Page, state: InteractionState, timeout: number): Promise<void> {
+  for (const [index, step] of state.steps.entries()) {
+    try {
+      await runStep(page, step, timeout);
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      throw new Error(`State "${state.name}" step ${index + 1} (${describeStep(step)}) failed: ${message}`);
+    }
+  }
+  // Let transitions, validation messages and lazy content settle before analysis
+  await page.waitForLoadState('networkidle', { timeout }).catch(() => {});
+}
@@ -0,0 +1,317 @@
+import type { Page } from 'playwright';
+import type {
+  AxeNodeDetail,
+  AxeRuleResult,
+  DetailedScanResult,
+  Impact,
+  KeyboardAuditOptions,
+} from '../types.js';
+import { ELEMENT_HELPERS, type ElementRef } from './pageScripts.js';
+
+/** One Tab stop; `indicator` is null when the element's unfocused style wasn't recorded */
+export interface FocusStop extends ElementRef {
+  indicator: boolean | null;
+}
+
+/** What tabbing through one page found */
+export interface KeyboardAudit {
+  focusOrder: FocusStop[];
+  /** Whether Tab left the page or wrapped back to the first stop */
+  completed: boolean;
+  /** Stops focus cycled between without escaping, even after Escape */
+  trap: FocusStop[] | null;
+  clickables: { checked: number; unfocusable: ElementRef[] };
+  skipLink: { link: ElementRef; targetFound: boolean; works: boolean } | null;
+}
+
+/** In-page helpers PAGE_HELPERS installs, as seen from `page.evaluate` callbacks */
+declare global {
+  interface Window {
+    __vpatKbd: {
+      active(): FocusStop | null;
+      reset(): void;
+      clickables(): KeyboardAudit['clickables'];
+      skipLink(): { link: ElementRef; targetFound: boolean } | null;
+      skipLanded(): boolean;
+    };
+  }
+}
+
+interface KeyboardRule {
+  description: string;
+  help: string;
+  helpUrl: string;
+  wcagTags: string[];
+  impact: Impact;
+}
+
+/** Rules reported by the keyboard audit, alongside axe-core's own */
+export const KEYBOARD_RULES: Record<string, KeyboardRule> = {
+  'kbd-focus-order': {
+    description: 'Ensure keyboard focus moves through the page in reading order',
+    help: 'Focus order should follow the visual reading order',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-order.html',
+    wcagTags: ['wcag2a', 'wcag243'],
+    impact: 'moderate',
+  },
+  'kbd-focus-trap': {
+    description: 'Ensure keyboard focus can always be moved away from a component',
+    help: 'Keyboard focus must not be trapped',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/no-keyboard-trap.html',
+    wcagTags: ['wcag2a', 'wcag212'],
+    impact: 'critical',
+  },
+  'kbd-focus-visible': {
+    description: 'Ensure every focusable element shows a visible focus indicator',
+    help: 'Focused elements must have a visible focus indicator',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-visible.html',
+    wcagTags: ['wcag2aa', 'wcag247'],
+    impact: 'serious',
+  },
+  'kbd-click-focusable': {
+    description: 'Ensure clickable elements can be reached with the keyboard',
+    help: 'Clickable elements must be keyboard focusable',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/keyboard.html',
+    wcagTags: ['wcag2a', 'wcag211'],
+    impact: 'serious',
+  },
+  'kbd-skip-link': {
+    description: 'Ensure a skip link moves focus past the repeated content',
+    help: 'Skip links must move focus to their target',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/bypass-blocks.html',
+    wcagTags: ['wcag2a', 'wcag241'],
+    impact: 'moderate',
+  },
+};
+
+const PAGE_HELPERS = `(() => {
+  if (window.__vpatKbd) return;
+  const NATIVE = 'a[href], button, input, select, textarea, summary, label, iframe, audio[controls], video[controls], [contenteditable=""], [contenteditable="true"], [tabindex]:not([tabindex^="-"])';
+  const ROLES = ['button', 'link', 'checkbox', 'menuitem', 'tab', 'switch', 'option', 'radio'];
+  ${ELEMENT_HELPERS}
+  const styleKey = (el) => {
+    const s = getComputedStyle(el);
+    return [s.outlineStyle, s.outlineWidth, s.outlineColor, s.outlineOffset, s.boxShadow, s.borderTopColor,
+      s.borderBottomColor, s.borderBottomWidth, s.backgroundColor, s.color, s.textDecorationLine].join('|');
+  };
+  // Indicators are often drawn on a wrapper, so the parent's style counts too
+  const indicatorKey = (el) => styleKey(el) + '#' + (el.parentElement ? styleKey(el.parentElement) : '');
+  const deepActive = () => {
+    let el = document.activeElement;
+    while (el && el.shadowRoot && el.shadowRoot.activeElement) el = el.shadowRoot.activeElement;
+    return el && el !== document.body && el !== document.documentElement ? el : null;
+  };
+  const unfocused = new Map();
+  for (const el of document.querySelectorAll('*')) {
+    if (el.tabIndex >= 0 && el !== document.activeElement) unfocused.set(el, indicatorKey(el));
+  }
+  let skipTarget = null;
+  window.__vpatKbd = {
+    active() {
+      const el = deepActive();
+      if (!el) return null;
+      const before = unfocused.get(el);
+      return { ...describe(el), indicator: before === undefined ? null : before !== indicatorKey(el) };
+    },
+    reset() {
+      const marker = document.createElement('span');
+      marker.tabIndex = -1;
+      document.body.prepend(marker);
+      marker.focus();
+      marker.remove();
+      window.scrollTo(0, 0);
+    },
+    clickables() {
+      let checked = 0;
+      const unfocusable = [];
+      for (const el of document.body.querySelectorAll('*')) {
+        const style = getComputedStyle(el);
+        const parent = el.parentElement;
+        const pointer = style.cursor === 'pointer' && !(parent && getComputedStyle(parent).cursor === 'pointer');
+        const handler = el.hasAttribute('onclick') || typeof el.onclick === 'function';
+        if (!pointer && !handler && !ROLES.includes(el.getAttribute('role'))) continue;
+        if (style.visibility === 'hidden' || el.getClientRects().length === 0) continue;
+        if (el.closest('[inert], [aria-hidden="true"], [disabled]')) continue;
+        checked++;
+        if (el.closest(NATIVE) || el.tabIndex >= 0 || el.querySelector(NATIVE)) continue;
+        unfocusable.push(describe(el));
+      }
+      return { checked, unfocusable };
+    },
+    skipLink() {
+      const el = deepActive();
+      if (!el || el.localName !== 'a') return null;
+      const href = el.getAttribute('href') || '';
+      const label = el.textContent + ' ' + (el.getAttribute('aria-label') || '');
+      if (href.length < 2 || !href.startsWith('#') || !/skip|jump to|main content/i.test(label)) return null;
+      skipTarget = document.getElementById(decodeURIComponent(href.slice(1)));
+      return { link: describe(el), targetFound: skipTarget !== null };
+    },
+    skipLanded() {
+      const el = deepActive();
+      if (!skipTarget || !el) return false;
+      return skipTarget.contains(el) || (skipTarget.compareDocumentPosition(el) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+    },
+  };
+})()`;
+
+const activeStop = (page: Page) => page.evaluate(() => window.__vpatKbd.active());
+const resetFocus = (page: Page) => page.evaluate(() => window.__vpatKbd.reset());
+
+/**
+ * Tab through a loaded page: record the focus order, look for focus traps and
+ * missing focus indicators, find clickable elements Tab can't reach and try the
+ * skip link. Leaves focus and the URL fragment changed, so run it after axe.
+ */
+export async function auditKeyboard(page: Page, options: KeyboardAuditOptions): Promise<KeyboardAudit> {
+  await page.evaluate(PAGE_HELPERS);
+  const clickables = await page.evaluate(() => window.__vpatKbd.clickables());
+
+  // Skip link: must be the first stop, and Tab after activating it lands at or past its target
+  await resetFocus(page);
+  await page.keyboard.press('Tab');
+  let skipLink: KeyboardAudit['skipLink'] = null;
+  const skip = await page.evaluate(() => window.__vpatKbd.skipLink());
+  if (skip) {
+    await page.keyboard.press('Enter');
+    await page.keyboard.press('Tab');
+    const works = skip.targetFound && await page.evaluate(() => window.__vpatKbd.skipLanded());
+    skipLink = { ...skip, works };
+  }
+
+  await resetFocus(page);
+  const focusOrder: FocusStop[] = [];
+  let completed = false;
+  let trap: FocusStop[] | null = null;
+
+  for (let presses = 0; presses < options.maxTabStops; presses++) {
+    await page.keyboard.press('Tab');
+    const stop = await activeStop(page);
+    if (!stop || stop.selector === focusOrder[0]?.selector) {
+      completed = true;
+      break;
+    }
+    // Focus moving inside an iframe or shadow root keeps the same outer element
+    if (stop.selector === focusOrder[focusOrder.length - 1]?.selector) continue;
+
+    const seen = focusOrder.findIndex((s) => s.selector === stop.selector);
+    if (seen > 0) {
+      const cycle = focusOrder.slice(seen);
+      completed = await escapesCycle(page, cycle);
+      trap = completed ? null : cycle;
+      break;
+    }
+    focusOrder.push(stop);
+  }
+
+  return { focusOrder, completed, trap, clickables, skipLink };
+}
+
+/** A cycle isn't a trap when Escape (e.g. closing a dialog) lets Tab move elsewhere */
+async function escapesCycle(page: Page, cycle: FocusStop[]): Promise<boolean> {
+  const selectors = new Set(cycle.map((s) => s.selector));
+  await page.keyboard.press('Escape');
+  for (let i = 0; i <= cycle.length; i++) {
+    await page.keyboard.press('Tab');
+    const stop = await activeStop(page);
+    if (!stop || !selectors.has(stop.selector)) return true;
+  }
+  return false;
+}
+
+/** Stops where focus jumps back above the previous stop; zero-size stops are ignored */
+export function focusOrderReversals(stops: FocusStop[]): FocusStop[] {
+  const visible = stops.filter((s) => s.rect.width > 0 && s.rect.height > 0);
+  return visible.filter((stop, i) => i > 0 && stop.rect.y + stop.rect.height <= visible[i - 1].rect.y);
+}
+
+/** Stops with no style change on focus, or drawn outside the page where no indicator can be seen */
+export function invisibleFocusStops(stops: FocusStop[]): FocusStop[] {
+  return stops.filter((s) =>
+    s.indicator === false ||
+    s.rect.width === 0 || s.rect.height === 0 ||
+    s.rect.x + s.rect.width <= 0 || s.rect.y + s.rect.height <= 0
+  );
+}
+
+function toNode(element: ElementRef, failureSummary: string): AxeNodeDetail {
+  return { target: [element.selector], html: element.html, failureSummary };
+}
+
+/** Convert an audit into rule results in the same shape axe-core's are saved in */
+export function keyboardRuleResults(audit: KeyboardAudit): Pick<DetailedScanResult, 'violations' | 'passes' | 'incomplete' | 'violationDetails'> {
+  const out: Pick<DetailedScanResult, 'violations' | 'passes' | 'incomplete' | 'violationDetails'> = {
+    violations: [],
+    passes: [],
+    incomplete: [],
+    violationDetails: [],
+  };
+  const result = (ruleId: string, nodes: number): AxeRuleResult => {
+    const rule = KEYBOARD_RULES[ruleId];
+    return { ruleId, description: rule.description, impact: rule.impact, wcagTags: rule.wcagTags, nodes };
+  };
+  const fail = (ruleId: string, nodes: AxeNodeDetail[]) => {
+    const rule = KEYBOARD_RULES[ruleId];
+    out.violations.push(result(ruleId, nodes.length));
+    out.violationDetails.push({
+      ruleId,
+      description: rule.description,
+      impact: rule.impact,
+      wcagTags: rule.wcagTags,
+      help: rule.help,
+      helpUrl: rule.helpUrl,
+      nodeDetails: nodes,
+    });
+  };
+  const stops = audit.focusOrder;
+
+  if (audit.trap) {
+    fail('kbd-focus-trap', audit.trap.map((s) => toNode(s, 'Fix the following:\n  Tab and Escape cannot move focus out of this group of elements')));
+  } else if (audit.completed && stops.length > 0) {
+    out.passes.push(result('kbd-focus-trap', stops.length));
+  }
+
+  if (stops.length > 0) {
+    const invisible = invisibleFocusStops(stops);
+    if (invisible.length > 0) {
+      fail('kbd-focus-visible', invisible.map((s) => toNode(s, 'Fix the following:\n  No visible change (outline, box-shadow, border, background or text) when this element receives focus')));
+    } else {
+      out.passes.push(result('kbd-focus-visible', stops.length));
+    }
+  }
+
+  if (stops.length > 1) {
+    // Multi-column layouts move focus up legitimately, so reversals need a human look
+    const reversals = focusOrderReversals(stops);
+    out[reversals.length > 0 ? 'incomplete' : 'passes'].push(result('kbd-focus-order', reversals.length || stops.length));
+  }
+
+  if (audit.clickables.unfocusable.length > 0) {
+    fail('kbd-click-focusable', audit.clickables.unfocusable.map((e) => toNode(e, 'Fix the following:\n  Element looks clickable but cannot be reached with Tab; use a native control or add tabindex="0" and key handlers')));
+  } else if (audit.clickables.checked > 0) {
+    out.passes.push(result('kbd-click-focusable', audit.clickables.checked));
+  }
+
+  if (audit.skipLink) {
+    if (audit.skipLink.works) {
+      out.passes.push(result('kbd-skip-link', 1));
+    } else {
+      const reason = audit.skipLink.targetFound
+        ? 'Activating the skip link does not move focus to its target'
+        : 'The skip link points to an id that does not exist';
+      fail('kbd-skip-link', [toNode(audit.skipLink.link, `Fix the following:\n  ${reason}`)]);
+    }
+  }
+
+  return out;
+}
+
+/** Merge an audit into a page's scan result and record its focus order */
+export function applyKeyboardAudit(result: DetailedScanResult, audit: KeyboardAudit): void {
+  const rules = keyboardRuleResults(audit);
+  result.violations.push(...rules.violations);
+  result.passes.push(...rules.passes);
+  result.incomplete.push(...rules.incomplete);
+  result.violationDetails.push(...rules.violationDetails);
+  result.focusOrder = audit.focusOrder.map((s) => s.selector);
+}
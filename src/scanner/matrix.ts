@@ -0,0 +1,42 @@
+import { chromium, firefox, webkit, devices, type BrowserContextOptions, type BrowserType } from 'playwright';
+import type { ScanBrowser, ScanMatrix, ScanViewport } from '../types.js';
+
+/** One browser and viewport combination every URL is scanned in */
+export interface ScanVariant {
+  browser: ScanBrowser;
+  viewport: ScanViewport;
+  /** "<browser>/<viewport>", e.g. "webkit/mobile" */
+  name: string;
+}
+
+/** Playwright device each viewport emulates; desktop keeps the default 1280×720 window */
+export const VIEWPORT_DEVICES: Record<ScanViewport, string | null> = {
+  desktop: null,
+  tablet: 'iPad (gen 7)',
+  mobile: 'iPhone 13',
+};
+
+export const BROWSER_TYPES: Record<ScanBrowser, BrowserType> = { chromium, firefox, webkit };
+
+export const DEFAULT_MATRIX: ScanMatrix = { viewports: ['desktop'], browsers: ['chromium'] };
+
+/** Every browser × viewport combination, browsers outermost so each engine launches once */
+export function scanVariants(matrix: ScanMatrix): ScanVariant[] {
+  const browsers = [...new Set(matrix.browsers)];
+  const viewports = [...new Set(matrix.viewports)];
+  return browsers.flatMap((browser) =>
+    viewports.map((viewport) => ({ browser, viewport, name: `${browser}/${viewport}` }))
+  );
+}
+
+/** Context options emulating a variant's device; Firefox has no mobile emulation, so it only gets the size and user agent */
+export function variantContextOptions(variant: ScanVariant): BrowserContextOptions {
+  const device = VIEWPORT_DEVICES[variant.viewport];
+  if (!device) return {};
+  const { defaultBrowserType: _, ...options } = devices[device];
+  if (variant.browser === 'firefox') {
+    const { isMobile: _mobile, ...rest } = options;
+    return rest;
+  }
+  return options;
+}
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { readFileSync, existsSync } from 'fs';
+import type { AxeNodeDetail, ComponentOwner, OwnershipRule } from '../types.js';
+import { matchesUrlPattern } from './urlPatterns.js';
+
+const ownershipRuleSchema = z.object({
+  team: z.string().min(1),
+  component: z.string().min(1),
+  selector: z.string().min(1).optional(),
+  html: z.string().min(1).optional(),
+  urlPattern: z.string().min(1).optional(),
+}).refine((r) => r.selector || r.html || r.urlPattern, {
+  message: 'an ownership rule needs a selector, html or urlPattern',
+});
+
+const ownershipFileSchema = z.object({
+  owners: z.array(ownershipRuleSchema),
+});
+
+/** Load and validate a product's ownership file */
+export function loadOwnership(path: string): OwnershipRule[] {
+  if (!existsSync(path)) {
+    throw new Error(`Ownership file not found at ${path}`);
+  }
+  return ownershipFileSchema.parse(JSON.parse(readFileSync(path, 'utf-8'))).owners;
+}
+
+/** Owner of one violating element: the first rule whose matchers all match, or null */
+export function findOwner(rules: OwnershipRule[], url: string, node: AxeNodeDetail): ComponentOwner | null {
+  const selector = node.target.join(' > ');
+  const rule = rules.find((r) =>
+    (!r.selector || selector.includes(r.selector)) &&
+    (!r.html || node.html.includes(r.html)) &&
+    (!r.urlPattern || matchesUrlPattern(url, r.urlPattern))
+  );
+  return rule ? { team: rule.team, component: rule.component } : null;
+}
+
+/** The parts of a remediation issue that ownership grouping reads */
+interface OwnedIssue {
+  ruleId: string;
+  help: string;
+  impact: string;
+  occurrences: { url: string; nodes: unknown[]; owner?: ComponentOwner | null }[];
+}
+
+/** Findings of one team's component; `owner` is null for the unowned bucket */
+export interface OwnerGroup {
+  owner: ComponentOwner | null;
+  rules: { ruleId: string; help: string; impact: string; nodes: number }[];
+  /** Distinct pages the component breaks */
+  pages: number;
+  nodes: number;
+}
+
+/**
+ * Regroup issues by owning team and component. Components breaking the most
+ * pages come first; the unowned bucket is always last.
+ */
+export function groupIssuesByOwner(issues: OwnedIssue[]): OwnerGroup[] {
+  const groups = new Map<string, OwnerGroup & { urls: Set<string> }>();
+
+  for (const issue of issues) {
+    for (const occurrence of issue.occurrences) {
+      const owner = occurrence.owner ?? null;
+      const key = owner ? `${owner.team}\n${owner.component}` : '';
+      const group = groups.get(key) ?? { owner, rules: [], pages: 0, nodes: 0, urls: new Set<string>() };
+      let rule = group.rules.find((r) => r.ruleId === issue.ruleId);
+      if (!rule) {
+        rule = { ruleId: issue.ruleId, help: issue.help, impact: issue.impact, nodes: 0 };
+        group.rules.push(rule);
+      }
+      rule.nodes += occurrence.nodes.length;
+      group.nodes += occurrence.nodes.length;
+      group.urls.add(occurrence.url);
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()]
+    .map(({ urls, ...group }) => ({ ...group, pages: urls.size }))
+    .sort((a, b) =>
+      Number(a.owner === null) - Number(b.owner === null) ||
+      b.pages - a.pages ||
+      `${a.owner?.team}${a.owner?.component}`.localeCompare(`${b.owner?.team}${b.owner?.component}`)
+    );
+}
+
+/** "Team / Component", or "Unowned" */
+export function ownerLabel(owner: ComponentOwner | null): string {
+  return owner ? `${owner.team} / ${owner.component}` : 'Unowned';
+}
@@ -0,0 +1,40 @@
+/**
+ * Browser-side helpers shared by the audits that measure pages directly.
+ * Audit scripts are passed to `page.evaluate` as plain text: Playwright
+ * serializes functions by source, and transpiler helpers injected into
+ * nested functions would be undefined in the browser.
+ *
+ * Declares `selectorFor(el)`, a unique CSS path, and `describe(el)`, which
+ * returns an ElementRef-shaped object.
+ */
+export const ELEMENT_HELPERS = `
+  const selectorFor = (el) => {
+    const parts = [];
+    for (let node = el; node && node.nodeType === 1 && node !== document.documentElement; node = node.parentElement) {
+      if (node.id && document.querySelectorAll('#' + CSS.escape(node.id)).length === 1) {
+        parts.unshift('#' + CSS.escape(node.id));
+        break;
+      }
+      let part = node.localName;
+      const siblings = node.parentElement ? [...node.parentElement.children].filter((c) => c.localName === node.localName) : [];
+      if (siblings.length > 1) part += ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')';
+      parts.unshift(part);
+    }
+    return parts.join(' > ');
+  };
+  const describe = (el) => {
+    const r = el.getBoundingClientRect();
+    return {
+      selector: selectorFor(el),
+      html: el.outerHTML.substring(0, 300),
+      rect: { x: r.x + scrollX, y: r.y + scrollY, width: r.width, height: r.height },
+    };
+  };
+`;
+
+/** An element as seen by an audit: unique CSS path, trimmed markup and page-relative box */
+export interface ElementRef {
+  selector: string;
+  html: string;
+  rect: { x: number; y: number; width: number; height: number };
+}
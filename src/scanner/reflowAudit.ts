@@ -0,0 +1,290 @@
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import type { Page } from 'playwright';
+import type { AxeNodeDetail, AxeRuleResult, DetailedScanResult, Impact, ReflowMode } from '../types.js';
+import { ELEMENT_HELPERS, type ElementRef } from './pageScripts.js';
+import { evidenceSlug } from './evidence.js';
+
+/** What one rendering of a page looked like */
+export interface PageMeasures {
+  viewportWidth: number;
+  scrollWidth: number;
+  /** Elements pushing past the right edge of the viewport while their parent fits */
+  overflowing: ElementRef[];
+  /** Text off the left edge, or off the right edge of a page that can't scroll sideways */
+  lost: ElementRef[];
+  /** Elements with hidden overflow cutting off their text */
+  clipped: ElementRef[];
+  /** Text elements drawn over each other */
+  overlapping: ElementRef[];
+}
+
+/** A page measured as loaded and under each reflow condition */
+export interface ReflowAudit {
+  baseline: PageMeasures;
+  narrow: PageMeasures;
+  zoomed: PageMeasures;
+  spaced: PageMeasures;
+  /** Full-page screenshots of each condition, when evidence capture is on */
+  screenshots: Partial<Record<ReflowMode, string>>;
+}
+
+export interface ReflowAuditOptions {
+  timeout: number;
+  waitForSelector: string;
+  /** Evidence directory; screenshots are skipped without one */
+  evidenceDir?: string;
+  variant?: string;
+}
+
+/** 1.4.10: content must reflow at 320 CSS px wide (1280 px at 400% zoom) */
+export const REFLOW_VIEWPORT = { width: 320, height: 256 };
+
+/** The CSS viewport of a 1280×720 window zoomed to 200% */
+export const ZOOM_VIEWPORT = { width: 640, height: 360 };
+
+/** The spacing overrides from the 1.4.12 Text Spacing criterion */
+export const TEXT_SPACING_CSS = `
+* { line-height: 1.5 !important; letter-spacing: 0.12em !important; word-spacing: 0.16em !important; }
+p { margin-bottom: 2em !important; }
+`;
+
+interface ReflowRule {
+  description: string;
+  help: string;
+  helpUrl: string;
+  wcagTags: string[];
+  impact: Impact;
+}
+
+/** Rules reported by the reflow audit, alongside axe-core's own */
+export const REFLOW_RULES: Record<string, ReflowRule> = {
+  'reflow-horizontal-scroll': {
+    description: 'Ensure content fits a 320 CSS px wide viewport without horizontal scrolling',
+    help: 'Content must reflow without horizontal scrolling at 320 CSS px',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/reflow.html',
+    wcagTags: ['wcag21aa', 'wcag1410'],
+    impact: 'serious',
+  },
+  'reflow-content-lost': {
+    description: 'Ensure no content is lost from view at a 320 CSS px wide viewport',
+    help: 'Content must stay reachable at 320 CSS px',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/reflow.html',
+    wcagTags: ['wcag21aa', 'wcag1410'],
+    impact: 'serious',
+  },
+  'zoom-text-clipped': {
+    description: 'Ensure text is not clipped or overlapped when the page is zoomed to 200%',
+    help: 'Text must stay readable at 200% zoom',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/resize-text.html',
+    wcagTags: ['wcag2aa', 'wcag144'],
+    impact: 'serious',
+  },
+  'text-spacing-clipped': {
+    description: 'Ensure text is not clipped or overlapped when text spacing is increased',
+    help: 'Text must stay readable with increased text spacing',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/text-spacing.html',
+    wcagTags: ['wcag21aa', 'wcag1412'],
+    impact: 'serious',
+  },
+};
+
+const MEASURE_PAGE = `(() => {
+  ${ELEMENT_HELPERS}
+  const LIMIT = 20;
+  const root = document.documentElement;
+  const viewportWidth = root.clientWidth;
+  const scrollWidth = root.scrollWidth;
+  const canScrollX = ![getComputedStyle(root).overflowX, getComputedStyle(document.body).overflowX]
+    .some((o) => o === 'hidden' || o === 'clip');
+  const visible = (el) => {
+    const s = getComputedStyle(el);
+    return s.visibility !== 'hidden' && el.getClientRects().length > 0;
+  };
+  // Data tables and carousels may scroll inside their own container
+  const inScroller = (el) => {
+    for (let n = el.parentElement; n && n !== document.body; n = n.parentElement) {
+      const o = getComputedStyle(n).overflowX;
+      if (o === 'auto' || o === 'scroll') return true;
+    }
+    return false;
+  };
+  const all = [...document.body.querySelectorAll('*')].filter(visible);
+  const texts = all
+    .filter((el) => [...el.childNodes].some((n) => n.nodeType === 3 && n.textContent.trim()))
+    .slice(0, 1500);
+
+  const overflowing = [];
+  for (const el of all) {
+    if (overflowing.length >= LIMIT) break;
+    const r = el.getBoundingClientRect();
+    if (r.width === 0 || inScroller(el)) continue;
+    const parent = el.parentElement.getBoundingClientRect();
+    if (r.right + scrollX > viewportWidth + 1 && parent.right + scrollX <= viewportWidth + 1) overflowing.push(describe(el));
+  }
+
+  const lost = texts.filter((el) => {
+    const r = el.getBoundingClientRect();
+    if (r.width <= 1 || r.height <= 1 || inScroller(el)) return false;
+    return r.left + scrollX < -1 || (!canScrollX && r.right + scrollX > viewportWidth + 1);
+  }).slice(0, LIMIT).map(describe);
+
+  const clipped = all.filter((el) => {
+    const s = getComputedStyle(el);
+    const hides = (o) => o === 'hidden' || o === 'clip';
+    if (!hides(s.overflowX) && !hides(s.overflowY)) return false;
+    // Visually hidden screen-reader text is clipped on purpose
+    if (el.clientWidth <= 1 || el.clientHeight <= 1 || !el.textContent.trim()) return false;
+    return (hides(s.overflowX) && el.scrollWidth > el.clientWidth + 1) || (hides(s.overflowY) && el.scrollHeight > el.clientHeight + 1);
+  }).slice(0, LIMIT).map(describe);
+
+  const overlapping = [];
+  const boxes = texts.map((el) => ({ el, r: el.getBoundingClientRect() })).filter((b) => b.r.width > 1 && b.r.height > 1);
+  for (let i = 0; i < boxes.length && overlapping.length < LIMIT; i++) {
+    for (let j = i + 1; j < boxes.length; j++) {
+      const a = boxes[i], b = boxes[j];
+      if (a.el.contains(b.el) || b.el.contains(a.el)) continue;
+      const w = Math.min(a.r.right, b.r.right) - Math.max(a.r.left, b.r.left);
+      const h = Math.min(a.r.bottom, b.r.bottom) - Math.max(a.r.top, b.r.top);
+      const smaller = Math.min(a.r.width * a.r.height, b.r.width * b.r.height);
+      if (w > 0 && h > 0 && w * h > 0.25 * smaller) {
+        overlapping.push(describe(a.el));
+        break;
+      }
+    }
+  }
+
+  return { viewportWidth, scrollWidth, overflowing, lost, clipped, overlapping };
+})()`;
+
+async function reload(page: Page, options: ReflowAuditOptions): Promise<void> {
+  await page.reload({ waitUntil: 'networkidle', timeout: options.timeout });
+  await page.waitForSelector(options.waitForSelector, { timeout: options.timeout });
+}
+
+async function screenshot(page: Page, url: string, mode: ReflowMode, options: ReflowAuditOptions): Promise<string | undefined> {
+  if (!options.evidenceDir) return undefined;
+  const pageDir = join(options.evidenceDir, evidenceSlug(url, options.variant));
+  mkdirSync(pageDir, { recursive: true });
+  const path = join(pageDir, `${mode}.png`);
+  try {
+    await page.screenshot({ path, fullPage: true });
+    return path;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Re-render a page at 320 CSS px, at 200% zoom and with the 1.4.12 text
+ * spacing applied, measuring each against the page as loaded. Reloads the
+ * page several times and restores the original viewport afterwards.
+ */
+export async function auditReflow(page: Page, url: string, options: ReflowAuditOptions): Promise<ReflowAudit> {
+  const original = page.viewportSize();
+  const measure = () => page.evaluate(MEASURE_PAGE) as Promise<PageMeasures>;
+  const screenshots: ReflowAudit['screenshots'] = {};
+
+  try {
+    await reload(page, options);
+    const baseline = await measure();
+
+    await page.setViewportSize(REFLOW_VIEWPORT);
+    await reload(page, options);
+    const narrow = await measure();
+    screenshots['reflow-320'] = await screenshot(page, url, 'reflow-320', options);
+
+    await page.setViewportSize(ZOOM_VIEWPORT);
+    await reload(page, options);
+    const zoomed = await measure();
+    screenshots['zoom-200'] = await screenshot(page, url, 'zoom-200', options);
+
+    if (original) await page.setViewportSize(original);
+    await reload(page, options);
+    await page.addStyleTag({ content: TEXT_SPACING_CSS });
+    const spaced = await measure();
+    screenshots['text-spacing'] = await screenshot(page, url, 'text-spacing', options);
+
+    return { baseline, narrow, zoomed, spaced, screenshots };
+  } finally {
+    if (original) await page.setViewportSize(original);
+  }
+}
+
+/** Elements flagged under a condition that weren't already flagged as loaded */
+function newlyBroken(found: ElementRef[], baseline: ElementRef[]): ElementRef[] {
+  const known = new Set(baseline.map((e) => e.selector));
+  const seen = new Set<string>();
+  return found.filter((e) => {
+    if (known.has(e.selector) || seen.has(e.selector)) return false;
+    seen.add(e.selector);
+    return true;
+  });
+}
+
+/** Convert an audit into rule results in the same shape axe-core's are saved in */
+export function reflowRuleResults(audit: ReflowAudit): Pick<DetailedScanResult, 'violations' | 'passes' | 'incomplete' | 'violationDetails'> {
+  const out: Pick<DetailedScanResult, 'violations' | 'passes' | 'incomplete' | 'violationDetails'> = {
+    violations: [],
+    passes: [],
+    incomplete: [],
+    violationDetails: [],
+  };
+  const result = (ruleId: string, nodes: number): AxeRuleResult => {
+    const rule = REFLOW_RULES[ruleId];
+    return { ruleId, description: rule.description, impact: rule.impact, wcagTags: rule.wcagTags, nodes };
+  };
+  const check = (ruleId: string, failing: ElementRef[], summary: string, mode: ReflowMode) => {
+    if (failing.length === 0) {
+      out.passes.push(result(ruleId, 1));
+      return;
+    }
+    const rule = REFLOW_RULES[ruleId];
+    const screenshotPath = audit.screenshots[mode];
+    const nodeDetails: AxeNodeDetail[] = failing.map((e, i) => ({
+      target: [e.selector],
+      html: e.html,
+      failureSummary: `Fix the following:\n  ${summary}`,
+      // One screenshot per condition; it shows the whole page, so only the first node carries it
+      ...(i === 0 && screenshotPath ? { screenshotPath } : {}),
+    }));
+    out.violations.push(result(ruleId, nodeDetails.length));
+    out.violationDetails.push({
+      ruleId,
+      description: rule.description,
+      impact: rule.impact,
+      wcagTags: rule.wcagTags,
+      help: rule.help,
+      helpUrl: rule.helpUrl,
+      nodeDetails,
+    });
+  };
+
+  const { narrow, zoomed, spaced, baseline } = audit;
+  const scrolls = narrow.scrollWidth > narrow.viewportWidth + 1;
+  const wide = scrolls && narrow.overflowing.length === 0
+    ? [{ selector: 'html', html: '<html>', rect: { x: 0, y: 0, width: narrow.scrollWidth, height: 0 } }]
+    : narrow.overflowing;
+  check('reflow-horizontal-scroll', scrolls ? wide : [],
+    `Page is ${narrow.scrollWidth}px wide at a ${narrow.viewportWidth}px viewport; this element extends past the right edge`, 'reflow-320');
+  check('reflow-content-lost', newlyBroken(narrow.lost, baseline.lost),
+    'Text is positioned outside the viewport at 320 CSS px and cannot be scrolled into view', 'reflow-320');
+  check('zoom-text-clipped', newlyBroken([...zoomed.clipped, ...zoomed.overlapping], [...baseline.clipped, ...baseline.overlapping]),
+    'Text is clipped or overlaps other text at 200% zoom', 'zoom-200');
+  check('text-spacing-clipped', newlyBroken([...spaced.clipped, ...spaced.overlapping], [...baseline.clipped, ...baseline.overlapping]),
+    'Text is clipped or overlaps other text with increased line, letter, word and paragraph spacing', 'text-spacing');
+
+  return out;
+}
+
+/** Merge an audit into a page's scan result and record its screenshots */
+export function applyReflowAudit(result: DetailedScanResult, audit: ReflowAudit): void {
+  const rules = reflowRuleResults(audit);
+  result.violations.push(...rules.violations);
+  result.passes.push(...rules.passes);
+  result.incomplete.push(...rules.incomplete);
+  result.violationDetails.push(...rules.violationDetails);
+  if (Object.values(audit.screenshots).some(Boolean)) {
+    result.evidence = { ...result.evidence, reflowScreenshots: audit.screenshots };
+  }
+}
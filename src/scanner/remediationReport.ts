@@ -1,11 +1,31 @@
-import type { DetailedScanResult, AxeNodeDetail } from '../types.js';
+import type {
+  DetailedScanResult,
+  AxeNodeDetail,
+  WcagStandard,
+  WaivedFinding,
+  RunComparison,
+  IssueHistoryEntry,
+  ComponentOwner,
+  OwnershipRule,
+} from '../types.js';
+import { standardLabel } from '../mapping/wcagStandard.js';
+import { issueFingerprint, normalizeSelector, remediationId, trackingLabel } from '../remediation/history.js';
+import { urlTemplate } from './urlPatterns.js';
+import { findOwner, groupIssuesByOwner, ownerLabel } from './ownership.js';
+import { pageKey, variantScope } from './resultAggregator.js';
 
-interface RemediationOccurrence {
+export interface RemediationOccurrence {
   url: string;
   nodes: AxeNodeDetail[];
+  /** Set when an ownership file is applied; null means no rule matched */
+  owner?: ComponentOwner | null;
+  /** Scan variant, when the scan matrix has more than one */
+  variant?: string;
+  /** Interaction state the page was in, when not scanned as loaded */
+  state?: string;
 }
 
-interface RemediationIssue {
+export interface RemediationIssue {
   ruleId: string;
   description: string;
   impact: 'minor' | 'moderate' | 'serious' | 'critical';
@@ -14,6 +34,11 @@ interface RemediationIssue {
   helpUrl: string;
   occurrences: RemediationOccurrence[];
   totalNodes: number;
+  /** Variants the issue was found in, and how that compares to all scanned variants */
+  variants?: string[];
+  variantScope?: string;
+  /** Interaction states the issue was found in, when any */
+  states?: string[];
 }
 
 const IMPACT_ORDER: Record<string, number> = {
@@ -23,7 +48,15 @@ const IMPACT_ORDER: Record<string, number> = {
   minor: 3,
 };
 
-export function buildRemediationIssues(scanResults: DetailedScanResult[]): RemediationIssue[] {
+/**
+ * Group violations by rule. With ownership rules, a page's nodes are split
+ * into one occurrence per owning component. Results from a scan matrix or an
+ * interaction state keep their variant and state on each occurrence.
+ */
+export function buildRemediationIssues(
+  scanResults: DetailedScanResult[],
+  ownership: OwnershipRule[] = []
+): RemediationIssue[] {
   const issueMap = new Map<string, RemediationIssue>();
 
   for (const result of scanResults) {
@@ -45,19 +78,77 @@ export function buildRemediationIssues(scanResults: DetailedScanResult[]): Remed
         issueMap.set(violation.ruleId, issue);
       }
 
-      issue.occurrences.push({
-        url: result.url,
-        nodes: violation.nodeDetails,
-      });
+      const labels = {
+        ...(result.variant ? { variant: result.variant } : {}),
+        ...(result.state ? { state: result.state } : {}),
+      };
+      if (ownership.length === 0) {
+        issue.occurrences.push({
+          url: result.url,
+          nodes: violation.nodeDetails,
+          ...labels,
+        });
+      } else {
+        const byOwner = new Map<string, RemediationOccurrence>();
+        for (const node of violation.nodeDetails) {
+          const owner = findOwner(ownership, result.url, node);
+          const key = ownerLabel(owner);
+          const occurrence = byOwner.get(key) ?? { url: result.url, nodes: [], owner, ...labels };
+          occurrence.nodes.push(node);
+          byOwner.set(key, occurrence);
+        }
+        issue.occurrences.push(...byOwner.values());
+      }
       issue.totalNodes += violation.nodeDetails.length;
     }
   }
 
+  const scanned = [...new Set(scanResults.flatMap((r) => (r.variant ? [r.variant] : [])))];
+  if (scanned.length > 1) {
+    for (const issue of issueMap.values()) {
+      issue.variants = scanned.filter((v) => issue.occurrences.some((o) => o.variant === v));
+      issue.variantScope = variantScope(issue.variants, scanned);
+    }
+  }
+
+  for (const issue of issueMap.values()) {
+    const states = [...new Set(issue.occurrences.flatMap((o) => (o.state ? [o.state] : [])))];
+    if (states.length > 0) issue.states = states;
+  }
+
   return [...issueMap.values()].sort(
     (a, b) => (IMPACT_ORDER[a.impact] ?? 4) - (IMPACT_ORDER[b.impact] ?? 4)
   );
 }
 
+/** Identity of an element across pages: a shared header button has the same selector and markup everywhere */
+export function nodeSignature(node: { target: string[]; html: string }): string {
+  return `${normalizeSelector(node.target)}\n${node.html.replace(/\s+/g, ' ').trim()}`;
+}
+
+/** One element repeated across pages, with every page it was found on */
+export interface DistinctElement<N = AxeNodeDetail> {
+  signature: string;
+  node: N;
+  urls: string[];
+}
+
+/** Deduplicate an issue's occurrences by node signature, in first-seen order */
+export function distinctElements<N extends { target: string[]; html: string }>(
+  occurrences: { url: string; nodes: N[] }[]
+): DistinctElement<N>[] {
+  const elements = new Map<string, DistinctElement<N>>();
+  for (const occurrence of occurrences) {
+    for (const node of occurrence.nodes) {
+      const signature = nodeSignature(node);
+      const element = elements.get(signature) ?? { signature, node, urls: [] };
+      if (!element.urls.includes(occurrence.url)) element.urls.push(occurrence.url);
+      elements.set(signature, element);
+    }
+  }
+  return [...elements.values()];
+}
+
 export function escapeMarkdown(text: string): string {
   return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
 }
@@ -79,38 +170,57 @@ export function wcagScFromTag(tag: string): string | null {
 export function generateRemediationMarkdown(
   issues: RemediationIssue[],
   productName: string,
-  reportDate: string
+  reportDate: string,
+  standard?: WcagStandard,
+  waived: WaivedFinding[] = [],
+  comparison?: RunComparison
 ): string {
   const lines: string[] = [];
 
   lines.push(`# Remediation Report: ${productName}`);
   lines.push(`**Date:** ${reportDate}`);
   lines.push('');
+  if (standard) {
+    lines.push(`**Standard:** ${standardLabel(standard)}`);
+    lines.push('');
+  }
 
   // Summary table by impact
-  const impactGroups: Record<string, { rules: number; nodes: number }> = {};
+  const impactGroups: Record<string, { rules: number; nodes: number; distinct: number }> = {};
   for (const issue of issues) {
-    const group = impactGroups[issue.impact] ?? { rules: 0, nodes: 0 };
+    const group = impactGroups[issue.impact] ?? { rules: 0, nodes: 0, distinct: 0 };
     group.rules++;
     group.nodes += issue.totalNodes;
+    group.distinct += distinctElements(issue.occurrences).length;
     impactGroups[issue.impact] = group;
   }
 
   lines.push('## Summary');
   lines.push('');
-  lines.push('| Impact | Rules | Occurrences |');
-  lines.push('|--------|-------|-------------|');
+  lines.push('| Impact | Rules | Occurrences | Distinct Elements |');
+  lines.push('|--------|-------|-------------|-------------------|');
   for (const level of ['critical', 'serious', 'moderate', 'minor']) {
     const group = impactGroups[level];
     if (group) {
-      lines.push(`| ${level} | ${group.rules} | ${group.nodes} |`);
+      lines.push(`| ${level} | ${group.rules} | ${group.nodes} | ${group.distinct} |`);
     }
   }
   lines.push('');
 
+  if (comparison?.previousRun) {
+    const counts = { new: 0, open: 0, regressed: 0 };
+    for (const tracking of comparison.issues.values()) counts[tracking.status]++;
+    lines.push(`**Since last run (${comparison.previousRun}):** ${counts.new} new, ${counts.open} still open, ${counts.regressed} regressed, ${comparison.resolved.length} finding(s) resolved`);
+    lines.push('');
+  }
+
   if (issues.length === 0) {
     lines.push('No violations found.');
-    return lines.join('\n');
+    lines.push('');
+  }
+
+  if (issues.some((issue) => issue.occurrences.some((o) => o.owner !== undefined))) {
+    lines.push(...generateOwnerSection(issues));
   }
 
   // Group issues by impact for section headings
@@ -127,21 +237,46 @@ export function generateRemediationMarkdown(
       .filter((sc): sc is string => sc !== null);
     const wcagLabel = wcagScs.length > 0 ? wcagScs.join(', ') : 'best-practice';
 
+    const distinct = distinctElements(issue.occurrences).length;
     lines.push(`<details>`);
-    lines.push(`<summary><strong>${issue.ruleId}</strong> — ${escapeMarkdown(issue.help)} (${issue.totalNodes} occurrences)</summary>`);
+    lines.push(`<summary><strong>${issue.ruleId}</strong> — ${escapeMarkdown(issue.help)} (${issue.totalNodes} occurrences, ${distinct} distinct elements)</summary>`);
     lines.push('');
+    lines.push(`- **ID:** ${remediationId(issue.ruleId)}`);
+    const tracking = comparison?.issues.get(issue.ruleId);
+    if (tracking) {
+      lines.push(`- **Status:** ${trackingLabel(tracking)}`);
+    }
     lines.push(`- **Impact:** ${issue.impact}`);
     lines.push(`- **WCAG:** ${wcagLabel}`);
+    if (issue.variants) {
+      lines.push(`- **Variants:** ${issue.variants.join(', ')} (${issue.variantScope})`);
+    }
+    if (issue.states) {
+      lines.push(`- **States:** ${issue.states.map(escapeMarkdown).join(', ')}`);
+    }
     lines.push(`- **Description:** ${escapeMarkdown(issue.description)}`);
     lines.push(`- **Help:** [${escapeMarkdown(issue.help)}](${issue.helpUrl})`);
     lines.push('');
 
+    // Elements already listed for an earlier page are only counted, not repeated
+    const listed = new Set<string>();
     for (const occurrence of issue.occurrences) {
-      lines.push(`### ${escapeMarkdown(occurrence.url)}`);
+      const owner = occurrence.owner === undefined ? '' : ` — ${escapeMarkdown(ownerLabel(occurrence.owner))}`;
+      const variant = occurrence.variant ? ` (${occurrence.variant})` : '';
+      const state = occurrence.state ? ` [state: ${escapeMarkdown(occurrence.state)}]` : '';
+      lines.push(`### ${escapeMarkdown(occurrence.url)}${variant}${state}${owner}`);
       lines.push('');
+      const fresh = occurrence.nodes.filter((node) => !listed.has(nodeSignature(node)));
+      const repeated = occurrence.nodes.length - fresh.length;
+      if (repeated > 0) {
+        lines.push(`_${repeated} element(s) already listed for an earlier page._`);
+        lines.push('');
+      }
+      if (fresh.length === 0) continue;
       lines.push('| Selector | HTML | Fix |');
       lines.push('|----------|------|-----|');
-      for (const node of occurrence.nodes) {
+      for (const node of fresh) {
+        listed.add(nodeSignature(node));
         const selector = escapeMarkdown(node.target.join(' > '));
         const html = escapeHtml(node.html);
         const fix = escapeMarkdown(node.failureSummary);
@@ -154,5 +289,213 @@ export function generateRemediationMarkdown(
     lines.push('');
   }
 
+  if (comparison && comparison.resolved.length > 0) {
+    lines.push(...generateResolvedSection(comparison.resolved));
+  }
+
+  if (waived.length > 0) {
+    lines.push(...generateWaivedSection(waived));
+  }
+
   return lines.join('\n');
 }
+
+/** Findings grouped by owning team and component, with the unowned bucket last */
+function generateOwnerSection(issues: RemediationIssue[]): string[] {
+  const lines: string[] = [];
+  lines.push('## By Owner');
+  lines.push('');
+  lines.push('| Team | Component | Rules | Occurrences | Pages Broken |');
+  lines.push('|------|-----------|-------|-------------|--------------|');
+  const groups = groupIssuesByOwner(issues);
+  for (const group of groups) {
+    const team = escapeMarkdown(group.owner?.team ?? 'Unowned');
+    const component = escapeMarkdown(group.owner?.component ?? '—');
+    lines.push(`| ${team} | ${component} | ${group.rules.length} | ${group.nodes} | ${group.pages} |`);
+  }
+  lines.push('');
+  for (const group of groups) {
+    lines.push(`**${escapeMarkdown(ownerLabel(group.owner))}:** ${group.rules.map((r) => `${r.ruleId} (${r.nodes})`).join(', ')}`);
+    lines.push('');
+  }
+  return lines;
+}
+
+const SARIF_LEVELS: Record<RemediationIssue['impact'], 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  serious: 'error',
+  moderate: 'warning',
+  minor: 'note',
+};
+
+/**
+ * SARIF 2.1.0 log for code-scanning dashboards: one rule per issue and one
+ * result per page and element. Pages are reported as artifact URIs and
+ * selectors as logical locations.
+ */
+export function generateSarif(issues: RemediationIssue[], toolVersion = '1.0.0'): string {
+  const rules = issues.map((issue) => {
+    const wcagScs = issue.wcagTags.map(wcagScFromTag).filter((sc): sc is string => sc !== null);
+    return {
+      id: issue.ruleId,
+      shortDescription: { text: issue.help },
+      fullDescription: { text: issue.description },
+      helpUri: issue.helpUrl,
+      help: { text: `${issue.help}. See ${issue.helpUrl}` },
+      defaultConfiguration: { level: SARIF_LEVELS[issue.impact] },
+      properties: {
+        tags: ['accessibility', ...wcagScs.map((sc) => `WCAG ${sc}`)],
+        impact: issue.impact,
+      },
+    };
+  });
+
+  const results = issues.flatMap((issue, ruleIndex) =>
+    issue.occurrences.flatMap((occurrence) =>
+      occurrence.nodes.map((node) => ({
+        ruleId: issue.ruleId,
+        ruleIndex,
+        level: SARIF_LEVELS[issue.impact],
+        message: { text: `${issue.help}: ${node.failureSummary}` },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: occurrence.url },
+            region: { snippet: { text: node.html } },
+          },
+          logicalLocations: [{ fullyQualifiedName: node.target.join(' > '), kind: 'element' }],
+        }],
+        partialFingerprints: {
+          'accessibilityFinding/v1': issueFingerprint(issue.ruleId, normalizeSelector(node.target), urlTemplate(occurrence.url)),
+        },
+      }))
+    )
+  );
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: 'vpat-automation', version: toolVersion, rules } },
+      results,
+    }],
+  };
+  return JSON.stringify(log, null, 2) + '\n';
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * JUnit XML for test-report tooling: one testsuite per page and one testcase per
+ * axe rule. Violations are failures, incomplete rules are skipped for manual
+ * review, and pages that failed to load are errors.
+ */
+export function generateJunitXml(scanResults: DetailedScanResult[], productName: string): string {
+  const suites: string[] = [];
+  let totals = { tests: 0, failures: 0, errors: 0, skipped: 0 };
+
+  for (const result of scanResults) {
+    const cases: string[] = [];
+    const counts = { tests: 0, failures: 0, errors: 0, skipped: 0 };
+    const url = escapeXml(pageKey(result));
+
+    if (result.status !== 'ok') {
+      counts.tests++;
+      counts.errors++;
+      const message = result.status === 'http-error' ? `http-error (${result.httpStatus})` : result.status;
+      cases.push(`    <testcase name="page-load" classname="${url}">`);
+      cases.push(`      <error message="${escapeXml(message)}">${escapeXml(result.error ?? '')}</error>`);
+      cases.push('    </testcase>');
+    }
+
+    const outcomes = [
+      ...result.violations.map((r) => ({ ruleId: r.ruleId, outcome: 'fail' as const })),
+      ...result.incomplete.map((r) => ({ ruleId: r.ruleId, outcome: 'review' as const })),
+      ...result.passes.map((r) => ({ ruleId: r.ruleId, outcome: 'pass' as const })),
+    ].sort((a, b) => a.ruleId.localeCompare(b.ruleId));
+
+    for (const { ruleId, outcome } of outcomes) {
+      counts.tests++;
+      const open = `    <testcase name="${escapeXml(ruleId)}" classname="${url}"`;
+      if (outcome === 'pass') {
+        cases.push(`${open}/>`);
+        continue;
+      }
+      if (outcome === 'review') {
+        counts.skipped++;
+        cases.push(`${open}>`);
+        cases.push('      <skipped message="Needs manual review"/>');
+        cases.push('    </testcase>');
+        continue;
+      }
+
+      counts.failures++;
+      const violation = result.violations.find((v) => v.ruleId === ruleId)!;
+      const detail = result.violationDetails.find((d) => d.ruleId === ruleId);
+      const message = `${detail?.help ?? violation.description} (${violation.nodes} element(s), ${violation.impact ?? 'unknown'} impact)`;
+      const body = (detail?.nodeDetails ?? [])
+        .map((node) => `${node.target.join(' > ')}\n${node.failureSummary}`)
+        .join('\n\n');
+      cases.push(`${open}>`);
+      cases.push(`      <failure message="${escapeXml(message)}" type="${violation.impact ?? 'unknown'}">${escapeXml(body)}</failure>`);
+      cases.push('    </testcase>');
+    }
+
+    suites.push(
+      `  <testsuite name="${url}" tests="${counts.tests}" failures="${counts.failures}" errors="${counts.errors}" skipped="${counts.skipped}" timestamp="${escapeXml(result.timestamp)}">`,
+      ...cases,
+      '  </testsuite>'
+    );
+    totals = {
+      tests: totals.tests + counts.tests,
+      failures: totals.failures + counts.failures,
+      errors: totals.errors + counts.errors,
+      skipped: totals.skipped + counts.skipped,
+    };
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(productName)} accessibility" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" skipped="${totals.skipped}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/** "Resolved since last run" section: findings from the history that no longer occur */
+export function generateResolvedSection(resolved: IssueHistoryEntry[]): string[] {
+  const lines: string[] = [];
+  lines.push('## Resolved Since Last Run');
+  lines.push('');
+  lines.push('| Rule | Element | Page template | First seen |');
+  lines.push('|------|---------|---------------|------------|');
+  for (const entry of resolved) {
+    lines.push(`| ${entry.ruleId} | \`${escapeMarkdown(entry.selector)}\` | ${escapeMarkdown(entry.urlTemplate)} | ${entry.firstSeen} |`);
+  }
+  lines.push('');
+  return lines;
+}
+
+/** "Waived" section: findings removed by suppressions, with who accepted them and until when */
+export function generateWaivedSection(waived: WaivedFinding[]): string[] {
+  const lines: string[] = [];
+  lines.push('## Waived');
+  lines.push('');
+  lines.push('These findings match an active suppression and are excluded from scoring.');
+  lines.push('');
+  lines.push('| Rule | Page | Elements | Reason | Owner | Expires |');
+  lines.push('|------|------|----------|--------|-------|---------|');
+  for (const finding of waived) {
+    const { reason, owner, expires } = finding.suppression;
+    lines.push(`| ${finding.ruleId} | ${escapeMarkdown(finding.url)} | ${finding.nodes.length} | ${escapeMarkdown(reason)} | ${escapeMarkdown(owner)} | ${expires} |`);
+  }
+  lines.push('');
+  return lines;
+}
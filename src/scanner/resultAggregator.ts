@@ -1,4 +1,38 @@
-import type { ScanResult, WcagScResult } from '../types.js';
+import type { ScanResult, WcagScResult, AxeRuleAggregate, Impact } from '../types.js';
+
+/** Impacts from least to most severe */
+export const IMPACT_ORDER: Impact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+/** The more severe of two impacts */
+export function worseImpact(a: Impact | null, b: Impact | null): Impact | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return IMPACT_ORDER.indexOf(a) >= IMPACT_ORDER.indexOf(b) ? a : b;
+}
+
+/** Distinguishes the same URL scanned in different variants or interaction states when counting pages */
+export function pageKey(result: Pick<ScanResult, 'url' | 'variant' | 'state'>): string {
+  const variant = result.variant ? ` (${result.variant})` : '';
+  const state = result.state ? ` [${result.state}]` : '';
+  return `${result.url}${variant}${state}`;
+}
+
+/**
+ * Describe which variants an issue appears in relative to those scanned:
+ * "mobile only", "firefox only", "all variants" or "2 of 6 variants".
+ */
+export function variantScope(failing: string[], scanned: string[]): string {
+  const failingSet = new Set(failing);
+  if (scanned.every((v) => failingSet.has(v))) return 'all variants';
+
+  const parts: string[] = [];
+  for (const index of [1, 0]) {
+    const all = new Set(scanned.map((v) => v.split('/')[index]));
+    const hit = [...new Set(failing.map((v) => v.split('/')[index]))];
+    if (hit.length < all.size) parts.push(`${hit.join(' and ')} only`);
+  }
+  return parts.length > 0 ? parts.join(', ') : `${failingSet.size} of ${scanned.length} variants`;
+}
 
 /** Extract WCAG SC numbers from axe-core tags like "wcag111" → "1.1.1" */
 export function parseWcagTag(tag: string): string | null {
@@ -8,16 +42,41 @@ export function parseWcagTag(tag: string): string | null {
   return `${match[1]}.${match[2]}.${match[3]}`;
 }
 
-/** Aggregate scan results across all URLs into per-WCAG-SC verdicts */
-export function aggregateResults(scanResults: ScanResult[]): Map<string, WcagScResult> {
+/** Whether a page failed to load (results saved before scan status existed count as scanned) */
+export function isFailedScan(result: ScanResult): boolean {
+  return result.status !== undefined && result.status !== 'ok';
+}
+
+/** Pages that failed to scan, and their share of all scanned pages */
+export function summarizeScanFailures(scanResults: ScanResult[]): {
+  failed: ScanResult[];
+  failureRate: number;
+} {
+  const failed = scanResults.filter(isFailedScan);
+  return {
+    failed,
+    failureRate: scanResults.length > 0 ? failed.length / scanResults.length : 0,
+  };
+}
+
+/**
+ * Aggregate scan results across all URLs into per-WCAG-SC verdicts; failed pages are excluded.
+ * Pages are counted by URL, so browser/viewport variants and interaction states of one URL
+ * count once; the variants and states with violations are reported separately.
+ */
+export function aggregateResults(allScanResults: ScanResult[]): Map<string, WcagScResult> {
+  const scanResults = allScanResults.filter((r) => !isFailedScan(r));
   const scMap = new Map<string, {
-    violations: Map<string, string[]>; // url → descriptions
+    violations: Map<string, string[]>; // URL → descriptions
     passes: Set<string>;
     incomplete: Set<string>;
     allIssues: string[];
+    variants: Set<string>;
+    states: Set<string>;
   }>();
 
   for (const result of scanResults) {
+    const page = result.url;
     // Process violations
     for (const v of result.violations) {
       for (const tag of v.wcagTags) {
@@ -25,14 +84,16 @@ export function aggregateResults(scanResults: ScanResult[]): Map<string, WcagScR
         if (!sc) continue;
 
         if (!scMap.has(sc)) {
-          scMap.set(sc, { violations: new Map(), passes: new Set(), incomplete: new Set(), allIssues: [] });
+          scMap.set(sc, { violations: new Map(), passes: new Set(), incomplete: new Set(), allIssues: [], variants: new Set(), states: new Set() });
         }
         const entry = scMap.get(sc)!;
-        if (!entry.violations.has(result.url)) {
-          entry.violations.set(result.url, []);
+        if (!entry.violations.has(page)) {
+          entry.violations.set(page, []);
         }
-        entry.violations.get(result.url)!.push(v.description);
+        entry.violations.get(page)!.push(v.description);
         entry.allIssues.push(v.description);
+        if (result.variant) entry.variants.add(result.variant);
+        if (result.state) entry.states.add(result.state);
       }
     }
 
@@ -43,9 +104,9 @@ export function aggregateResults(scanResults: ScanResult[]): Map<string, WcagScR
         if (!sc) continue;
 
         if (!scMap.has(sc)) {
-          scMap.set(sc, { violations: new Map(), passes: new Set(), incomplete: new Set(), allIssues: [] });
+          scMap.set(sc, { violations: new Map(), passes: new Set(), incomplete: new Set(), allIssues: [], variants: new Set(), states: new Set() });
         }
-        scMap.get(sc)!.passes.add(result.url);
+        scMap.get(sc)!.passes.add(page);
       }
     }
 
@@ -56,14 +117,15 @@ export function aggregateResults(scanResults: ScanResult[]): Map<string, WcagScR
         if (!sc) continue;
 
         if (!scMap.has(sc)) {
-          scMap.set(sc, { violations: new Map(), passes: new Set(), incomplete: new Set(), allIssues: [] });
+          scMap.set(sc, { violations: new Map(), passes: new Set(), incomplete: new Set(), allIssues: [], variants: new Set(), states: new Set() });
         }
-        scMap.get(sc)!.incomplete.add(result.url);
+        scMap.get(sc)!.incomplete.add(page);
       }
     }
   }
 
   // Build final results
+  const totalUrls = new Set(scanResults.map((r) => r.url)).size;
   const results = new Map<string, WcagScResult>();
   for (const [sc, data] of scMap) {
     const totalViolations = Array.from(data.violations.values())
@@ -86,10 +148,94 @@ export function aggregateResults(scanResults: ScanResult[]): Map<string, WcagScR
       status,
       totalViolations,
       urlsWithViolations: data.violations.size,
-      totalUrls: scanResults.length,
+      totalUrls,
       topIssues: uniqueIssues.slice(0, 3),
+      ...(data.variants.size > 0 ? { failingVariants: [...data.variants] } : {}),
+      ...(data.states.size > 0 ? { failingStates: [...data.states] } : {}),
     });
   }
 
   return results;
 }
+
+/**
+ * Aggregate scan results per axe rule. Kept alongside the per-SC verdicts so
+ * questions can be scored by their mapped rules — including best-practice
+ * rules that carry no WCAG SC tag. Pages are counted by URL as in `aggregateResults`.
+ */
+export function aggregateRuleResults(allScanResults: ScanResult[]): Map<string, AxeRuleAggregate> {
+  const scanResults = allScanResults.filter((r) => !isFailedScan(r));
+  const rules = new Map<string, AxeRuleAggregate & {
+    failing: Set<string>;
+    passing: Set<string>;
+    incomplete: Set<string>;
+    variants: Set<string>;
+    states: Set<string>;
+  }>();
+  const totalUrls = new Set(scanResults.map((r) => r.url)).size;
+
+  const entryFor = (ruleId: string, description: string, wcagTags: string[]) => {
+    let entry = rules.get(ruleId);
+    if (!entry) {
+      entry = {
+        ruleId,
+        description,
+        status: 'pass',
+        wcagScs: [],
+        failingUrls: [],
+        violationNodes: 0,
+        passingNodes: 0,
+        worstImpact: null,
+        passingUrls: 0,
+        incompleteUrls: 0,
+        totalUrls,
+        failing: new Set(),
+        passing: new Set(),
+        incomplete: new Set(),
+        variants: new Set(),
+        states: new Set(),
+      };
+      rules.set(ruleId, entry);
+    }
+    if (!entry.description && description) entry.description = description;
+    for (const tag of wcagTags) {
+      const sc = parseWcagTag(tag);
+      if (sc && !entry.wcagScs.includes(sc)) entry.wcagScs.push(sc);
+    }
+    return entry;
+  };
+
+  for (const result of scanResults) {
+    const page = result.url;
+    for (const v of result.violations) {
+      const entry = entryFor(v.ruleId, v.description, v.wcagTags);
+      entry.failing.add(page);
+      if (result.variant) entry.variants.add(result.variant);
+      if (result.state) entry.states.add(result.state);
+      entry.violationNodes += v.nodes;
+      entry.worstImpact = worseImpact(entry.worstImpact, v.impact);
+    }
+    for (const p of result.passes) {
+      const entry = entryFor(p.ruleId, p.description, p.wcagTags);
+      entry.passing.add(page);
+      entry.passingNodes += p.nodes;
+    }
+    for (const inc of result.incomplete) {
+      entryFor(inc.ruleId, inc.description, inc.wcagTags).incomplete.add(page);
+    }
+  }
+
+  const results = new Map<string, AxeRuleAggregate>();
+  for (const [ruleId, { failing, passing, incomplete, variants, states, ...entry }] of rules) {
+    results.set(ruleId, {
+      ...entry,
+      ...(variants.size > 0 ? { failingVariants: [...variants] } : {}),
+      ...(states.size > 0 ? { failingStates: [...states] } : {}),
+      status: failing.size > 0 ? 'fail' : incomplete.size > 0 ? 'incomplete' : 'pass',
+      failingUrls: [...failing],
+      passingUrls: passing.size,
+      incompleteUrls: incomplete.size,
+    });
+  }
+  return results;
+}
@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, renameSync } from 'fs';
+import { dirname, join } from 'path';
+import type { DetailedScanResult, ScanRun, VpatConfig } from '../types.js';
+import { pageKey } from './resultAggregator.js';
+
+/** Hash of everything that changes what a scan finds; concurrency only changes how fast */
+export function scanSettingsHash(config: VpatConfig): string {
+  const { concurrency: _, ...scanOptions } = config.scanOptions;
+  const settings = { scanOptions, axeTags: config.axeTags, states: config.states, auth: config.auth };
+  return createHash('sha1').update(JSON.stringify(settings)).digest('hex').slice(0, 16);
+}
+
+/** Store a page's results under the hash of their content and return the hash */
+export function writeCachedResults(cacheDir: string, results: DetailedScanResult[]): string {
+  const content = JSON.stringify(results);
+  const hash = createHash('sha1').update(content).digest('hex');
+  const dir = join(cacheDir, 'results');
+  const path = join(dir, `${hash}.json`);
+  if (!existsSync(path)) {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(path, content);
+  }
+  return hash;
+}
+
+export function readCachedResults(cacheDir: string, hash: string): DetailedScanResult[] {
+  const path = join(cacheDir, 'results', `${hash}.json`);
+  if (!existsSync(path)) {
+    throw new Error(`Cached scan results ${hash} not found in ${cacheDir}`);
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as DetailedScanResult[];
+}
+
+/** Manifest path for a run: <cacheDir>/runs/<product>-<timestamp>.json */
+export function scanRunPath(cacheDir: string, product: string, timestamp: string): string {
+  return join(cacheDir, 'runs', `${product.toLowerCase()}-${timestamp}.json`);
+}
+
+/** Written via a temporary file so a crash mid-write never leaves a truncated manifest */
+export function saveScanRun(path: string, run: ScanRun): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(`${path}.tmp`, JSON.stringify(run, null, 2) + '\n');
+  renameSync(`${path}.tmp`, path);
+}
+
+/**
+ * The product's most recent unfinished run with the same scan settings, if any.
+ * Manifest names sort by start time, so the last match is the newest.
+ */
+export function findResumableRun(
+  cacheDir: string,
+  product: string,
+  settings: string
+): { path: string; run: ScanRun } | null {
+  const runsDir = join(cacheDir, 'runs');
+  if (!existsSync(runsDir)) return null;
+  const prefix = `${product.toLowerCase()}-`;
+  const names = readdirSync(runsDir).filter((f) => f.startsWith(prefix) && f.endsWith('.json')).sort().reverse();
+  for (const name of names) {
+    const path = join(runsDir, name);
+    const run = JSON.parse(readFileSync(path, 'utf-8')) as ScanRun;
+    if (run.product === product && !run.completed && run.settings === settings) {
+      return { path, run };
+    }
+  }
+  return null;
+}
+
+/** Load every cached result of a run, in the order the pages finished */
+export function loadScanRunResults(cacheDir: string, run: ScanRun): DetailedScanResult[] {
+  return run.entries.flatMap((entry) => readCachedResults(cacheDir, entry.hash));
+}
+
+/** Page keys (URL plus variant) a run has already scanned */
+export function scannedPages(run: ScanRun): Set<string> {
+  return new Set(run.entries.map(pageKey));
+}
+
+/**
+ * Cache a finished page and add it to the run manifest right away, so a crash
+ * loses at most the pages in flight. Failed pages are not recorded and are
+ * scanned again on resume.
+ */
+export function recordScannedPage(cacheDir: string, runPath: string, run: ScanRun, results: DetailedScanResult[]): void {
+  const [page] = results;
+  if (!page || page.status !== 'ok') return;
+  const hash = writeCachedResults(cacheDir, results);
+  run.entries.push({ url: page.url, ...(page.variant ? { variant: page.variant } : {}), hash });
+  saveScanRun(runPath, run);
+}
@@ -0,0 +1,44 @@
+import { XMLParser } from 'fast-xml-parser';
+
+const parser = new XMLParser({ ignoreAttributes: true, isArray: (name) => name === 'url' || name === 'sitemap' });
+
+/** Page URLs and nested sitemap URLs listed in a sitemap or sitemap index */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const doc = parser.parse(xml);
+  const locs = (entries: any[] | undefined): string[] =>
+    (entries ?? [])
+      .map((e) => (typeof e?.loc === 'string' ? e.loc.trim() : ''))
+      .filter((loc) => loc.length > 0);
+
+  return {
+    urls: locs(doc?.urlset?.url),
+    sitemaps: locs(doc?.sitemapindex?.sitemap),
+  };
+}
+
+/** Fetch a sitemap (following sitemap indexes) and return up to `limit` page URLs */
+export async function fetchSitemapUrls(
+  sitemapUrl: string,
+  limit: number,
+  fetchImpl: typeof fetch = fetch
+): Promise<string[]> {
+  const urls: string[] = [];
+  const queue = [sitemapUrl];
+  const seen = new Set<string>();
+
+  while (queue.length > 0 && urls.length < limit) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+
+    const response = await fetchImpl(next);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch sitemap ${next}: HTTP ${response.status}`);
+    }
+    const parsed = parseSitemap(await response.text());
+    urls.push(...parsed.urls);
+    queue.push(...parsed.sitemaps);
+  }
+
+  return urls.slice(0, limit);
+}
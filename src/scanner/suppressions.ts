@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { readFileSync, existsSync } from 'fs';
+import type {
+  AxeNodeDetail,
+  AxeRuleResult,
+  DetailedScanResult,
+  Suppression,
+  WaivedFinding,
+} from '../types.js';
+import { matchesUrlPattern } from './urlPatterns.js';
+
+const suppressionSchema = z.object({
+  ruleId: z.string().min(1).optional(),
+  urlPattern: z.string().min(1).optional(),
+  selector: z.string().min(1).optional(),
+  reason: z.string().min(1),
+  owner: z.string().min(1),
+  expires: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expires must be a YYYY-MM-DD date'),
+}).refine((s) => s.ruleId || s.urlPattern || s.selector, {
+  message: 'a suppression needs a ruleId, urlPattern or selector',
+});
+
+const suppressionsFileSchema = z.object({
+  suppressions: z.array(suppressionSchema),
+});
+
+/** Load and validate a product's suppressions file */
+export function loadSuppressions(path: string): Suppression[] {
+  if (!existsSync(path)) {
+    throw new Error(`Suppressions file not found at ${path}`);
+  }
+  return suppressionsFileSchema.parse(JSON.parse(readFileSync(path, 'utf-8'))).suppressions;
+}
+
+/** A waiver lapses at the end of its expiry day */
+export function isExpired(suppression: Suppression, today: Date = new Date()): boolean {
+  return suppression.expires < today.toISOString().slice(0, 10);
+}
+
+/** Whether a suppression covers one violating node; selectors match as a substring of the node's target */
+export function matchesSuppression(
+  suppression: Suppression,
+  ruleId: string,
+  url: string,
+  node: AxeNodeDetail
+): boolean {
+  if (suppression.ruleId && suppression.ruleId !== ruleId) return false;
+  if (suppression.urlPattern && !matchesUrlPattern(url, suppression.urlPattern)) return false;
+  if (suppression.selector && !node.target.join(' > ').includes(suppression.selector)) return false;
+  return true;
+}
+
+export interface SuppressionOutcome {
+  /** Scan results with waived nodes removed */
+  results: DetailedScanResult[];
+  waived: WaivedFinding[];
+  /** Waivers past their expiry date; they no longer suppress anything */
+  expired: Suppression[];
+}
+
+/**
+ * Remove waived nodes from scan results before aggregation and reporting.
+ * A rule whose every node on a page is waived counts as a pass on that page.
+ */
+export function applySuppressions(
+  scanResults: DetailedScanResult[],
+  suppressions: Suppression[],
+  today: Date = new Date()
+): SuppressionOutcome {
+  const expired = suppressions.filter((s) => isExpired(s, today));
+  const active = suppressions.filter((s) => !isExpired(s, today));
+  if (active.length === 0) {
+    return { results: scanResults, waived: [], expired };
+  }
+
+  const waived: WaivedFinding[] = [];
+  const results = scanResults.map((result) => {
+    const waivedNodes = new Map<string, number>(); // ruleId → nodes waived on this page
+
+    const violationDetails = result.violationDetails.flatMap((violation) => {
+      const kept: AxeNodeDetail[] = [];
+      for (const node of violation.nodeDetails) {
+        const suppression = active.find((s) => matchesSuppression(s, violation.ruleId, result.url, node));
+        if (!suppression) {
+          kept.push(node);
+          continue;
+        }
+        let finding = waived.find((w) => w.suppression === suppression && w.url === result.url && w.ruleId === violation.ruleId
+          && w.variant === result.variant && w.state === result.state);
+        if (!finding) {
+          finding = {
+            suppression,
+            url: result.url,
+            ...(result.variant ? { variant: result.variant } : {}),
+            ...(result.state ? { state: result.state } : {}),
+            ruleId: violation.ruleId,
+            impact: violation.impact,
+            help: violation.help,
+            nodes: [],
+          };
+          waived.push(finding);
+        }
+        finding.nodes.push(node);
+        waivedNodes.set(violation.ruleId, (waivedNodes.get(violation.ruleId) ?? 0) + 1);
+      }
+      return kept.length > 0 ? [{ ...violation, nodeDetails: kept }] : [];
+    });
+
+    if (waivedNodes.size === 0) return result;
+
+    const violations: AxeRuleResult[] = [];
+    const passes = [...result.passes];
+    for (const violation of result.violations) {
+      const remaining = violation.nodes - (waivedNodes.get(violation.ruleId) ?? 0);
+      if (remaining > 0) {
+        violations.push({ ...violation, nodes: remaining });
+      } else if (!passes.some((p) => p.ruleId === violation.ruleId)) {
+        passes.push({ ...violation, nodes: 0 });
+      }
+    }
+
+    return { ...result, violations, passes, violationDetails };
+  });
+
+  return { results, waived, expired };
+}
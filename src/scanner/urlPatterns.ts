@@ -0,0 +1,94 @@
+/** Convert a glob (`*` within a path segment, `**` across segments, `?` one char) to a RegExp */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (ch === '*') {
+      pattern += '[^/]*';
+    } else if (ch === '?') {
+      pattern += '.';
+    } else {
+      pattern += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Match a URL against a glob. Patterns containing "://" match the full URL;
+ * others match the path plus query string (e.g. "/reports/**").
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (pattern.includes('://')) {
+    return globToRegExp(pattern).test(url);
+  }
+  let target: string;
+  try {
+    const parsed = new URL(url);
+    target = parsed.pathname + parsed.search;
+  } catch {
+    target = url;
+  }
+  return globToRegExp(pattern).test(target);
+}
+
+/** True when the URL passes the include list (empty = everything) and hits no exclude */
+export function isUrlAllowed(url: string, include: string[], exclude: string[]): boolean {
+  if (include.length > 0 && !include.some((p) => matchesUrlPattern(url, p))) return false;
+  return !exclude.some((p) => matchesUrlPattern(url, p));
+}
+
+const ID_SEGMENT_PATTERNS = [
+  /^\d+$/, // numeric IDs
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, // UUIDs
+  /^[0-9a-f]{12,}$/i, // hashes / object IDs
+];
+
+function isIdSegment(segment: string): boolean {
+  return ID_SEGMENT_PATTERNS.some((p) => p.test(segment));
+}
+
+/**
+ * Collapse a URL to its page template by replacing ID-like path segments and
+ * query values with ":id" — e.g. /15978/558785/d and /15978/558742/d both
+ * become /:id/:id/d. Query keys are sorted so parameter order does not matter.
+ */
+export function urlTemplate(url: string): string {
+  const parsed = new URL(url);
+  const path = parsed.pathname
+    .split('/')
+    .map((segment) => (isIdSegment(segment) ? ':id' : segment))
+    .join('/');
+
+  const params = [...parsed.searchParams.entries()]
+    .map(([key, value]) => `${key}=${isIdSegment(value) ? ':id' : value}`)
+    .sort();
+
+  return `${parsed.origin}${path}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+/** A page template and the discovered URLs that share it */
+export interface UrlTemplateGroup {
+  template: string;
+  urls: string[];
+}
+
+/** Group URLs by template, preserving discovery order within and across groups */
+export function groupUrlsByTemplate(urls: string[]): UrlTemplateGroup[] {
+  const groups = new Map<string, string[]>();
+  for (const url of urls) {
+    const template = urlTemplate(url);
+    const group = groups.get(template) ?? [];
+    group.push(url);
+    groups.set(template, group);
+  }
+  return [...groups.entries()].map(([template, groupUrls]) => ({ template, urls: groupUrls }));
+}
+
+/** Pick the first N URLs from each template group */
+export function sampleTemplates(groups: UrlTemplateGroup[], samplesPerTemplate: number): string[] {
+  return groups.flatMap((g) => g.urls.slice(0, samplesPerTemplate));
+}
@@ -1,3 +1,5 @@
+export type Impact = 'minor' | 'moderate' | 'serious' | 'critical';
+
 /** Axe-core violation/pass/incomplete result for a single rule on a single URL */
 export interface AxeRuleResult {
   ruleId: string;
@@ -7,10 +9,23 @@ export interface AxeRuleResult {
   nodes: number; // count of affected nodes
 }
 
+/** Outcome of loading a page for scanning */
+export type ScanStatus = 'ok' | 'timeout' | 'navigation-error' | 'http-error' | 'auth-redirect' | 'state-error';
+
 /** Full scan result for a single URL */
 export interface ScanResult {
   url: string;
   timestamp: string;
+  /** Whether the page loaded and was analyzed — failed pages carry no rule results */
+  status: ScanStatus;
+  /** Response status code when status is 'http-error' */
+  httpStatus?: number;
+  /** Error message when the scan failed */
+  error?: string;
+  /** "<browser>/<viewport>" when the scan matrix has more than one combination */
+  variant?: string;
+  /** Name of the scripted interaction state the page was put in before analysis */
+  state?: string;
   violations: AxeRuleResult[];
   passes: AxeRuleResult[];
   incomplete: AxeRuleResult[];
@@ -21,6 +36,8 @@ export interface AxeNodeDetail {
   target: string[];
   html: string;
   failureSummary: string;
+  /** Element screenshot captured during the scan, if evidence capture was on */
+  screenshotPath?: string;
 }
 
 /** Extended violation detail with per-node info */
@@ -34,9 +51,151 @@ export interface AxeViolationDetail {
   nodeDetails: AxeNodeDetail[];
 }
 
+/** Files captured for a page when evidence capture is on */
+export interface PageEvidence {
+  /** Full-page screenshot */
+  screenshotPath?: string;
+  /** Playwright ARIA snapshot of the page body */
+  accessibilityTreePath?: string;
+  /** Full-page screenshots taken by the reflow audit */
+  reflowScreenshots?: Partial<Record<ReflowMode, string>>;
+}
+
+/** Conditions the reflow audit renders a page under */
+export type ReflowMode = 'reflow-320' | 'zoom-200' | 'text-spacing';
+
 /** Scan result with detailed violation data for remediation reports */
 export interface DetailedScanResult extends ScanResult {
   violationDetails: AxeViolationDetail[];
+  evidence?: PageEvidence;
+  /** Selectors in the order Tab reached them, when the keyboard audit ran */
+  focusOrder?: string[];
+}
+
+/** Known-issue waiver or false-positive suppression; at least one matcher is set */
+export interface Suppression {
+  ruleId?: string;
+  /** Glob matched like discovery include/exclude patterns */
+  urlPattern?: string;
+  /** Substring of the violating node's CSS selector */
+  selector?: string;
+  reason: string;
+  owner: string;
+  /** Last day the waiver applies (YYYY-MM-DD) */
+  expires: string;
+}
+
+/** Maps elements to the team and shared component that own them; at least one matcher is set */
+export interface OwnershipRule {
+  team: string;
+  component: string;
+  /** Substring of the element's CSS selector */
+  selector?: string;
+  /** Substring of the element's HTML */
+  html?: string;
+  /** Glob matched like discovery include/exclude patterns */
+  urlPattern?: string;
+}
+
+export interface ComponentOwner {
+  team: string;
+  component: string;
+}
+
+/** Violating nodes on one page removed by a suppression */
+export interface WaivedFinding {
+  suppression: Suppression;
+  url: string;
+  variant?: string;
+  state?: string;
+  ruleId: string;
+  impact: Impact | null;
+  help: string;
+  nodes: AxeNodeDetail[];
+}
+
+/** Thresholds checked by `--ci`; null disables a gate */
+export interface CiGatesConfig {
+  maxCritical: number | null;
+  maxSerious: number | null;
+  /** Earlier `--scan-only` results; any rule failing on a page it passed there fails the build */
+  baselinePath: string | null;
+  /** Passing questions as a percentage of scored questions */
+  minPassingPercent: number | null;
+}
+
+/** Issue tracker REST endpoint that `--sync-issues` keeps up to date */
+export interface TrackerConfig {
+  /** Base URL; issues live under `<endpoint>/issues` */
+  endpoint: string;
+  /** Environment variable holding the bearer token */
+  tokenEnv: string;
+  /** Component the product's issues are filed under; defaults to the product name */
+  component?: string;
+}
+
+/** Lifecycle of a remediation finding across runs */
+export type IssueStatus = 'new' | 'open' | 'regressed' | 'resolved';
+
+/** One finding (rule + element + page template) as remembered between runs */
+export interface IssueHistoryEntry {
+  fingerprint: string;
+  ruleId: string;
+  /** Selector with positional indexes and generated ids normalized away */
+  selector: string;
+  urlTemplate: string;
+  /** Scan variant and interaction state the finding was seen in, when not the page as loaded */
+  variant?: string;
+  state?: string;
+  help: string;
+  impact: Impact | null;
+  status: IssueStatus;
+  /** Run dates (YYYY-MM-DD) */
+  firstSeen: string;
+  lastSeen: string;
+  resolvedOn?: string;
+}
+
+/** Persisted run-over-run history of a product's remediation findings */
+export interface IssueHistory {
+  product: string;
+  /** Dates of the runs recorded so far, oldest first */
+  runs: string[];
+  entries: IssueHistoryEntry[];
+}
+
+/** Lifecycle of one remediation item (a rule) in the current run */
+export interface IssueTracking {
+  status: Exclude<IssueStatus, 'resolved'>;
+  firstSeen: string;
+}
+
+/** The current run compared with the stored history */
+export interface RunComparison {
+  /** Previous run date, or null on the first tracked run */
+  previousRun: string | null;
+  /** Keyed by rule id */
+  issues: Map<string, IssueTracking>;
+  /** Findings open in an earlier run that are gone now */
+  resolved: IssueHistoryEntry[];
+}
+
+/** A page's results in the scan cache, stored under the hash of their content */
+export interface ScanRunEntry {
+  url: string;
+  variant?: string;
+  /** Content hash of the results file; covers the page and each of its interaction states */
+  hash: string;
+}
+
+/** Manifest of one scan run, written after every page so an interrupted run can resume */
+export interface ScanRun {
+  product: string;
+  startedAt: string;
+  /** Hash of the settings that affect scan results; a run only resumes with the same settings */
+  settings: string;
+  completed: boolean;
+  entries: ScanRunEntry[];
 }
 
 /** Aggregated verdict for a single WCAG Success Criterion across all URLs */
@@ -47,12 +206,65 @@ export interface WcagScResult {
   status: 'pass' | 'fail' | 'incomplete';
   /** Total violations across all URLs */
   totalViolations: number;
-  /** Number of URLs with violations */
+  /** Number of distinct URLs with violations in any variant or state */
   urlsWithViolations: number;
-  /** Total URLs scanned */
+  /** Distinct URLs scanned */
   totalUrls: number;
   /** Top violation descriptions for comments */
   topIssues: string[];
+  /** Scan variants with violations, when results carry variants */
+  failingVariants?: string[];
+  /** Interaction states with violations, when results carry states */
+  failingStates?: string[];
+}
+
+/** Where a question's score came from */
+export type ScoreSource = 'scan' | 'template' | 'carry-forward' | 'ai' | 'manual';
+
+/** Aggregated verdict for a single axe rule across all URLs */
+export interface AxeRuleAggregate {
+  ruleId: string;
+  description: string;
+  status: 'pass' | 'fail' | 'incomplete';
+  /** WCAG SCs the rule is tagged with (empty for best-practice rules) */
+  wcagScs: string[];
+  /** Distinct URLs where the rule found violations in any variant or state */
+  failingUrls: string[];
+  /** Violating nodes across all URLs */
+  violationNodes: number;
+  /** Passing nodes across all URLs */
+  passingNodes: number;
+  /** Most severe impact among violations, null when the rule has none */
+  worstImpact: Impact | null;
+  /** Number of distinct URLs where the rule passed */
+  passingUrls: number;
+  /** Number of distinct URLs where the rule needs review */
+  incompleteUrls: number;
+  /** Distinct URLs scanned */
+  totalUrls: number;
+  /** Scan variants where the rule found violations, when results carry variants */
+  failingVariants?: string[];
+  /** Interaction states where the rule found violations, when results carry states */
+  failingStates?: string[];
+}
+
+/** Scan evidence behind an automated score */
+export interface QuestionVerdict {
+  conformance: 'Supports' | 'Partially Supports' | 'Does Not Support';
+  /** Pages where any of the question's rules failed */
+  affectedPages: number;
+  totalPages: number;
+  worstImpact: Impact | null;
+  failingNodes: number;
+  passingNodes: number;
+}
+
+/** When a failing question counts as Partially Supports, and what it earns */
+export interface ScoringConfig {
+  /** Score (0-1) given to partially supported questions */
+  partialCredit: number;
+  /** Per worst impact: largest share of affected pages (0-1) still rated Partially Supports */
+  partialThresholds: Record<Impact, number>;
 }
 
 /** Score for a single question in the VPAT template */
@@ -63,7 +275,7 @@ export interface QuestionScore {
   tableIndex: number;
   /** Question text from template */
   questionText: string;
-  /** 1 = supports, 0 = does not support, null = N/A */
+  /** 1 = supports, 0 = does not support, a fraction = partially supports, null = N/A */
   score: number | null;
   /** Weight from template (1-3) */
   weight: number;
@@ -73,6 +285,34 @@ export interface QuestionScore {
   comment: string;
   /** Whether this was auto-scored or needs manual review */
   automatable: boolean;
+  /** Scan evidence for automated scores */
+  verdict?: QuestionVerdict;
+  /** Success criteria the question covers, from the question mapping */
+  wcagScs?: string[];
+  /** Question covers only criteria outside the report's target standard */
+  outOfScope?: boolean;
+  /** Origin of the score; absent while the question awaits review */
+  source?: ScoreSource;
+  /** Stable ID from the question mapping */
+  questionId?: string;
+  /** The reviewer's answer behind a 'manual' score */
+  manualAnswer?: ManualAnswer;
+  /** A manual answer past its validUntil date; it was not applied */
+  staleAnswer?: ManualAnswer;
+}
+
+/** An auditor's answer to a question, kept outside the Word file so it survives re-runs */
+export interface ManualAnswer {
+  /** 1 = supports, 0 = does not support, a fraction = partially supports */
+  score: number;
+  comment: string;
+  reviewer: string;
+  /** YYYY-MM-DD */
+  reviewedOn: string;
+  /** Links to recordings, screenshots or test notes backing the answer */
+  evidence: string[];
+  /** Last day the answer is trusted (YYYY-MM-DD); after that the question needs review again */
+  validUntil: string;
 }
 
 /** Parsed question row from the DOCX template */
@@ -125,6 +365,101 @@ export interface ParsedProduct {
   tables: ParsedTable[];
 }
 
+/** Scripted form login, run once per product before scanning */
+export interface FormLoginConfig {
+  loginUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  /** Environment variable holding the username */
+  usernameEnv: string;
+  /** Environment variable holding the password */
+  passwordEnv: string;
+  /** Selector that appears once login succeeded (defaults to waiting for navigation away from loginUrl) */
+  successSelector?: string;
+}
+
+/** Cookie added to every scan context */
+export interface AuthCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+}
+
+/** How to authenticate scan contexts */
+export interface AuthConfig {
+  formLogin?: FormLoginConfig;
+  /** Playwright storageState file saved from an earlier session */
+  storageStatePath?: string;
+  headers: Record<string, string>;
+  cookies: AuthCookie[];
+  /** URL substring identifying the login screen (defaults to formLogin.loginUrl's path) */
+  loginUrlPattern?: string;
+}
+
+/** Site crawl / sitemap settings for URL discovery */
+export interface DiscoveryConfig {
+  /** Crawl same-origin links from this page */
+  startUrl?: string;
+  /** Seed pages from this sitemap.xml (sitemap indexes are followed) */
+  sitemapUrl?: string;
+  maxDepth: number;
+  maxPages: number;
+  /** Glob patterns a URL must match (empty = all) */
+  include: string[];
+  /** Glob patterns that drop a URL */
+  exclude: string[];
+  /** URLs scanned per page template */
+  samplesPerTemplate: number;
+  /** Sidecar file holding the discovered URL list */
+  outputPath: string;
+}
+
+/** What to capture as evidence while scanning */
+export interface EvidenceOptions {
+  screenshots: boolean;
+  elementScreenshots: boolean;
+  accessibilityTree: boolean;
+  /** Cap on element screenshots per page */
+  maxElementScreenshots: number;
+}
+
+export type ScanBrowser = 'chromium' | 'firefox' | 'webkit';
+export type ScanViewport = 'desktop' | 'tablet' | 'mobile';
+
+/** Every URL is scanned once per browser × viewport combination */
+export interface ScanMatrix {
+  viewports: ScanViewport[];
+  browsers: ScanBrowser[];
+}
+
+/** One scripted action on the page; selectors are Playwright selectors */
+export type InteractionStep =
+  | { action: 'click'; selector: string }
+  | { action: 'fill'; selector: string; value: string }
+  | { action: 'press'; key: string; selector?: string }
+  | { action: 'hover'; selector: string }
+  | { action: 'wait'; selector?: string; ms?: number };
+
+/** A named page state (open dialog, expanded menu, form with errors) reached by running steps after load */
+export interface InteractionState {
+  name: string;
+  steps: InteractionStep[];
+}
+
+/** Tab-traversal audit run after axe-core on each page */
+export interface KeyboardAuditOptions {
+  enabled: boolean;
+  /** Tab presses before the traversal gives up */
+  maxTabStops: number;
+}
+
+/** Reflow, zoom and text-spacing audit run after axe-core on each page */
+export interface ReflowOptions {
+  enabled: boolean;
+}
+
 /** Configuration for a scan run */
 export interface VpatConfig {
   product: string;
@@ -133,12 +468,114 @@ export interface VpatConfig {
   outputPath: string;
   productSectionIndex: number;
   urls: string[];
+  /** Whether `urls` came from the config itself or from the discovery sidecar */
+  urlSource: 'static' | 'discovered';
+  discovery: DiscoveryConfig | null;
+  /** Interaction states to scan per URL, from object entries in `urls` */
+  states: Record<string, InteractionState[]>;
   scanOptions: {
     concurrency: number;
     timeout: number;
     waitForSelector: string;
+    /** Fraction of pages (0-1) allowed to fail before the run stops */
+    maxFailureRate: number;
+    evidence: EvidenceOptions;
+    keyboard: KeyboardAuditOptions;
+    reflow: ReflowOptions;
+    matrix: ScanMatrix;
   };
   carryForwardPath: string | null;
+  /** Per-product suppressions file, or null for none */
+  suppressionsPath: string | null;
+  ownershipPath: string | null;
+  /** Per-product manual answers (YAML or JSON), or null for none */
+  manualAnswersPath: string | null;
+  /** Run-over-run issue history; defaults to <output dir>/<product>-history.json */
+  historyPath?: string;
+  /** Content-addressed scan results and run manifests; defaults to <output dir>/scan-cache */
+  cacheDir?: string;
+  ci: CiGatesConfig;
+  tracker: TrackerConfig | null;
+  auth: AuthConfig | null;
+  standard: WcagStandard;
+  /** axe-core tags to scan with: the `standard`'s tags, or every legacy tag when the config names no standard */
+  axeTags: string[];
+  scoring: ScoringConfig;
+  /** ITI VPAT 2.5 edition to emit alongside the ACR, or null for none */
+  vpatEdition: VpatEdition | null;
+}
+
+export type WcagVersion = '2.0' | '2.1' | '2.2';
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+/** Target WCAG version and conformance level for a report */
+export interface WcagStandard {
+  version: WcagVersion;
+  level: WcagLevel;
+}
+
+/** ITI VPAT 2.5 editions: WCAG only, Revised Section 508, EN 301 549, or all three */
+export type VpatEdition = 'wcag' | '508' | 'eu' | 'int';
+
+/** ITI conformance terms */
+export type ConformanceLevel =
+  | 'Supports'
+  | 'Partially Supports'
+  | 'Does Not Support'
+  | 'Not Applicable'
+  | 'Not Evaluated';
+
+/** One row of a VPAT conformance table */
+export interface ConformanceRow {
+  /** Criterion id as printed, e.g. "1.1.1", "302.1", "9.1.1.1" */
+  id: string;
+  name: string;
+  /** WCAG level, for success-criterion rows */
+  level?: WcagLevel;
+  /** null for heading rows, which need no response */
+  conformance: ConformanceLevel | null;
+  remarks: string;
+}
+
+/** Row definition in vpat-tables.json */
+export interface VpatTableRowDef {
+  id: string;
+  name: string;
+  /** Heading rows group the rows below them and need no response */
+  heading?: boolean;
+  /** Conformance is rolled up from these WCAG success criteria */
+  wcagScs?: string[];
+  /** Fixed conformance, e.g. Not Applicable for hardware requirements */
+  conformance?: ConformanceLevel;
+  remarks?: string;
+}
+
+/** Chapter of the Section 508 or EN 301 549 tables in vpat-tables.json */
+export interface VpatChapterDef {
+  id: string;
+  title: string;
+  /** Printed instead of a table for chapters that do not apply to web content */
+  note?: string;
+  /** Rows generated from this WCAG standard's criteria, numbered with `idPrefix` */
+  wcag?: WcagStandard;
+  idPrefix?: string;
+  rows?: VpatTableRowDef[];
+}
+
+export interface VpatTablesDef {
+  section508: VpatChapterDef[];
+  en301549: VpatChapterDef[];
+}
+
+/** Entry in wcag-criteria.json */
+export interface WcagCriterion {
+  sc: string;
+  name: string;
+  level: WcagLevel;
+  /** WCAG version that introduced the criterion */
+  version: WcagVersion;
+  /** WCAG version that removed the criterion (4.1.1 Parsing) */
+  removedIn?: WcagVersion;
 }
 
 /** Entry in axe-to-wcag.json mapping */
@@ -154,7 +591,10 @@ export interface WcagToQuestionEntry {
   wcagSc: string;
   sectionName: string;
   questions: {
+    /** Stable question ID that manual answers are keyed by; never renumber or reuse one */
+    id: string;
     questionText: string;
+    wcagScs: string[]; // success criteria the question covers, e.g. ["1.4.3"]
     rowIndices: Record<string, number>; // category table name → row index
     axeRules: string[];
     automatable: boolean;
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { diffAcrProducts, parseScoreCell } from '../src/diff/acrDiff.js';
+import { buildAcrDiffSections } from '../src/diff/diffReport.js';
+import type { ParsedProduct, ParsedRow } from '../src/types.js';
+
+const question = (rowIndex: number, questionText: string, score = '', comment = ''): ParsedRow => ({
+  rowIndex,
+  type: 'question',
+  cells: [],
+  questionText,
+  weight: 2,
+  score,
+  weightedScore: '',
+  comment,
+});
+
+const makeProduct = (rows: ParsedRow[], name = 'Test'): ParsedProduct => ({
+  name,
+  productIndex: 0,
+  standardsTableIndex: 0,
+  tables: [{ tableIndex: 1, category: 'perceivable', rows: [{ rowIndex: 1, type: 'section', cells: [], sectionName: '1.1: Non-Text Content' }, ...rows] }],
+});
+
+describe('parseScoreCell', () => {
+  it('parses numeric scores and treats * and blank as unscored', () => {
+    expect(parseScoreCell(' 0.5 ')).toBe(0.5);
+    expect(parseScoreCell('*')).toBeNull();
+    expect(parseScoreCell('')).toBeNull();
+  });
+});
+
+describe('diffAcrProducts', () => {
+  it('classifies score and comment changes per question', () => {
+    const before = makeProduct([
+      question(2, 'Images have alternative text', '0', 'Missing alt on logos'),
+      question(3, 'Form inputs have labels', '1', 'OK'),
+      question(4, 'Reading order is logical', '*'),
+      question(5, 'Captions are provided', '1', 'Videos captioned'),
+    ]);
+    const after = makeProduct([
+      question(2, 'Images have alternative text', '1', 'Fixed'),
+      question(3, 'Form inputs have labels', '1', 'Reviewed by QA'),
+      question(4, 'Reading order is logical', '1'),
+      question(5, 'Captions are provided', '1', 'Videos captioned'),
+    ]);
+
+    const diff = diffAcrProducts(before, after);
+    expect(diff.changes.map((c) => [c.questionText, c.kind])).toEqual([
+      ['Images have alternative text', 'improved'],
+      ['Form inputs have labels', 'comment'],
+      ['Reading order is logical', 'score'],
+    ]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('reports added and removed questions', () => {
+    const before = makeProduct([question(2, 'A retired question about flashing content', '1')]);
+    const after = makeProduct([question(2, 'Target size is at least 24 by 24 pixels', '0')]);
+
+    const kinds = diffAcrProducts(before, after).changes.map((c) => c.kind);
+    expect(kinds).toEqual(['added', 'removed']);
+  });
+
+  it('computes category subtotals from weighted scores', () => {
+    const before = makeProduct([question(2, 'Images have alternative text', '0'), question(3, 'Form inputs have labels', '1')]);
+    const after = makeProduct([question(2, 'Images have alternative text', '1'), question(3, 'Form inputs have labels', '1')]);
+
+    const perceivable = diffAcrProducts(before, after).subtotals.find((s) => s.category === 'perceivable')!;
+    expect(perceivable.before).toEqual({ earned: 2, possible: 4 });
+    expect(perceivable.after).toEqual({ earned: 4, possible: 4 });
+  });
+});
+
+describe('buildAcrDiffSections', () => {
+  it('summarizes subtotals and groups changes', () => {
+    const before = makeProduct([question(2, 'Images have alternative text', '1')]);
+    const after = makeProduct([question(2, 'Images have alternative text', '0', 'Regressed in new editor')]);
+
+    const sections = buildAcrDiffSections(diffAcrProducts(before, after));
+    expect(sections[0].paragraphs![0]).toContain('1 declined');
+    expect(sections[1].table!.rows[0]).toEqual(['Perceivable', '2/2 (100%)', '0/2 (0%)', '-100 pts']);
+    expect(sections.map((s) => s.title)).toContain('Declined Scores');
+  });
+});
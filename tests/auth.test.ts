@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { isLoginRedirect, loginUrlPattern } from '../src/scanner/auth.js';
+import type { AuthConfig } from '../src/types.js';
+
+const formAuth: AuthConfig = {
+  formLogin: {
+    loginUrl: 'https://app.example.com/account/login?next=/',
+    usernameSelector: '#email',
+    passwordSelector: '#password',
+    submitSelector: 'button',
+    usernameEnv: 'VPAT_USER',
+    passwordEnv: 'VPAT_PASS',
+  },
+  headers: {},
+  cookies: [],
+};
+
+describe('loginUrlPattern', () => {
+  it('uses the form login path by default', () => {
+    expect(loginUrlPattern(formAuth)).toBe('/account/login');
+  });
+
+  it('prefers an explicit pattern', () => {
+    expect(loginUrlPattern({ ...formAuth, loginUrlPattern: '/sso/' })).toBe('/sso/');
+  });
+
+  it('returns null without auth or a login screen', () => {
+    expect(loginUrlPattern(null)).toBeNull();
+    expect(loginUrlPattern({ headers: { Authorization: 'Bearer x' }, cookies: [] })).toBeNull();
+  });
+});
+
+describe('isLoginRedirect', () => {
+  it('flags pages that landed on the login screen', () => {
+    expect(isLoginRedirect(
+      'https://app.example.com/admin/docs',
+      'https://app.example.com/account/login?next=/admin/docs',
+      formAuth
+    )).toBe(true);
+  });
+
+  it('does not flag pages that loaded normally', () => {
+    expect(isLoginRedirect('https://app.example.com/admin/docs', 'https://app.example.com/admin/docs', formAuth)).toBe(false);
+  });
+
+  it('does not flag the login page itself', () => {
+    expect(isLoginRedirect(
+      'https://app.example.com/account/login',
+      'https://app.example.com/account/login',
+      formAuth
+    )).toBe(false);
+  });
+
+  it('never flags when auth is not configured', () => {
+    expect(isLoginRedirect('https://a.com/x', 'https://a.com/account/login', null)).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { buildCarryForwardScores, buildCarryForwardReport } from '../src/mapping/carryForward.js';
+import type { ParsedProduct, ParsedRow, QuestionScore } from '../src/types.js';
+
+const question = (rowIndex: number, questionText: string, score = '', comment = ''): ParsedRow => ({
+  rowIndex,
+  type: 'question',
+  cells: [],
+  questionText,
+  weight: 2,
+  score,
+  weightedScore: '',
+  comment,
+});
+
+const makeProduct = (tableIndex: number, rows: ParsedRow[]): ParsedProduct => ({
+  name: 'Test',
+  productIndex: 0,
+  standardsTableIndex: tableIndex - 1,
+  tables: [{ tableIndex, category: 'perceivable', rows }],
+});
+
+describe('buildCarryForwardScores', () => {
+  it('carries scores by position when the question text matches', () => {
+    const previous = makeProduct(6, [question(2, 'Reading order is logical', '1', 'Reviewed by QA')]);
+    const current = makeProduct(1, [question(2, 'Reading order is logical')]);
+
+    const { scores, moved, dropped } = buildCarryForwardScores(previous, current);
+    expect(scores.get('1:2')).toMatchObject({ score: 1, comment: 'Reviewed by QA', weightedScore: 2 });
+    expect(moved.size).toBe(0);
+    expect(dropped).toHaveLength(0);
+  });
+
+  it('matches by question text when the row layout changed', () => {
+    const previous = makeProduct(1, [
+      question(2, 'Reading order is logical', '0', 'Tab order skips the footer'),
+    ]);
+    const current = makeProduct(1, [
+      question(2, 'A brand new question about captions'),
+      question(3, 'Reading order is logical'),
+    ]);
+
+    const { scores, moved } = buildCarryForwardScores(previous, current);
+    expect(scores.has('1:2')).toBe(false);
+    expect(scores.get('1:3')?.score).toBe(0);
+    expect(moved.get('1:3')).toBe('perceivable row 2');
+  });
+
+  it('skips unscored rows and drops answers for removed questions', () => {
+    const previous = makeProduct(1, [
+      question(2, 'Reading order is logical', '*'),
+      question(3, 'Sign language video is provided for media', '1'),
+    ]);
+    const current = makeProduct(1, [question(2, 'Reading order is logical')]);
+
+    const { scores, dropped } = buildCarryForwardScores(previous, current);
+    expect(scores.size).toBe(0);
+    expect(dropped).toEqual([
+      { questionText: 'Sign language video is provided for media', previousScore: '1', reason: 'Question no longer in template' },
+    ]);
+  });
+});
+
+describe('buildCarryForwardReport', () => {
+  const final = (rowIndex: number, overrides: Partial<QuestionScore>): QuestionScore => ({
+    rowIndex,
+    tableIndex: 1,
+    questionText: `Question ${rowIndex}`,
+    score: null,
+    weight: 2,
+    weightedScore: null,
+    comment: '',
+    automatable: false,
+    ...overrides,
+  });
+
+  it('reports carried answers and explains unused ones', () => {
+    const previous = makeProduct(1, [
+      question(2, 'Question 2', '1'),
+      question(3, 'Question 3', '0'),
+      question(4, 'Question 4', '1'),
+    ]);
+    const current = makeProduct(1, [
+      question(2, 'Question 2'),
+      question(3, 'Question 3'),
+      question(4, 'Question 4'),
+    ]);
+    const carryForward = buildCarryForwardScores(previous, current);
+
+    const report = buildCarryForwardReport(carryForward, [
+      final(2, { score: 1, source: 'carry-forward' }),
+      final(3, { score: 1, automatable: true, source: 'scan' }),
+      final(4, { score: 0, source: 'template' }),
+    ]);
+
+    expect(report.carried.map((c) => c.questionText)).toEqual(['Question 2']);
+    expect(report.dropped.map((d) => d.reason)).toEqual([
+      'Now scored automatically by scan',
+      'Template already has a score',
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { loadConfig } from '../src/config.js';
+import { loadConfig, discoveredUrlsPath, mergeDiscoveredUrls } from '../src/config.js';
+import { axeTagsForStandard } from '../src/mapping/wcagStandard.js';
 import { writeFileSync, mkdirSync, rmSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
@@ -45,6 +46,9 @@ describe('loadConfig', () => {
     expect(config.scanOptions.concurrency).toBe(3);
     expect(config.scanOptions.timeout).toBe(60000);
     expect(config.scanOptions.waitForSelector).toBe('body');
+    expect(config.scanOptions.maxFailureRate).toBe(0.2);
+    expect(config.scanOptions.keyboard).toEqual({ enabled: false, maxTabStops: 200 });
+    expect(config.scanOptions.reflow).toEqual({ enabled: false });
   });
 
   it('applies default carryForwardPath as null', () => {
@@ -53,6 +57,30 @@ describe('loadConfig', () => {
     expect(config.carryForwardPath).toBeNull();
   });
 
+  it('applies default CI gates', () => {
+    const path = writeConfig(validConfig);
+    const config = loadConfig(path);
+    expect(config.ci).toEqual({ maxCritical: 0, maxSerious: null, baselinePath: null, minPassingPercent: null });
+  });
+
+  it('applies default suppressionsPath as null', () => {
+    const path = writeConfig(validConfig);
+    const config = loadConfig(path);
+    expect(config.suppressionsPath).toBeNull();
+  });
+
+  it('applies default ownershipPath as null', () => {
+    const path = writeConfig(validConfig);
+    const config = loadConfig(path);
+    expect(config.ownershipPath).toBeNull();
+  });
+
+  it('applies default manualAnswersPath as null', () => {
+    const path = writeConfig(validConfig);
+    const config = loadConfig(path);
+    expect(config.manualAnswersPath).toBeNull();
+  });
+
   it('respects explicit scanOptions', () => {
     const path = writeConfig({
       ...validConfig,
@@ -64,6 +92,156 @@ describe('loadConfig', () => {
     expect(config.scanOptions.waitForSelector).toBe('#app');
   });
 
+  it('throws on maxFailureRate outside 0-1', () => {
+    const path = writeConfig({ ...validConfig, scanOptions: { maxFailureRate: 1.5 } });
+    expect(() => loadConfig(path)).toThrow();
+  });
+
+  it('applies default auth as null', () => {
+    const path = writeConfig(validConfig);
+    expect(loadConfig(path).auth).toBeNull();
+  });
+
+  it('parses form login auth with defaults for headers and cookies', () => {
+    const path = writeConfig({
+      ...validConfig,
+      auth: {
+        formLogin: {
+          loginUrl: 'https://example.com/login',
+          usernameSelector: '#email',
+          passwordSelector: '#password',
+          submitSelector: 'button[type=submit]',
+          usernameEnv: 'VPAT_USER',
+          passwordEnv: 'VPAT_PASS',
+        },
+        cookies: [{ name: 'tenant', value: 'heroville', domain: 'example.com' }],
+      },
+    });
+    const config = loadConfig(path);
+    expect(config.auth!.formLogin!.usernameEnv).toBe('VPAT_USER');
+    expect(config.auth!.headers).toEqual({});
+    expect(config.auth!.cookies[0].path).toBe('/');
+  });
+
+  it('throws on form login without credential env vars', () => {
+    const path = writeConfig({
+      ...validConfig,
+      auth: {
+        formLogin: {
+          loginUrl: 'https://example.com/login',
+          usernameSelector: '#email',
+          passwordSelector: '#password',
+          submitSelector: 'button',
+        },
+      },
+    });
+    expect(() => loadConfig(path)).toThrow();
+  });
+
+  it('marks static URLs as the URL source', () => {
+    const path = writeConfig(validConfig);
+    const config = loadConfig(path);
+    expect(config.urlSource).toBe('static');
+    expect(config.discovery).toBeNull();
+  });
+
+  it('allows missing urls when discovery is configured and the sidecar exists', () => {
+    const { urls, ...withoutUrls } = validConfig;
+    const path = writeConfig({ ...withoutUrls, discovery: { startUrl: 'https://example.com' } });
+    writeFileSync(discoveredUrlsPath(path), JSON.stringify({ urls: ['https://example.com/a'] }));
+
+    const config = loadConfig(path);
+    expect(config.urlSource).toBe('discovered');
+    expect(config.urls).toEqual(['https://example.com/a']);
+    expect(config.discovery!.maxDepth).toBe(2);
+    expect(config.discovery!.samplesPerTemplate).toBe(3);
+  });
+
+  it('falls back to static urls before discovery has run', () => {
+    const path = writeConfig({ ...validConfig, discovery: { sitemapUrl: 'https://example.com/sitemap.xml' } });
+    const config = loadConfig(path);
+    expect(config.urlSource).toBe('static');
+    expect(config.urls).toEqual(['https://example.com']);
+  });
+
+  it('throws when discovery has no urls and no sidecar yet', () => {
+    const { urls, ...withoutUrls } = validConfig;
+    const path = writeConfig({ ...withoutUrls, discovery: { startUrl: 'https://example.com' } });
+    expect(() => loadConfig(path)).toThrow('run discovery first');
+  });
+
+  it('throws on discovery without a seed', () => {
+    const path = writeConfig({ ...validConfig, discovery: { maxPages: 10 } });
+    expect(() => loadConfig(path)).toThrow();
+  });
+
+  it('defaults the target standard to WCAG 2.1 Level AA', () => {
+    const config = loadConfig(writeConfig(validConfig));
+    expect(config.standard).toEqual({ version: '2.1', level: 'AA' });
+  });
+
+  it('scans an unconfigured product with the legacy axe-core tag set', () => {
+    const config = loadConfig(writeConfig(validConfig));
+    expect(config.axeTags).toEqual(['wcag2a', 'wcag2aa', 'wcag2aaa', 'wcag21a', 'wcag21aa', 'wcag22aa']);
+  });
+
+  it('scans only the configured standard\'s tags', () => {
+    const config = loadConfig(writeConfig({ ...validConfig, standard: { version: '2.1', level: 'AA' } }));
+    expect(config.axeTags).toEqual(axeTagsForStandard(config.standard));
+    expect(config.axeTags).not.toContain('wcag2aaa');
+  });
+
+  it('defaults vpatEdition to null and accepts known editions', () => {
+    expect(loadConfig(writeConfig(validConfig)).vpatEdition).toBeNull();
+    expect(loadConfig(writeConfig({ ...validConfig, vpatEdition: '508' })).vpatEdition).toBe('508');
+    expect(() => loadConfig(writeConfig({ ...validConfig, vpatEdition: 'ca' }))).toThrow();
+  });
+
+  it('scores pass/fail only without a scoring block', () => {
+    expect(loadConfig(writeConfig(validConfig)).scoring).toEqual({
+      partialCredit: 0,
+      partialThresholds: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+    });
+  });
+
+  it('applies default partial-support scoring', () => {
+    const config = loadConfig(writeConfig({ ...validConfig, scoring: { partialThresholds: { serious: 0.1 } } }));
+    expect(config.scoring).toEqual({
+      partialCredit: 0.5,
+      partialThresholds: { critical: 0, serious: 0.1, moderate: 0.5, minor: 1 },
+    });
+  });
+
+  it('throws on an unknown WCAG version', () => {
+    const path = writeConfig({ ...validConfig, standard: { version: '3.0', level: 'AA' } });
+    expect(() => loadConfig(path)).toThrow();
+  });
+
+  it('splits url entries with interaction states into urls and states', () => {
+    const dialog = { name: 'dialog', steps: [{ action: 'click', selector: '#open' }] };
+    const path = writeConfig({
+      ...validConfig,
+      urls: ['https://example.com', { url: 'https://example.com/contact', states: [dialog] }],
+    });
+    const config = loadConfig(path);
+    expect(config.urls).toEqual(['https://example.com', 'https://example.com/contact']);
+    expect(config.states).toEqual({ 'https://example.com/contact': [dialog] });
+  });
+
+  it('throws on a wait step without a selector or ms', () => {
+    const path = writeConfig({
+      ...validConfig,
+      urls: [{ url: 'https://example.com', states: [{ name: 'menu', steps: [{ action: 'wait' }] }] }],
+    });
+    expect(() => loadConfig(path)).toThrow();
+  });
+
+  it('throws on duplicate state names for one URL', () => {
+    const state = { name: 'menu', steps: [{ action: 'hover', selector: 'nav' }] };
+    const path = writeConfig({ ...validConfig, urls: [{ url: 'https://example.com', states: [state, state] }] });
+    expect(() => loadConfig(path)).toThrow();
+  });
+
   it('throws on missing required field (product)', () => {
     const { product, ...withoutProduct } = validConfig;
     const path = writeConfig(withoutProduct);
@@ -90,3 +268,18 @@ describe('loadConfig', () => {
     expect(() => loadConfig('/nonexistent/path/config.json')).toThrow();
   });
 });
+
+describe('mergeDiscoveredUrls', () => {
+  const withStates = {
+    url: 'https://example.com/contact',
+    states: [{ name: 'form-errors', steps: [{ action: 'click', selector: 'button[type=submit]' }] }],
+  };
+
+  it('keeps entries with states for URLs still discovered and appends new URLs', () => {
+    const merged = mergeDiscoveredUrls(
+      ['https://example.com/', withStates, 'https://example.com/retired'],
+      ['https://example.com/', 'https://example.com/contact', 'https://example.com/new']
+    );
+    expect(merged).toEqual(['https://example.com/', withStates, 'https://example.com/new']);
+  });
+});
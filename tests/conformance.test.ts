@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  rollupCriterion,
+  combineConformance,
+  buildChapterConformance,
+} from '../src/mapping/conformance.js';
+import type { QuestionScore, WcagCriterion, WcagScResult } from '../src/types.js';
+
+const contrast: WcagCriterion = { sc: '1.4.3', name: 'Contrast (Minimum)', level: 'AA', version: '2.0' };
+
+const score = (value: number | null, comment = '', wcagScs = ['1.4.3']): QuestionScore => ({
+  rowIndex: 1,
+  tableIndex: 1,
+  questionText: 'Question',
+  score: value,
+  weight: 2,
+  weightedScore: value === null ? null : value * 2,
+  comment,
+  automatable: true,
+  wcagScs,
+});
+
+const scan = (status: WcagScResult['status'], urlsWithViolations = 0): WcagScResult => ({
+  sc: '1.4.3',
+  status,
+  totalViolations: urlsWithViolations * 3,
+  urlsWithViolations,
+  totalUrls: 4,
+  topIssues: [],
+});
+
+describe('rollupCriterion', () => {
+  it('supports when every related question passes', () => {
+    const row = rollupCriterion(contrast, [score(1, 'No issues found.')], scan('pass'));
+    expect(row).toEqual({ id: '1.4.3', name: 'Contrast (Minimum)', level: 'AA', conformance: 'Supports', remarks: 'No issues found.' });
+  });
+
+  it('does not claim support from scan-sourced passes alone', () => {
+    const scanned = { ...score(1, 'No issues found for color-contrast across 4 page(s).'), source: 'scan' as const };
+    const row = rollupCriterion(contrast, [scanned], scan('pass'));
+    expect(row.conformance).toBe('Not Evaluated');
+    expect(row.remarks).toBe('Automated checks only: No issues found for color-contrast across 4 page(s). Manual review required.');
+
+    const reviewed = { ...score(1, 'Checked by QA'), source: 'carry-forward' as const };
+    expect(rollupCriterion(contrast, [scanned, reviewed], scan('pass')).conformance).toBe('Supports');
+  });
+
+  it('partially supports when questions disagree', () => {
+    const row = rollupCriterion(contrast, [score(1), score(0, 'color-contrast: 6 violation(s)')]);
+    expect(row.conformance).toBe('Partially Supports');
+    expect(row.remarks).toBe('color-contrast: 6 violation(s)');
+  });
+
+  it('partially supports when a question earned partial credit', () => {
+    expect(rollupCriterion(contrast, [score(1), score(0.5, 'Partially supports')]).conformance).toBe('Partially Supports');
+  });
+
+  it('does not support when every related question fails', () => {
+    expect(rollupCriterion(contrast, [score(0)]).conformance).toBe('Does Not Support');
+  });
+
+  it('downgrades supporting answers when the scan failed the criterion', () => {
+    const row = rollupCriterion(contrast, [score(1)], scan('fail', 1));
+    expect(row.conformance).toBe('Partially Supports');
+    expect(row.remarks).toBe('Automated testing found 3 issue(s) on 1 of 4 page(s).');
+  });
+
+  it('falls back to scan results when no question is scored', () => {
+    expect(rollupCriterion(contrast, [score(null)], scan('fail', 4)).conformance).toBe('Does Not Support');
+  });
+
+  it('does not claim support from automated passes alone', () => {
+    const row = rollupCriterion(contrast, [], scan('pass'));
+    expect(row.conformance).toBe('Not Evaluated');
+    expect(row.remarks).toBe('Automated checks only: no issues found across 4 page(s). Manual review required.');
+  });
+
+  it('is not evaluated without answers or scan data', () => {
+    expect(rollupCriterion(contrast, [score(null)], scan('incomplete')).conformance).toBe('Not Evaluated');
+    expect(rollupCriterion(contrast, [score(1, '', ['1.1.1'])]).conformance).toBe('Not Evaluated');
+  });
+
+  it('ignores questions outside the target standard', () => {
+    const outOfScope = { ...score(0), outOfScope: true };
+    expect(rollupCriterion(contrast, [outOfScope]).conformance).toBe('Not Evaluated');
+  });
+});
+
+describe('combineConformance', () => {
+  it('ignores unevaluated criteria', () => {
+    expect(combineConformance(['Supports', 'Not Evaluated', 'Not Applicable'])).toBe('Supports');
+  });
+
+  it('reports partial support for mixed results', () => {
+    expect(combineConformance(['Supports', 'Does Not Support'])).toBe('Partially Supports');
+    expect(combineConformance(['Does Not Support', 'Does Not Support'])).toBe('Does Not Support');
+  });
+
+  it('handles rows with nothing evaluated', () => {
+    expect(combineConformance(['Not Applicable'])).toBe('Not Applicable');
+    expect(combineConformance(['Not Evaluated', 'Not Applicable'])).toBe('Not Evaluated');
+    expect(combineConformance([])).toBe('Not Evaluated');
+  });
+});
+
+describe('buildChapterConformance', () => {
+  it('resolves headings, fixed answers and WCAG-derived rows', () => {
+    const rows = buildChapterConformance(
+      {
+        id: '3',
+        title: 'Chapter 3',
+        rows: [
+          { id: '302', name: 'Functional Performance Criteria', heading: true },
+          { id: '302.2', name: 'With Limited Vision', wcagScs: ['1.4.3', '1.4.4'] },
+          { id: '302.6', name: 'Without Speech', conformance: 'Not Applicable', remarks: 'No speech input.' },
+          { id: '602.2', name: 'Accessibility and Compatibility Features' },
+        ],
+      },
+      [score(0, 'Low contrast')],
+      new Map()
+    );
+
+    expect(rows.map((r) => r.conformance)).toEqual([null, 'Does Not Support', 'Not Applicable', 'Not Evaluated']);
+    expect(rows[1].remarks).toBe('See 1.4.3 Contrast (Minimum).');
+  });
+
+  it('numbers generated WCAG rows with the chapter prefix', () => {
+    const rows = buildChapterConformance(
+      { id: '9', title: 'Chapter 9: Web', wcag: { version: '2.0', level: 'A' }, idPrefix: '9.' },
+      [],
+      new Map()
+    );
+    expect(rows[0].id).toBe('9.1.1.1');
+    expect(rows.every((r) => r.level === 'A')).toBe(true);
+  });
+});
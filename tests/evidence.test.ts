@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { evidenceSlug, loadScanEvidence, pngDimensions } from '../src/scanner/evidence.js';
+import { buildMessages, evidencePagesForSection } from '../src/ai/promptBuilder.js';
+import type { DetailedScanResult } from '../src/types.js';
+
+/** Minimal PNG: signature + IHDR chunk header with the given size */
+const fakePng = (width: number, height: number): Buffer => {
+  const buf = Buffer.alloc(33);
+  Buffer.from('89504e470d0a1a0a', 'hex').copy(buf, 0);
+  buf.writeUInt32BE(13, 8);
+  buf.write('IHDR', 12, 'ascii');
+  buf.writeUInt32BE(width, 16);
+  buf.writeUInt32BE(height, 20);
+  return buf;
+};
+
+const makeResult = (url: string, wcagTags: string[] = []): DetailedScanResult => ({
+  url,
+  timestamp: '2025-01-01T00:00:00Z',
+  status: 'ok',
+  violations: [],
+  passes: [],
+  incomplete: [],
+  violationDetails: wcagTags.length > 0
+    ? [{
+      ruleId: 'image-alt',
+      description: 'Images must have alt text',
+      impact: 'critical',
+      wcagTags,
+      help: 'Images must have alternative text',
+      helpUrl: '',
+      nodeDetails: [{ target: ['img'], html: '<img>', failureSummary: 'Add alt' }],
+    }]
+    : [],
+});
+
+describe('evidenceSlug', () => {
+  it('combines a readable path with a stable hash', () => {
+    const slug = evidenceSlug('https://example.com/15978/558785/d');
+    expect(slug).toMatch(/^example-com-15978-558785-d-[0-9a-f]{8}$/);
+    expect(evidenceSlug('https://example.com/15978/558785/d')).toBe(slug);
+  });
+
+  it('distinguishes URLs that differ only by query', () => {
+    expect(evidenceSlug('https://example.com/a?x=1')).not.toBe(evidenceSlug('https://example.com/a?x=2'));
+  });
+
+  it('keeps interaction states apart from the page as loaded', () => {
+    expect(evidenceSlug('https://example.com/a', undefined, 'dialog')).toMatch(/^example-com-a-dialog-[0-9a-f]{8}$/);
+    expect(evidenceSlug('https://example.com/a', undefined, 'dialog')).not.toBe(evidenceSlug('https://example.com/a'));
+  });
+});
+
+describe('pngDimensions', () => {
+  it('reads width and height from a PNG header', () => {
+    expect(pngDimensions(fakePng(640, 480))).toEqual({ width: 640, height: 480 });
+  });
+
+  it('returns null for non-PNG data', () => {
+    expect(pngDimensions(Buffer.from('not an image'))).toBeNull();
+  });
+});
+
+describe('loadScanEvidence', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = join(tmpdir(), `vpat-evidence-test-${Date.now()}`);
+    mkdirSync(tmpDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('loads screenshots and trees that exist on disk', () => {
+    const screenshotPath = join(tmpDir, 'page.png');
+    const treePath = join(tmpDir, 'tree.yml');
+    writeFileSync(screenshotPath, fakePng(10, 10));
+    writeFileSync(treePath, '- heading "Budget" [level=1]');
+
+    const result = {
+      ...makeResult('https://example.com/a'),
+      evidence: { screenshotPath, accessibilityTreePath: treePath },
+    };
+    const missing = { ...makeResult('https://example.com/b'), evidence: { screenshotPath: join(tmpDir, 'gone.png') } };
+
+    const evidence = loadScanEvidence([result, missing])!;
+    expect([...evidence.screenshots.keys()]).toEqual(['https://example.com/a']);
+    expect(evidence.accessibilityTrees.get('https://example.com/a')).toContain('Budget');
+  });
+
+  it('returns undefined when nothing was captured', () => {
+    expect(loadScanEvidence([makeResult('https://example.com')])).toBeUndefined();
+  });
+});
+
+describe('buildMessages evidence', () => {
+  const batch = { wcagSection: '1.1', questions: [], wcagResults: [], scanSummary: '' };
+
+  it('prefers pages with violations in the section', () => {
+    const evidence = {
+      screenshots: new Map([['https://example.com/a', fakePng(10, 10)], ['https://example.com/b', fakePng(10, 10)]]),
+      accessibilityTrees: new Map<string, string>(),
+    };
+    const results = [makeResult('https://example.com/a'), makeResult('https://example.com/b', ['wcag111'])];
+    expect(evidencePagesForSection(results, '1.1', evidence)[0]).toBe('https://example.com/b');
+  });
+
+  it('adds image and tree blocks after the text prompt', () => {
+    const evidence = {
+      screenshots: new Map([['https://example.com/a', fakePng(800, 600)]]),
+      accessibilityTrees: new Map([['https://example.com/a', '- main']]),
+    };
+    const { content, userMessage } = buildMessages(batch, [makeResult('https://example.com/a')], evidence);
+    expect(content[0]).toEqual({ type: 'text', text: userMessage });
+    expect(content.some((b) => b.type === 'image')).toBe(true);
+    expect(content.some((b) => b.type === 'text' && b.text.includes('Accessibility tree of https://example.com/a'))).toBe(true);
+  });
+
+  it('skips screenshots too tall for the API', () => {
+    const evidence = {
+      screenshots: new Map([['https://example.com/a', fakePng(1280, 20000)]]),
+      accessibilityTrees: new Map<string, string>(),
+    };
+    const { content } = buildMessages(batch, [makeResult('https://example.com/a')], evidence);
+    expect(content.some((b) => b.type === 'image')).toBe(false);
+  });
+
+  it('sends only the text prompt without evidence', () => {
+    const { content } = buildMessages(batch, [makeResult('https://example.com/a')]);
+    expect(content).toHaveLength(1);
+  });
+});
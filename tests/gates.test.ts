@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { CI_EXIT_CODES, ciExitCode, countViolations, evaluateGates, passingPercent } from '../src/ci/gates.js';
+import type { CiGatesConfig, DetailedScanResult, Impact } from '../src/types.js';
+
+const page = (url: string, violations: [string, Impact][]): DetailedScanResult => ({
+  url,
+  timestamp: '2026-01-01T00:00:00Z',
+  status: 'ok',
+  violations: violations.map(([ruleId, impact]) => ({ ruleId, description: ruleId, impact, wcagTags: [], nodes: 1 })),
+  passes: [],
+  incomplete: [],
+  violationDetails: [],
+});
+
+const summary = { total: 10, automated: 6, manual: 4, passing: 6, partial: 1, failing: 1, na: 2 };
+const gates = (overrides: Partial<CiGatesConfig> = {}): CiGatesConfig => ({
+  maxCritical: null,
+  maxSerious: null,
+  baselinePath: null,
+  minPassingPercent: null,
+  ...overrides,
+});
+
+describe('countViolations', () => {
+  it('counts rule failures per page for one impact', () => {
+    const results = [
+      page('https://example.com/a', [['image-alt', 'critical'], ['region', 'moderate']]),
+      page('https://example.com/b', [['image-alt', 'critical'], ['label', 'critical']]),
+    ];
+    expect(countViolations(results, 'critical')).toEqual({ count: 3, rules: ['image-alt', 'label'] });
+  });
+});
+
+describe('passingPercent', () => {
+  it('is the share of scored questions that pass', () => {
+    expect(passingPercent(summary)).toBe(75);
+  });
+});
+
+describe('evaluateGates', () => {
+  const scanResults = [page('https://example.com/a', [['image-alt', 'critical'], ['color-contrast', 'serious']])];
+
+  it('passes when every configured gate is within its limit', () => {
+    const results = evaluateGates({ scanResults, summary }, gates({ maxCritical: 1, maxSerious: 1, minPassingPercent: 70 }));
+    expect(results.map((r) => r.gate)).toEqual(['max-critical', 'max-serious', 'min-passing-percent']);
+    expect(ciExitCode(results)).toBe(CI_EXIT_CODES.passed);
+  });
+
+  it('skips gates that are not configured', () => {
+    expect(evaluateGates({ scanResults, summary }, gates())).toEqual([]);
+  });
+
+  it('fails on violation thresholds with the offending rules', () => {
+    const results = evaluateGates({ scanResults, summary }, gates({ maxCritical: 0 }));
+    expect(results[0]).toMatchObject({ passed: false, actual: '1', details: ['image-alt'] });
+    expect(ciExitCode(results)).toBe(CI_EXIT_CODES.violations);
+  });
+
+  it('fails on rules failing on pages that passed in the baseline', () => {
+    const baseline = [page('https://example.com/a', [['image-alt', 'critical']])];
+    const results = evaluateGates({ scanResults, baseline, summary }, gates());
+    expect(results[0]).toMatchObject({ gate: 'no-new-violations', passed: false, details: ['color-contrast (1 page(s))'] });
+    expect(ciExitCode(results)).toBe(CI_EXIT_CODES.newViolations);
+  });
+
+  it('fails below the minimum passing percentage', () => {
+    const results = evaluateGates({ scanResults, summary }, gates({ minPassingPercent: 80 }));
+    expect(ciExitCode(results)).toBe(CI_EXIT_CODES.passingPercent);
+  });
+
+  it('reports the first failing gate when several fail', () => {
+    const results = evaluateGates({ scanResults, summary }, gates({ maxSerious: 0, minPassingPercent: 90 }));
+    expect(ciExitCode(results)).toBe(CI_EXIT_CODES.violations);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeSelector, issueFingerprint, updateIssueHistory, trackingLabel, fixedRemediationIds, remediationId } from '../src/remediation/history.js';
+import type { RemediationIssue } from '../src/scanner/remediationReport.js';
+import type { IssueHistory, ScanResult, WaivedFinding } from '../src/types.js';
+
+const issue = (ruleId: string, url: string, targets: string[][]): RemediationIssue => ({
+  ruleId,
+  description: `${ruleId} description`,
+  impact: 'serious',
+  wcagTags: ['wcag111'],
+  help: `${ruleId} help`,
+  helpUrl: `https://dequeuniversity.com/rules/${ruleId}`,
+  occurrences: [{ url, nodes: targets.map((target) => ({ target, html: '<div></div>', failureSummary: 'Fix' })) }],
+  totalNodes: targets.length,
+});
+
+const scanned = (...urls: string[]): ScanResult[] =>
+  urls.map((url) => ({ url, timestamp: '', status: 'ok', violations: [], passes: [], incomplete: [] }));
+
+const empty: IssueHistory = { product: 'Test', runs: [], entries: [] };
+
+describe('normalizeSelector', () => {
+  it('ignores positional indexes and generated ids', () => {
+    expect(normalizeSelector(['#row-558785', 'td:nth-child(3)'])).toBe(normalizeSelector(['#row-558742', 'td:nth-child(4)']));
+  });
+
+  it('keeps distinct elements distinct', () => {
+    expect(normalizeSelector(['#header'])).not.toBe(normalizeSelector(['#footer']));
+  });
+});
+
+describe('issueFingerprint', () => {
+  it('is stable for the same rule, selector and template', () => {
+    expect(issueFingerprint('image-alt', 'img', '/:id/d')).toBe(issueFingerprint('image-alt', 'img', '/:id/d'));
+    expect(issueFingerprint('image-alt', 'img', '/:id/d')).not.toBe(issueFingerprint('label', 'img', '/:id/d'));
+  });
+});
+
+describe('updateIssueHistory', () => {
+  it('marks everything new on the first run', () => {
+    const { history, comparison } = updateIssueHistory(
+      empty,
+      [issue('image-alt', 'https://example.com/1/d', [['img']])],
+      scanned('https://example.com/1/d'),
+      '2026-01-15'
+    );
+    expect(comparison.previousRun).toBeNull();
+    expect(comparison.issues.get('image-alt')).toEqual({ status: 'new', firstSeen: '2026-01-15' });
+    expect(history.entries[0]).toMatchObject({ status: 'new', firstSeen: '2026-01-15', lastSeen: '2026-01-15' });
+    expect(history.runs).toEqual(['2026-01-15']);
+  });
+
+  it('tracks open and resolved findings across runs on the same template', () => {
+    const first = updateIssueHistory(
+      empty,
+      [issue('image-alt', 'https://example.com/1001/d', [['img']]), issue('label', 'https://example.com/1001/d', [['input']])],
+      scanned('https://example.com/1001/d'),
+      '2026-01-15'
+    );
+    const second = updateIssueHistory(
+      first.history,
+      [issue('image-alt', 'https://example.com/2002/d', [['img']])],
+      scanned('https://example.com/2002/d'),
+      '2026-04-15'
+    );
+
+    expect(second.comparison.previousRun).toBe('2026-01-15');
+    expect(second.comparison.issues.get('image-alt')).toEqual({ status: 'open', firstSeen: '2026-01-15' });
+    expect(second.comparison.resolved.map((e) => e.ruleId)).toEqual(['label']);
+    expect(second.history.entries.find((e) => e.ruleId === 'label')).toMatchObject({ status: 'resolved', resolvedOn: '2026-04-15' });
+  });
+
+  it('flags a resolved finding that comes back as regressed', () => {
+    const url = 'https://example.com/page';
+    const first = updateIssueHistory(empty, [issue('label', url, [['input']])], scanned(url), '2026-01-15');
+    const second = updateIssueHistory(first.history, [], scanned(url), '2026-04-15');
+    const third = updateIssueHistory(second.history, [issue('label', url, [['input']])], scanned(url), '2026-07-15');
+
+    expect(third.comparison.issues.get('label')).toEqual({ status: 'regressed', firstSeen: '2026-01-15' });
+    expect(third.comparison.resolved).toEqual([]);
+  });
+
+  it('keeps findings open in a state that failed to scan', () => {
+    const url = 'https://example.com/contact';
+    const inState = { ...issue('label', url, [['input']]), occurrences: [{ url, state: 'form-errors', nodes: [{ target: ['input'], html: '<input>', failureSummary: 'Fix' }] }] };
+    const state = (status: ScanResult['status']): ScanResult[] => [...scanned(url), { ...scanned(url)[0], state: 'form-errors', status }];
+    const first = updateIssueHistory(empty, [inState], state('ok'), '2026-01-15');
+    const second = updateIssueHistory(first.history, [], state('state-error'), '2026-04-15');
+
+    expect(first.history.entries[0]).toMatchObject({ state: 'form-errors', status: 'new' });
+    expect(second.comparison.resolved).toEqual([]);
+    expect(second.history.entries[0].status).toBe('new');
+    expect(fixedRemediationIds(second.history, second.comparison).size).toBe(0);
+
+    const third = updateIssueHistory(second.history, [], state('ok'), '2026-07-15');
+    expect(third.comparison.resolved.map((e) => e.ruleId)).toEqual(['label']);
+  });
+
+  it('keeps a newly waived finding open instead of resolving it', () => {
+    const url = 'https://example.com/a';
+    const first = updateIssueHistory(empty, [issue('label', url, [['input']])], scanned(url), '2026-01-15');
+    const waived: WaivedFinding = {
+      suppression: { ruleId: 'label', reason: 'Vendor widget', owner: 'web', expires: '2026-12-31' },
+      url,
+      ruleId: 'label',
+      impact: 'serious',
+      help: 'label help',
+      nodes: [{ target: ['input'], html: '<input>', failureSummary: 'Fix' }],
+    };
+    const second = updateIssueHistory(first.history, [], scanned(url), '2026-04-15', [waived]);
+
+    expect(second.comparison.resolved).toEqual([]);
+    expect(second.history.entries[0].status).toBe('new');
+    expect(fixedRemediationIds(second.history, second.comparison).size).toBe(0);
+  });
+
+  it('does not resolve findings on pages that were not scanned', () => {
+    const first = updateIssueHistory(empty, [issue('label', 'https://example.com/a', [['input']])], scanned('https://example.com/a'), '2026-01-15');
+    const second = updateIssueHistory(first.history, [], [], '2026-04-15');
+
+    expect(second.comparison.resolved).toEqual([]);
+    expect(second.history.entries[0].status).toBe('new');
+  });
+});
+
+describe('fixedRemediationIds', () => {
+  it('lists rules whose findings were all resolved on scanned pages', () => {
+    const first = updateIssueHistory(
+      empty,
+      [issue('label', 'https://example.com/a', [['input']]), issue('image-alt', 'https://example.com/b', [['img']])],
+      [...scanned('https://example.com/a'), ...scanned('https://example.com/b')],
+      '2026-01-15'
+    );
+    // /b failed to load, so image-alt is not known to be fixed
+    const second = updateIssueHistory(first.history, [], scanned('https://example.com/a'), '2026-04-15');
+
+    expect(fixedRemediationIds(second.history, second.comparison)).toEqual(new Set([remediationId('label')]));
+  });
+});
+
+describe('trackingLabel', () => {
+  it('describes each lifecycle status', () => {
+    expect(trackingLabel({ status: 'new', firstSeen: '2026-04-15' })).toBe('New');
+    expect(trackingLabel({ status: 'open', firstSeen: '2026-01-15' })).toBe('Open since 2026-01-15');
+    expect(trackingLabel({ status: 'regressed', firstSeen: '2026-01-15' })).toBe('Regressed (first seen 2026-01-15)');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { generateHtmlReport, type HtmlReportInput } from '../src/remediation/htmlReport.js';
+import type { DetailedScanResult } from '../src/types.js';
+
+const scanResult = (url: string, status: DetailedScanResult['status'] = 'ok'): DetailedScanResult => ({
+  url,
+  timestamp: '2026-01-01T00:00:00Z',
+  status,
+  violations: [],
+  passes: [],
+  incomplete: [],
+  violationDetails: [],
+});
+
+const input = (overrides: Partial<HtmlReportInput> = {}): HtmlReportInput => ({
+  product: 'ClearDocs',
+  reportDate: '2026-01-15',
+  standard: { version: '2.2', level: 'AA' },
+  issues: [{
+    ruleId: 'image-alt',
+    description: 'Ensures <img> elements have alternate text',
+    impact: 'critical',
+    wcagTags: ['wcag2a', 'wcag111'],
+    help: 'Images must have alternate text',
+    helpUrl: 'https://dequeuniversity.com/rules/axe/4.11/image-alt',
+    occurrences: [{ url: 'https://example.com/a', nodes: [{ target: ['#logo'], html: '<img id="logo">', failureSummary: 'Add alt' }] }],
+    totalNodes: 1,
+  }],
+  wcagResults: new Map([['1.1.1', { sc: '1.1.1', status: 'fail', totalViolations: 1, urlsWithViolations: 1, totalUrls: 2, topIssues: ['Images must have alternate text'] }]]),
+  scores: [{
+    rowIndex: 2,
+    tableIndex: 1,
+    questionText: 'Images have appropriate alternative text',
+    score: 0,
+    weight: 3,
+    weightedScore: 0,
+    comment: 'Missing alt text on 1 page',
+    automatable: true,
+    wcagScs: ['1.1.1'],
+    source: 'scan',
+  }],
+  scanResults: [scanResult('https://example.com/a'), scanResult('https://example.com/b', 'timeout')],
+  ...overrides,
+});
+
+describe('generateHtmlReport', () => {
+  it('is a single document with no external assets', () => {
+    const html = generateHtmlReport(input());
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).not.toMatch(/<(link|script)[^>]+(href|src)=/);
+    expect(html).toContain('<title>ClearDocs Accessibility Report — 2026-01-15</title>');
+    expect(html).toContain('WCAG 2.2 Level AA');
+  });
+
+  it('escapes scanned markup', () => {
+    const html = generateHtmlReport(input());
+    expect(html).toContain('<code>&lt;img id=&quot;logo&quot;&gt;</code>');
+    expect(html).not.toContain('<img id="logo">');
+  });
+
+  it('tags issue rows with filterable impact, criterion, rule and page', () => {
+    const html = generateHtmlReport(input());
+    expect(html).toContain('<tr data-impact="critical" data-sc="1.1.1" data-rule="image-alt" data-page="p1">');
+    expect(html).toContain('<option value="p2">https://example.com/b</option>');
+    expect(html).toContain('<option value="1.1.1">1.1.1</option>');
+  });
+
+  it('includes the page drill-down and question scorecard', () => {
+    const html = generateHtmlReport(input());
+    expect(html).toContain('https://example.com/b — Not scanned: timeout');
+    expect(html).toContain('<td>Images have appropriate alternative text</td>');
+    expect(html).toContain('<td>Does Not Support</td>');
+  });
+
+  it('keeps variants and states of one URL apart', () => {
+    const mobileDialog = { url: 'https://example.com/a', variant: 'chromium/mobile', state: 'dialog-open' };
+    const base = input();
+    const html = generateHtmlReport(input({
+      issues: [{ ...base.issues[0], occurrences: [{ ...mobileDialog, nodes: base.issues[0].occurrences[0].nodes }] }],
+      scanResults: [scanResult('https://example.com/a'), { ...scanResult('https://example.com/a'), ...mobileDialog }],
+    }));
+    expect(html).toContain('<tr data-impact="critical" data-sc="1.1.1" data-rule="image-alt" data-page="p2">');
+    expect(html).toContain('<option value="p2">https://example.com/a (chromium/mobile) [dialog-open]</option>');
+    expect(html).toContain('https://example.com/a (chromium/mobile) [dialog-open] — 1 issue(s)');
+    expect(html).toContain('https://example.com/a — 0 issue(s)');
+  });
+
+  it('notes when there are no violations', () => {
+    expect(generateHtmlReport(input({ issues: [] }))).toContain('<p>No violations found.</p>');
+  });
+});
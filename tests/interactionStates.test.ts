@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { Page } from 'playwright';
+import { describeStep, enterState } from '../src/scanner/interactionStates.js';
+
+/** Records calls instead of driving a browser; selectors listed in `missing` time out */
+function fakePage(missing: string[] = []) {
+  const calls: string[] = [];
+  const act = (name: string) => async (selector: string, ...args: unknown[]) => {
+    if (missing.includes(selector)) throw new Error(`Timeout 5000ms exceeded.\nwaiting for ${selector}`);
+    calls.push([name, selector, ...args.filter((a) => typeof a !== 'object')].join(' '));
+  };
+  const page = {
+    click: act('click'),
+    fill: act('fill'),
+    press: act('press'),
+    hover: act('hover'),
+    waitForSelector: act('waitForSelector'),
+    waitForTimeout: async (ms: number) => { calls.push(`waitForTimeout ${ms}`); },
+    waitForLoadState: async () => {},
+    keyboard: { press: async (key: string) => { calls.push(`keyboard ${key}`); } },
+  };
+  return { page: page as unknown as Page, calls };
+}
+
+describe('describeStep', () => {
+  it('names the action and its target', () => {
+    expect(describeStep({ action: 'click', selector: '#open' })).toBe('click "#open"');
+    expect(describeStep({ action: 'fill', selector: '#email', value: 'x' })).toBe('fill "#email"');
+    expect(describeStep({ action: 'press', key: 'Escape' })).toBe('press Escape');
+    expect(describeStep({ action: 'wait', ms: 300 })).toBe('wait 300ms');
+  });
+});
+
+describe('enterState', () => {
+  it('runs the steps in order', async () => {
+    const { page, calls } = fakePage();
+    await enterState(page, {
+      name: 'form-errors',
+      steps: [
+        { action: 'fill', selector: '#email', value: 'not-an-email' },
+        { action: 'press', key: 'Enter', selector: '#email' },
+        { action: 'wait', selector: '[role=alert]', ms: 100 },
+      ],
+    }, 5000);
+    expect(calls).toEqual([
+      'fill #email not-an-email',
+      'press #email Enter',
+      'waitForSelector [role=alert]',
+      'waitForTimeout 100',
+    ]);
+  });
+
+  it('presses keys on the focused element when no selector is given', async () => {
+    const { page, calls } = fakePage();
+    await enterState(page, { name: 'menu', steps: [{ action: 'hover', selector: 'nav' }, { action: 'press', key: 'ArrowDown' }] }, 5000);
+    expect(calls).toEqual(['hover nav', 'keyboard ArrowDown']);
+  });
+
+  it('names the state and failing step', async () => {
+    const { page } = fakePage(['#open-dialog']);
+    await expect(enterState(page, { name: 'dialog', steps: [{ action: 'click', selector: '#open-dialog' }] }, 5000))
+      .rejects.toThrow('State "dialog" step 1 (click "#open-dialog") failed: Timeout 5000ms exceeded.');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  buildScoresFile,
+  buildVerdictsFile,
+  readScores,
+  readVerdicts,
+  writeIntermediate,
+} from '../src/pipeline/intermediates.js';
+import type { AxeRuleAggregate, QuestionScore, WcagScResult } from '../src/types.js';
+
+const sc: WcagScResult = {
+  sc: '1.1.1',
+  status: 'fail',
+  totalViolations: 2,
+  urlsWithViolations: 1,
+  totalUrls: 2,
+  topIssues: ['Images must have alternate text'],
+};
+
+const rule: AxeRuleAggregate = {
+  ruleId: 'image-alt',
+  description: 'Images must have alternate text',
+  status: 'fail',
+  wcagScs: ['1.1.1'],
+  failingUrls: ['https://example.com/'],
+  violationNodes: 2,
+  passingNodes: 0,
+  worstImpact: 'critical',
+  passingUrls: 1,
+  incompleteUrls: 0,
+  totalUrls: 2,
+};
+
+const score = (overrides: Partial<QuestionScore> = {}): QuestionScore => ({
+  rowIndex: 3,
+  tableIndex: 1,
+  questionText: 'Images have text alternatives',
+  score: 0,
+  weight: 3,
+  weightedScore: 0,
+  comment: 'image-alt fails on 1 of 2 pages',
+  automatable: true,
+  ...overrides,
+});
+
+describe('pipeline intermediates', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `vpat-intermediates-test-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips verdicts into the maps scoring takes', () => {
+    const path = join(dir, 'verdicts.json');
+    const standard = { version: '2.2', level: 'AA' } as const;
+    writeIntermediate(path, buildVerdictsFile('Acme', standard, new Map([['1.1.1', sc]]), new Map([['image-alt', rule]])));
+
+    const { wcagResults, ruleResults } = readVerdicts(path, 'Acme');
+    expect(wcagResults.get('1.1.1')).toEqual(sc);
+    expect(ruleResults.get('image-alt')).toEqual(rule);
+  });
+
+  it('recomputes weighted scores after a hand edit', () => {
+    const path = join(dir, 'scores.json');
+    writeIntermediate(path, buildScoresFile('Acme', 'Q1 2026', [score(), score({ rowIndex: 4, score: null, weightedScore: null, automatable: false })]));
+
+    const file = JSON.parse(readFileSync(path, 'utf-8'));
+    file.scores[1].score = 0.5;
+    writeFileSync(path, JSON.stringify(file));
+
+    const scores = readScores(path, 'Acme');
+    expect(scores[1]).toMatchObject({ score: 0.5, weightedScore: 1.5 });
+    expect(scores[0].weightedScore).toBe(0);
+  });
+
+  it('rejects files from another stage, another product or with invalid scores', () => {
+    const path = join(dir, 'scores.json');
+    writeIntermediate(path, buildScoresFile('Acme', 'Q1 2026', [score({ score: 2 })]));
+    expect(() => readVerdicts(path, 'Acme')).toThrow('is not a verdicts file');
+    expect(() => readScores(path, 'Other')).toThrow('belongs to Acme, not Other');
+    expect(() => readScores(path, 'Acme')).toThrow();
+    expect(() => readScores(join(dir, 'missing.json'), 'Acme')).toThrow('scores file not found');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  focusOrderReversals,
+  invisibleFocusStops,
+  keyboardRuleResults,
+  applyKeyboardAudit,
+  type FocusStop,
+  type KeyboardAudit,
+} from '../src/scanner/keyboardAudit.js';
+import { aggregateResults, aggregateRuleResults } from '../src/scanner/resultAggregator.js';
+import type { DetailedScanResult } from '../src/types.js';
+
+const stop = (selector: string, y: number, indicator: boolean | null = true, height = 20): FocusStop => ({
+  selector,
+  html: `<a id="${selector}">`,
+  rect: { x: 10, y, width: 100, height },
+  indicator,
+});
+
+const audit = (overrides: Partial<KeyboardAudit> = {}): KeyboardAudit => ({
+  focusOrder: [stop('#skip', 0), stop('#nav', 40), stop('#main', 200)],
+  completed: true,
+  trap: null,
+  clickables: { checked: 4, unfocusable: [] },
+  skipLink: null,
+  ...overrides,
+});
+
+describe('focusOrderReversals', () => {
+  it('flags stops that sit entirely above the previous stop', () => {
+    const stops = [stop('#a', 100), stop('#b', 300), stop('#c', 50), stop('#d', 60)];
+    expect(focusOrderReversals(stops).map((s) => s.selector)).toEqual(['#c']);
+  });
+
+  it('ignores zero-size stops', () => {
+    expect(focusOrderReversals([stop('#a', 300), stop('#hidden', 0, true, 0), stop('#b', 320)])).toEqual([]);
+  });
+});
+
+describe('invisibleFocusStops', () => {
+  it('flags unchanged styles and off-page stops but not unknown ones', () => {
+    const stops = [stop('#a', 0, false), stop('#b', 0, null), stop('#c', -50, true), stop('#d', 0, true)];
+    expect(invisibleFocusStops(stops).map((s) => s.selector)).toEqual(['#a', '#c']);
+  });
+});
+
+describe('keyboardRuleResults', () => {
+  it('reports passes for a clean traversal', () => {
+    const results = keyboardRuleResults(audit());
+    expect(results.violations).toEqual([]);
+    expect(results.passes.map((r) => r.ruleId)).toEqual(['kbd-focus-trap', 'kbd-focus-visible', 'kbd-focus-order', 'kbd-click-focusable']);
+  });
+
+  it('reports a focus trap with the cycling elements', () => {
+    const results = keyboardRuleResults(audit({ completed: false, trap: [stop('#dialog-a', 10), stop('#dialog-b', 30)] }));
+    expect(results.violations[0]).toMatchObject({ ruleId: 'kbd-focus-trap', impact: 'critical', wcagTags: ['wcag2a', 'wcag212'], nodes: 2 });
+    expect(results.violationDetails[0].nodeDetails.map((n) => n.target)).toEqual([['#dialog-a'], ['#dialog-b']]);
+  });
+
+  it('leaves the trap rule out when the traversal hit the tab limit', () => {
+    const results = keyboardRuleResults(audit({ completed: false }));
+    expect([...results.passes, ...results.violations].map((r) => r.ruleId)).not.toContain('kbd-focus-trap');
+  });
+
+  it('marks focus moving back up the page for review', () => {
+    const results = keyboardRuleResults(audit({ focusOrder: [stop('#a', 200), stop('#b', 10)] }));
+    expect(results.incomplete).toEqual([expect.objectContaining({ ruleId: 'kbd-focus-order', nodes: 1 })]);
+  });
+
+  it('reports clickable elements Tab cannot reach', () => {
+    const div = { selector: 'div.card', html: '<div class="card">', rect: { x: 0, y: 0, width: 10, height: 10 } };
+    const results = keyboardRuleResults(audit({ clickables: { checked: 5, unfocusable: [div] } }));
+    expect(results.violations.map((r) => r.ruleId)).toEqual(['kbd-click-focusable']);
+  });
+
+  it('checks the skip link only when one exists', () => {
+    const link = { selector: '#skip', html: '<a href="#main">', rect: { x: 0, y: 0, width: 10, height: 10 } };
+    expect(keyboardRuleResults(audit({ skipLink: { link, targetFound: true, works: true } })).passes.map((r) => r.ruleId))
+      .toContain('kbd-skip-link');
+    const broken = keyboardRuleResults(audit({ skipLink: { link, targetFound: false, works: false } }));
+    expect(broken.violationDetails[0].nodeDetails[0].failureSummary).toContain('does not exist');
+  });
+});
+
+describe('applyKeyboardAudit', () => {
+  it('feeds keyboard rules into aggregation and records the focus order', () => {
+    const result: DetailedScanResult = {
+      url: 'https://example.com/',
+      timestamp: '2026-03-01T00:00:00Z',
+      status: 'ok',
+      violations: [],
+      passes: [],
+      incomplete: [],
+      violationDetails: [],
+    };
+    applyKeyboardAudit(result, audit({ focusOrder: [stop('#a', 0, false), stop('#b', 40)] }));
+
+    expect(result.focusOrder).toEqual(['#a', '#b']);
+    expect(aggregateRuleResults([result]).get('kbd-focus-visible')?.status).toBe('fail');
+    expect(aggregateResults([result]).get('2.4.7')?.status).toBe('fail');
+    expect(aggregateResults([result]).get('2.1.2')?.status).toBe('pass');
+  });
+});
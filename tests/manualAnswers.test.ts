@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { attribution, buildManualAnswersReport, isStale, loadManualAnswers } from '../src/mapping/manualAnswers.js';
+import type { ManualAnswer, QuestionScore } from '../src/types.js';
+
+const answer: ManualAnswer = {
+  score: 0.5,
+  comment: 'Captions lag on the onboarding video',
+  reviewer: 'Sam Lee',
+  reviewedOn: '2026-09-01',
+  evidence: ['https://example.com/audit/7', 'https://example.com/audit/8'],
+  validUntil: '2027-03-01',
+};
+
+const score = (overrides: Partial<QuestionScore> = {}): QuestionScore => ({
+  rowIndex: 2,
+  tableIndex: 1,
+  questionText: 'Captions are provided for prerecorded video',
+  score: null,
+  weight: 1,
+  weightedScore: null,
+  comment: '',
+  automatable: false,
+  ...overrides,
+});
+
+describe('loadManualAnswers', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `vpat-manual-answers-test-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads YAML answers keyed by question ID', () => {
+    const path = join(dir, 'answers.yaml');
+    writeFileSync(path, [
+      'answers:',
+      '  1.2.2:',
+      '    score: 0.5',
+      '    comment: Captions lag on the onboarding video',
+      '    reviewer: Sam Lee',
+      '    reviewedOn: "2026-09-01"',
+      '    evidence:',
+      '      - https://example.com/audit/7',
+      '      - https://example.com/audit/8',
+      '    validUntil: "2027-03-01"',
+    ].join('\n'));
+
+    expect(loadManualAnswers(path)).toEqual(new Map([['1.2.2', answer]]));
+  });
+
+  it('reads JSON answers and defaults evidence to empty', () => {
+    const path = join(dir, 'answers.json');
+    const { evidence: _, ...withoutEvidence } = answer;
+    writeFileSync(path, JSON.stringify({ answers: { '1.2.2-2': withoutEvidence } }));
+
+    expect(loadManualAnswers(path).get('1.2.2-2')).toEqual({ ...answer, evidence: [] });
+  });
+
+  it('throws on an answer without a reviewer', () => {
+    const path = join(dir, 'answers.json');
+    const { reviewer: _, ...withoutReviewer } = answer;
+    writeFileSync(path, JSON.stringify({ answers: { '1.2.2': withoutReviewer } }));
+
+    expect(() => loadManualAnswers(path)).toThrow();
+  });
+
+  it('throws on a malformed date', () => {
+    const path = join(dir, 'answers.json');
+    writeFileSync(path, JSON.stringify({ answers: { '1.2.2': { ...answer, validUntil: 'next spring' } } }));
+
+    expect(() => loadManualAnswers(path)).toThrow('validUntil must be a YYYY-MM-DD date');
+  });
+
+  it('throws on a missing file', () => {
+    expect(() => loadManualAnswers(join(dir, 'missing.yaml'))).toThrow('Manual answers file not found');
+  });
+});
+
+describe('isStale', () => {
+  it('keeps an answer valid through its validUntil day', () => {
+    expect(isStale(answer, new Date('2027-03-01T23:00:00Z'))).toBe(false);
+    expect(isStale(answer, new Date('2027-03-02T00:00:00Z'))).toBe(true);
+  });
+});
+
+describe('attribution', () => {
+  it('names the reviewer, date and evidence', () => {
+    expect(attribution(answer)).toBe(
+      'Reviewed by Sam Lee on 2026-09-01; evidence: https://example.com/audit/7, https://example.com/audit/8'
+    );
+  });
+
+  it('omits evidence when there is none', () => {
+    expect(attribution({ ...answer, evidence: [] })).toBe('Reviewed by Sam Lee on 2026-09-01');
+  });
+});
+
+describe('buildManualAnswersReport', () => {
+  it('splits applied and stale answers and lists IDs matching no question', () => {
+    const applied = score({ questionId: '1.2.2', score: 0.5, source: 'manual', manualAnswer: answer });
+    const stale = score({ rowIndex: 3, questionId: '1.2.3', staleAnswer: answer });
+    const answers = new Map([['1.2.2', answer], ['1.2.3', answer], ['9.9.9', answer]]);
+
+    const report = buildManualAnswersReport(answers, [applied, stale, score({ rowIndex: 4, questionId: '1.2.4' })]);
+    expect(report.applied).toEqual([applied]);
+    expect(report.stale).toEqual([stale]);
+    expect(report.unknown).toEqual(['9.9.9']);
+  });
+});
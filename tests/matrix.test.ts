@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { scanVariants, variantContextOptions, DEFAULT_MATRIX } from '../src/scanner/matrix.js';
+
+describe('scanVariants', () => {
+  it('defaults to a single desktop Chromium variant', () => {
+    expect(scanVariants(DEFAULT_MATRIX)).toEqual([{ browser: 'chromium', viewport: 'desktop', name: 'chromium/desktop' }]);
+  });
+
+  it('crosses browsers and viewports, grouped by browser', () => {
+    const names = scanVariants({ viewports: ['desktop', 'mobile'], browsers: ['chromium', 'webkit', 'chromium'] }).map((v) => v.name);
+    expect(names).toEqual(['chromium/desktop', 'chromium/mobile', 'webkit/desktop', 'webkit/mobile']);
+  });
+});
+
+describe('variantContextOptions', () => {
+  it('keeps the default window for desktop', () => {
+    expect(variantContextOptions({ browser: 'chromium', viewport: 'desktop', name: 'chromium/desktop' })).toEqual({});
+  });
+
+  it('emulates a phone for mobile', () => {
+    const options = variantContextOptions({ browser: 'webkit', viewport: 'mobile', name: 'webkit/mobile' });
+    expect(options).toMatchObject({ isMobile: true, hasTouch: true });
+    expect(options.viewport!.width).toBeLessThan(500);
+    expect(options).not.toHaveProperty('defaultBrowserType');
+  });
+
+  it('drops mobile emulation Firefox does not support', () => {
+    const options = variantContextOptions({ browser: 'firefox', viewport: 'tablet', name: 'firefox/tablet' });
+    expect(options).not.toHaveProperty('isMobile');
+    expect(options.userAgent).toContain('iPad');
+  });
+});
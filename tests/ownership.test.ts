@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadOwnership, findOwner, groupIssuesByOwner } from '../src/scanner/ownership.js';
+import { buildRemediationIssues, generateRemediationMarkdown } from '../src/scanner/remediationReport.js';
+import type { DetailedScanResult, OwnershipRule } from '../src/types.js';
+
+const RULES: OwnershipRule[] = [
+  { team: 'Platform', component: 'Global header', selector: 'header' },
+  { team: 'Commerce', component: 'Cart widget', html: 'cart-widget' },
+  { team: 'Docs', component: 'Help pages', urlPattern: 'https://example.com/help/**' },
+];
+
+const node = (target: string[], html = '<span></span>') => ({ target, html, failureSummary: 'Fix' });
+
+const makeResult = (url: string, nodes: ReturnType<typeof node>[]): DetailedScanResult => ({
+  url,
+  timestamp: '2026-03-01T00:00:00Z',
+  status: 'ok',
+  violations: [{ ruleId: 'color-contrast', description: 'd', impact: 'serious', wcagTags: ['wcag143'], nodes: nodes.length }],
+  passes: [],
+  incomplete: [],
+  violationDetails: [{
+    ruleId: 'color-contrast',
+    description: 'd',
+    impact: 'serious',
+    wcagTags: ['wcag143'],
+    help: 'Elements must meet minimum color contrast ratio thresholds',
+    helpUrl: 'https://dequeuniversity.com/rules/color-contrast',
+    nodeDetails: nodes,
+  }],
+});
+
+describe('findOwner', () => {
+  it('uses the first rule whose matchers all match', () => {
+    expect(findOwner(RULES, 'https://example.com/help/a', node(['header', 'a.logo'])))
+      .toEqual({ team: 'Platform', component: 'Global header' });
+    expect(findOwner(RULES, 'https://example.com/', node(['#cart'], '<div class="cart-widget">')))
+      .toEqual({ team: 'Commerce', component: 'Cart widget' });
+    expect(findOwner(RULES, 'https://example.com/help/a', node(['main p'])))
+      .toEqual({ team: 'Docs', component: 'Help pages' });
+  });
+
+  it('returns null when no rule matches', () => {
+    expect(findOwner(RULES, 'https://example.com/', node(['main p']))).toBeNull();
+  });
+});
+
+describe('buildRemediationIssues with ownership', () => {
+  const results = [
+    makeResult('https://example.com/', [node(['header', 'a']), node(['main p'])]),
+    makeResult('https://example.com/about', [node(['header', 'nav a'])]),
+  ];
+
+  it('splits each page into one occurrence per owner', () => {
+    const [issue] = buildRemediationIssues(results, RULES);
+    expect(issue.occurrences).toHaveLength(3);
+    expect(issue.occurrences[0].owner).toEqual({ team: 'Platform', component: 'Global header' });
+    expect(issue.occurrences[1].owner).toBeNull();
+    expect(issue.totalNodes).toBe(3);
+  });
+
+  it('leaves occurrences unowned when no rules are given', () => {
+    const [issue] = buildRemediationIssues(results);
+    expect(issue.occurrences).toHaveLength(2);
+    expect(issue.occurrences[0].owner).toBeUndefined();
+  });
+
+  it('groups by component with page counts and the unowned bucket last', () => {
+    const groups = groupIssuesByOwner(buildRemediationIssues(results, RULES));
+    expect(groups.map((g) => g.owner?.component ?? null)).toEqual(['Global header', null]);
+    expect(groups[0].pages).toBe(2);
+    expect(groups[0].nodes).toBe(2);
+    expect(groups[0].rules).toEqual([expect.objectContaining({ ruleId: 'color-contrast', nodes: 2 })]);
+    expect(groups[1].pages).toBe(1);
+  });
+
+  it('adds a By Owner section to the markdown report', () => {
+    const md = generateRemediationMarkdown(buildRemediationIssues(results, RULES), 'Test', '2026-03-01');
+    expect(md).toContain('## By Owner');
+    expect(md).toContain('| Platform | Global header | 1 | 2 | 2 |');
+    expect(md).toContain('| Unowned | — | 1 | 1 | 1 |');
+    expect(md).toContain('### https://example.com/ — Platform / Global header');
+  });
+
+  it('omits the section without an ownership file', () => {
+    const md = generateRemediationMarkdown(buildRemediationIssues(results), 'Test', '2026-03-01');
+    expect(md).not.toContain('## By Owner');
+  });
+});
+
+describe('loadOwnership', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `ownership-test-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads a valid file', () => {
+    const path = join(dir, 'owners.json');
+    writeFileSync(path, JSON.stringify({ owners: RULES }));
+    expect(loadOwnership(path)).toEqual(RULES);
+  });
+
+  it('rejects a rule without any matcher', () => {
+    const path = join(dir, 'owners.json');
+    writeFileSync(path, JSON.stringify({ owners: [{ team: 'Platform', component: 'Header' }] }));
+    expect(() => loadOwnership(path)).toThrow();
+  });
+
+  it('throws when the file is missing', () => {
+    expect(() => loadOwnership(join(dir, 'missing.json'))).toThrow('Ownership file not found');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  reflowRuleResults,
+  applyReflowAudit,
+  type PageMeasures,
+  type ReflowAudit,
+} from '../src/scanner/reflowAudit.js';
+import { aggregateResults } from '../src/scanner/resultAggregator.js';
+import type { DetailedScanResult } from '../src/types.js';
+
+const el = (selector: string) => ({ selector, html: `<div class="${selector}">`, rect: { x: 0, y: 0, width: 100, height: 20 } });
+
+const measures = (overrides: Partial<PageMeasures> = {}): PageMeasures => ({
+  viewportWidth: 1280,
+  scrollWidth: 1280,
+  overflowing: [],
+  lost: [],
+  clipped: [],
+  overlapping: [],
+  ...overrides,
+});
+
+const audit = (overrides: Partial<ReflowAudit> = {}): ReflowAudit => ({
+  baseline: measures(),
+  narrow: measures({ viewportWidth: 320, scrollWidth: 320 }),
+  zoomed: measures({ viewportWidth: 640, scrollWidth: 640 }),
+  spaced: measures(),
+  screenshots: {},
+  ...overrides,
+});
+
+describe('reflowRuleResults', () => {
+  it('passes every rule for a page that reflows', () => {
+    const results = reflowRuleResults(audit());
+    expect(results.violations).toEqual([]);
+    expect(results.passes.map((r) => r.ruleId)).toEqual([
+      'reflow-horizontal-scroll',
+      'reflow-content-lost',
+      'zoom-text-clipped',
+      'text-spacing-clipped',
+    ]);
+  });
+
+  it('reports horizontal scrolling at 320 px with the overflowing elements', () => {
+    const results = reflowRuleResults(audit({
+      narrow: measures({ viewportWidth: 320, scrollWidth: 900, overflowing: [el('table')] }),
+      screenshots: { 'reflow-320': '/tmp/reflow-320.png' },
+    }));
+    expect(results.violations[0]).toMatchObject({ ruleId: 'reflow-horizontal-scroll', wcagTags: ['wcag21aa', 'wcag1410'], nodes: 1 });
+    expect(results.violationDetails[0].nodeDetails[0]).toMatchObject({
+      target: ['table'],
+      screenshotPath: '/tmp/reflow-320.png',
+    });
+    expect(results.violationDetails[0].nodeDetails[0].failureSummary).toContain('900px wide');
+  });
+
+  it('falls back to the document when no single element overflows', () => {
+    const results = reflowRuleResults(audit({ narrow: measures({ viewportWidth: 320, scrollWidth: 400 }) }));
+    expect(results.violationDetails[0].nodeDetails[0].target).toEqual(['html']);
+  });
+
+  it('only reports text broken by zoom or spacing, not clipped as loaded', () => {
+    const results = reflowRuleResults(audit({
+      baseline: measures({ clipped: [el('ellipsis')] }),
+      zoomed: measures({ clipped: [el('ellipsis')] }),
+      spaced: measures({ clipped: [el('ellipsis'), el('card-title')], overlapping: [el('card-title'), el('badge')] }),
+    }));
+    expect(results.violations.map((r) => r.ruleId)).toEqual(['text-spacing-clipped']);
+    expect(results.violationDetails[0].nodeDetails.map((n) => n.target[0])).toEqual(['card-title', 'badge']);
+  });
+});
+
+describe('applyReflowAudit', () => {
+  it('maps results onto 1.4.4, 1.4.10 and 1.4.12 and keeps the screenshots', () => {
+    const result: DetailedScanResult = {
+      url: 'https://example.com/',
+      timestamp: '2026-03-01T00:00:00Z',
+      status: 'ok',
+      violations: [],
+      passes: [],
+      incomplete: [],
+      violationDetails: [],
+    };
+    applyReflowAudit(result, audit({
+      narrow: measures({ viewportWidth: 320, scrollWidth: 320, lost: [el('nav')] }),
+      screenshots: { 'reflow-320': '/tmp/reflow-320.png' },
+    }));
+
+    const scs = aggregateResults([result]);
+    expect(scs.get('1.4.10')?.status).toBe('fail');
+    expect(scs.get('1.4.4')?.status).toBe('pass');
+    expect(scs.get('1.4.12')?.status).toBe('pass');
+    expect(result.evidence?.reflowScreenshots).toEqual({ 'reflow-320': '/tmp/reflow-320.png' });
+  });
+});
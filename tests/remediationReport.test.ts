@@ -5,6 +5,11 @@ import {
   wcagScFromTag,
   buildRemediationIssues,
   generateRemediationMarkdown,
+  generateSarif,
+  generateJunitXml,
+  escapeXml,
+  nodeSignature,
+  distinctElements,
 } from '../src/scanner/remediationReport.js';
 import type { DetailedScanResult } from '../src/types.js';
 
@@ -78,6 +83,7 @@ describe('buildRemediationIssues', () => {
   ): DetailedScanResult => ({
     url,
     timestamp: '2025-01-01T00:00:00Z',
+    status: 'ok',
     violations: [],
     passes: [],
     incomplete: [],
@@ -229,4 +235,266 @@ describe('generateRemediationMarkdown', () => {
     const md = generateRemediationMarkdown(issues, 'Test', '2025-01-01');
     expect(md).toContain('| serious | 1 | 5 |');
   });
+
+  it('annotates lifecycle status and lists resolved findings', () => {
+    const issues = [
+      {
+        ruleId: 'image-alt',
+        description: 'desc',
+        impact: 'critical' as const,
+        wcagTags: ['wcag111'],
+        help: 'Images must have alternate text',
+        helpUrl: 'https://example.com',
+        occurrences: [],
+        totalNodes: 1,
+      },
+    ];
+    const comparison = {
+      previousRun: '2026-01-15',
+      issues: new Map([['image-alt', { status: 'regressed' as const, firstSeen: '2025-10-01' }]]),
+      resolved: [{
+        fingerprint: 'abc',
+        ruleId: 'label',
+        selector: '#email',
+        urlTemplate: 'https://example.com/login',
+        help: 'Form elements must have labels',
+        impact: 'critical' as const,
+        status: 'resolved' as const,
+        firstSeen: '2025-10-01',
+        lastSeen: '2026-01-15',
+        resolvedOn: '2026-04-15',
+      }],
+    };
+
+    const md = generateRemediationMarkdown(issues, 'Test', '2025-01-01', undefined, [], comparison);
+    expect(md).toContain('- **Status:** Regressed (first seen 2025-10-01)');
+    expect(md).toContain('**Since last run (2026-01-15):** 0 new, 0 still open, 1 regressed, 1 finding(s) resolved');
+    expect(md).toContain('## Resolved Since Last Run');
+    expect(md).toContain('| label | `#email` | https://example.com/login | 2025-10-01 |');
+  });
+
+  it('lists waived findings in a separate section', () => {
+    const waived = [{
+      suppression: { ruleId: 'region', reason: 'Vendor chat widget', owner: 'web-team', expires: '2026-06-30' },
+      url: 'https://example.com/help',
+      ruleId: 'region',
+      impact: 'moderate' as const,
+      help: 'All page content should be contained by landmarks',
+      nodes: [{ target: ['#chat'], html: '<div id="chat"></div>', failureSummary: 'Fix' }],
+    }];
+
+    const md = generateRemediationMarkdown([], 'Test', '2025-01-01', undefined, waived);
+    expect(md).toContain('## Waived');
+    expect(md).toContain('| region | https://example.com/help | 1 | Vendor chat widget | web-team | 2026-06-30 |');
+  });
+
+  it('lists an element repeated across pages once and counts it separately', () => {
+    const button = { target: ['header', 'button:nth-child(2)'], html: '<button class="menu"></button>', failureSummary: 'Add a name' };
+    const issues = [{
+      ruleId: 'button-name',
+      description: 'Buttons must have discernible text',
+      impact: 'critical' as const,
+      wcagTags: ['wcag412'],
+      help: 'Buttons must have discernible text',
+      helpUrl: 'https://dequeuniversity.com/rules/button-name',
+      occurrences: [
+        { url: 'https://example.com/a', nodes: [button] },
+        { url: 'https://example.com/b', nodes: [button] },
+        { url: 'https://example.com/c', nodes: [button, { ...button, target: ['main', 'button'] }] },
+      ],
+      totalNodes: 4,
+    }];
+
+    const md = generateRemediationMarkdown(issues, 'Test', '2025-01-01');
+    expect(md).toContain('| critical | 1 | 4 | 2 |');
+    expect(md).toContain('(4 occurrences, 2 distinct elements)');
+    expect(md.match(/`header > button:nth-child\(2\)`/g)).toHaveLength(1);
+    expect(md).toContain('_1 element(s) already listed for an earlier page._');
+    expect(md).toContain('`main > button`');
+  });
+});
+
+describe('buildRemediationIssues with scan variants', () => {
+  const result = (variant: string): DetailedScanResult => ({
+    url: 'https://example.com/',
+    variant,
+    timestamp: '2026-03-01T00:00:00Z',
+    status: 'ok',
+    violations: [],
+    passes: [],
+    incomplete: [],
+    violationDetails: variant.endsWith('mobile')
+      ? [{
+        ruleId: 'target-size',
+        description: 'Ensure touch targets are large enough',
+        impact: 'serious',
+        wcagTags: ['wcag258'],
+        help: 'All touch targets must be 24px large',
+        helpUrl: 'https://dequeuniversity.com/rules/target-size',
+        nodeDetails: [{ target: ['nav a'], html: '<a>', failureSummary: 'Fix' }],
+      }]
+      : [],
+  });
+
+  it('tags occurrences and reports mobile-only issues', () => {
+    const issues = buildRemediationIssues([result('chromium/desktop'), result('chromium/mobile')]);
+    expect(issues[0].occurrences[0].variant).toBe('chromium/mobile');
+    expect(issues[0].variants).toEqual(['chromium/mobile']);
+    expect(issues[0].variantScope).toBe('mobile only');
+
+    const md = generateRemediationMarkdown(issues, 'Test', '2026-03-01');
+    expect(md).toContain('- **Variants:** chromium/mobile (mobile only)');
+    expect(md).toContain('### https://example.com/ (chromium/mobile)');
+  });
+
+  it('leaves variants off single-variant scans', () => {
+    const { variant: _, ...plain } = result('chromium/mobile');
+    expect(buildRemediationIssues([plain])[0]).not.toHaveProperty('variants');
+  });
+});
+
+describe('buildRemediationIssues with interaction states', () => {
+  it('labels occurrences and issues with the state they were found in', () => {
+    const result: DetailedScanResult = {
+      url: 'https://example.com/contact',
+      state: 'form-errors',
+      timestamp: '2026-03-01T00:00:00Z',
+      status: 'ok',
+      violations: [],
+      passes: [],
+      incomplete: [],
+      violationDetails: [{
+        ruleId: 'aria-valid-attr-value',
+        description: 'Ensure ARIA attributes have valid values',
+        impact: 'critical',
+        wcagTags: ['wcag412'],
+        help: 'ARIA attributes must conform to valid values',
+        helpUrl: 'https://dequeuniversity.com/rules/aria-valid-attr-value',
+        nodeDetails: [{ target: ['#email'], html: '<input aria-describedby="missing">', failureSummary: 'Fix' }],
+      }],
+    };
+    const issues = buildRemediationIssues([result]);
+    expect(issues[0].occurrences[0].state).toBe('form-errors');
+    expect(issues[0].states).toEqual(['form-errors']);
+
+    const md = generateRemediationMarkdown(issues, 'Test', '2026-03-01');
+    expect(md).toContain('- **States:** form-errors');
+    expect(md).toContain('### https://example.com/contact [state: form-errors]');
+  });
+});
+
+describe('distinctElements', () => {
+  it('merges nodes with the same normalized selector and markup across pages', () => {
+    const node = (target: string[], html: string) => ({ target, html, failureSummary: 'Fix' });
+    const elements = distinctElements([
+      { url: 'https://example.com/a', nodes: [node(['li:nth-child(1)', 'a'], '<a  href="/x">')] },
+      { url: 'https://example.com/b', nodes: [node(['li:nth-child(4)', 'a'], '<a href="/x">'), node(['footer a'], '<a href="/x">')] },
+    ]);
+    expect(elements).toHaveLength(2);
+    expect(elements[0].urls).toEqual(['https://example.com/a', 'https://example.com/b']);
+    expect(elements[1].urls).toEqual(['https://example.com/b']);
+  });
+
+  it('keeps elements with different markup apart', () => {
+    expect(nodeSignature({ target: ['a'], html: '<a href="/x">' }))
+      .not.toBe(nodeSignature({ target: ['a'], html: '<a href="/y">' }));
+  });
+});
+
+describe('generateSarif', () => {
+  const issues = [
+    {
+      ruleId: 'image-alt',
+      description: 'Ensures <img> elements have alternate text',
+      impact: 'critical' as const,
+      wcagTags: ['wcag2a', 'wcag111'],
+      help: 'Images must have alternate text',
+      helpUrl: 'https://dequeuniversity.com/rules/axe/4.11/image-alt',
+      occurrences: [
+        { url: 'https://example.com/a', nodes: [{ target: ['#logo'], html: '<img id="logo">', failureSummary: 'Add alt' }] },
+        { url: 'https://example.com/b', nodes: [{ target: ['main', 'img'], html: '<img>', failureSummary: 'Add alt' }] },
+      ],
+      totalNodes: 2,
+    },
+    {
+      ruleId: 'region',
+      description: 'Ensures all page content is contained by landmarks',
+      impact: 'moderate' as const,
+      wcagTags: ['best-practice'],
+      help: 'All page content should be contained by landmarks',
+      helpUrl: 'https://dequeuniversity.com/rules/axe/4.11/region',
+      occurrences: [{ url: 'https://example.com/a', nodes: [{ target: ['#banner'], html: '<div>', failureSummary: 'Fix' }] }],
+      totalNodes: 1,
+    },
+  ];
+
+  it('emits one rule per issue with help URI, level and WCAG tags', () => {
+    const log = JSON.parse(generateSarif(issues));
+    expect(log.version).toBe('2.1.0');
+    const rules = log.runs[0].tool.driver.rules;
+    expect(rules[0]).toMatchObject({
+      id: 'image-alt',
+      helpUri: 'https://dequeuniversity.com/rules/axe/4.11/image-alt',
+      defaultConfiguration: { level: 'error' },
+      properties: { tags: ['accessibility', 'WCAG 1.1.1'] },
+    });
+    expect(rules[1].defaultConfiguration.level).toBe('warning');
+  });
+
+  it('emits one result per page and element', () => {
+    const results = JSON.parse(generateSarif(issues)).runs[0].results;
+    expect(results).toHaveLength(3);
+    expect(results[1]).toMatchObject({
+      ruleId: 'image-alt',
+      ruleIndex: 0,
+      level: 'error',
+      locations: [{
+        physicalLocation: { artifactLocation: { uri: 'https://example.com/b' } },
+        logicalLocations: [{ fullyQualifiedName: 'main > img', kind: 'element' }],
+      }],
+    });
+    expect(results[1].partialFingerprints['accessibilityFinding/v1']).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe('generateJunitXml', () => {
+  const result: DetailedScanResult = {
+    url: 'https://example.com/a?x=1&y=2',
+    timestamp: '2025-01-01T00:00:00Z',
+    status: 'ok',
+    violations: [{ ruleId: 'image-alt', description: 'desc', impact: 'critical', wcagTags: ['wcag111'], nodes: 1 }],
+    passes: [{ ruleId: 'document-title', description: 'desc', impact: null, wcagTags: ['wcag242'], nodes: 1 }],
+    incomplete: [{ ruleId: 'color-contrast', description: 'desc', impact: 'serious', wcagTags: ['wcag143'], nodes: 2 }],
+    violationDetails: [{
+      ruleId: 'image-alt',
+      description: 'desc',
+      impact: 'critical',
+      wcagTags: ['wcag111'],
+      help: 'Images must have alternate text',
+      helpUrl: 'https://example.com',
+      nodeDetails: [{ target: ['#logo'], html: '<img>', failureSummary: 'Add an alt attribute' }],
+    }],
+  };
+
+  it('writes one testsuite per page with a testcase per rule', () => {
+    const xml = generateJunitXml([result], 'Test');
+    expect(xml).toContain('<testsuites name="Test accessibility" tests="3" failures="1" errors="0" skipped="1">');
+    expect(xml).toContain('<testsuite name="https://example.com/a?x=1&amp;y=2" tests="3" failures="1" errors="0" skipped="1"');
+    expect(xml).toContain('<testcase name="document-title" classname="https://example.com/a?x=1&amp;y=2"/>');
+    expect(xml).toContain('<failure message="Images must have alternate text (1 element(s), critical impact)" type="critical">#logo\nAdd an alt attribute</failure>');
+    expect(xml).toContain('<skipped message="Needs manual review"/>');
+  });
+
+  it('reports pages that failed to load as errors', () => {
+    const failed: DetailedScanResult = { ...result, status: 'timeout', error: 'Timed out', violations: [], passes: [], incomplete: [], violationDetails: [] };
+    const xml = generateJunitXml([failed], 'Test');
+    expect(xml).toContain('errors="1"');
+    expect(xml).toContain('<error message="timeout">Timed out</error>');
+  });
+});
+
+describe('escapeXml', () => {
+  it('escapes markup and quote characters', () => {
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+  });
 });
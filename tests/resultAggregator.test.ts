@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { parseWcagTag, aggregateResults } from '../src/scanner/resultAggregator.js';
+import {
+  parseWcagTag,
+  aggregateResults,
+  aggregateRuleResults,
+  isFailedScan,
+  summarizeScanFailures,
+  pageKey,
+  variantScope,
+} from '../src/scanner/resultAggregator.js';
 import type { ScanResult } from '../src/types.js';
 
 describe('parseWcagTag', () => {
@@ -30,6 +38,7 @@ describe('aggregateResults', () => {
   ): ScanResult => ({
     url,
     timestamp: new Date().toISOString(),
+    status: 'ok',
     violations: violations.map((v) => ({
       ruleId: v.ruleId,
       description: v.desc,
@@ -98,4 +107,174 @@ describe('aggregateResults', () => {
     const aggregated = aggregateResults([]);
     expect(aggregated.size).toBe(0);
   });
+
+  it('excludes failed pages from totals', () => {
+    const results = [
+      makeScanResult('https://example.com/1', [], [{ ruleId: 'image-alt', tags: ['wcag111'] }]),
+      { ...makeScanResult('https://example.com/2'), status: 'timeout' as const, error: 'Timeout 60000ms exceeded' },
+    ];
+
+    const sc111 = aggregateResults(results).get('1.1.1');
+    expect(sc111!.status).toBe('pass');
+    expect(sc111!.totalUrls).toBe(1);
+  });
+});
+
+describe('summarizeScanFailures', () => {
+  const result = (url: string, status: ScanResult['status']): ScanResult => ({
+    url,
+    timestamp: '2025-01-01T00:00:00Z',
+    status,
+    violations: [],
+    passes: [],
+    incomplete: [],
+  });
+
+  it('reports failed pages and the failure rate', () => {
+    const summary = summarizeScanFailures([
+      result('https://example.com/1', 'ok'),
+      result('https://example.com/2', 'http-error'),
+      result('https://example.com/3', 'navigation-error'),
+      result('https://example.com/4', 'ok'),
+    ]);
+    expect(summary.failed.map((r) => r.url)).toEqual(['https://example.com/2', 'https://example.com/3']);
+    expect(summary.failureRate).toBe(0.5);
+  });
+
+  it('returns a zero rate for no results', () => {
+    expect(summarizeScanFailures([]).failureRate).toBe(0);
+  });
+
+  it('treats results without a status as scanned', () => {
+    const legacy = { ...result('https://example.com', 'ok'), status: undefined } as unknown as ScanResult;
+    expect(isFailedScan(legacy)).toBe(false);
+  });
+});
+
+describe('aggregateRuleResults', () => {
+  const page = (url: string, violations: string[], passes: string[], incomplete: string[] = []): ScanResult => {
+    const rule = (ruleId: string, nodes: number) => ({
+      ruleId,
+      description: `${ruleId} description`,
+      impact: 'serious' as const,
+      wcagTags: ruleId === 'region' ? ['best-practice'] : ['wcag2a', 'wcag111'],
+      nodes,
+    });
+    return {
+      url,
+      timestamp: '2025-01-01T00:00:00Z',
+      status: 'ok',
+      violations: violations.map((id) => rule(id, 2)),
+      passes: passes.map((id) => rule(id, 0)),
+      incomplete: incomplete.map((id) => rule(id, 1)),
+    };
+  };
+
+  it('keeps each rule separate within the same SC', () => {
+    const rules = aggregateRuleResults([
+      page('https://example.com/1', ['image-alt'], ['frame-title']),
+      page('https://example.com/2', [], ['image-alt', 'frame-title']),
+    ]);
+
+    expect(rules.get('image-alt')).toMatchObject({
+      status: 'fail',
+      wcagScs: ['1.1.1'],
+      failingUrls: ['https://example.com/1'],
+      violationNodes: 2,
+      passingUrls: 1,
+      totalUrls: 2,
+    });
+    expect(rules.get('frame-title')!.status).toBe('pass');
+  });
+
+  it('records the worst impact and node counts', () => {
+    const minor = page('https://example.com/1', ['image-alt'], []);
+    minor.violations[0].impact = 'minor';
+    const rules = aggregateRuleResults([
+      minor,
+      page('https://example.com/2', ['image-alt'], []),
+      page('https://example.com/3', [], ['image-alt']),
+    ]);
+    expect(rules.get('image-alt')).toMatchObject({ worstImpact: 'serious', violationNodes: 4, passingNodes: 0 });
+  });
+
+  it('includes best-practice rules without a WCAG SC', () => {
+    const rules = aggregateRuleResults([page('https://example.com', ['region'], [])]);
+    expect(rules.get('region')).toMatchObject({ status: 'fail', wcagScs: [] });
+  });
+
+  it('marks a rule incomplete when it only needs review', () => {
+    const rules = aggregateRuleResults([page('https://example.com', [], ['image-alt'], ['image-alt'])]);
+    expect(rules.get('image-alt')!.status).toBe('incomplete');
+  });
+
+  it('ignores pages that failed to scan', () => {
+    const failed = { ...page('https://example.com/down', ['image-alt'], []), status: 'timeout' as const };
+    const rules = aggregateRuleResults([page('https://example.com', [], ['image-alt']), failed]);
+    expect(rules.get('image-alt')).toMatchObject({ status: 'pass', totalUrls: 1 });
+  });
+});
+
+describe('scan variants', () => {
+  const result = (url: string, variant: string, failing: boolean): ScanResult => {
+    const rule = { ruleId: 'target-size', description: 'Touch targets too small', impact: 'serious' as const, wcagTags: ['wcag258'], nodes: 1 };
+    return {
+      url,
+      variant,
+      timestamp: '2026-03-01T00:00:00Z',
+      status: 'ok',
+      violations: failing ? [rule] : [],
+      passes: failing ? [] : [rule],
+      incomplete: [],
+    };
+  };
+  const results = [
+    result('https://example.com/', 'chromium/desktop', false),
+    result('https://example.com/', 'chromium/mobile', true),
+  ];
+
+  it('keys pages by URL and variant', () => {
+    expect(pageKey(results[1])).toBe('https://example.com/ (chromium/mobile)');
+    expect(pageKey({ url: 'https://example.com/' })).toBe('https://example.com/');
+    expect(pageKey({ ...results[1], state: 'menu-open' })).toBe('https://example.com/ (chromium/mobile) [menu-open]');
+  });
+
+  it('counts each URL once and keeps the failing variants', () => {
+    const sc = aggregateResults(results).get('2.5.8')!;
+    expect(sc).toMatchObject({ status: 'fail', urlsWithViolations: 1, totalUrls: 1, failingVariants: ['chromium/mobile'] });
+
+    const rule = aggregateRuleResults(results).get('target-size')!;
+    expect(rule.failingUrls).toEqual(['https://example.com/']);
+    expect(rule.totalUrls).toBe(1);
+    expect(rule.failingVariants).toEqual(['chromium/mobile']);
+  });
+
+  it('reports failing interaction states separately from URLs', () => {
+    const withState = [results[0], { ...results[0], state: 'dialog-open', violations: results[1].violations, passes: [] }];
+    const sc = aggregateResults(withState).get('2.5.8')!;
+    expect(sc).toMatchObject({ urlsWithViolations: 1, totalUrls: 1, failingStates: ['dialog-open'] });
+
+    const rule = aggregateRuleResults(withState).get('target-size')!;
+    expect(rule).toMatchObject({ failingUrls: ['https://example.com/'], passingUrls: 1, failingStates: ['dialog-open'] });
+  });
+
+  it('leaves failingVariants out for results without variants', () => {
+    const plain = results.map(({ variant: _, ...r }) => r);
+    expect(aggregateResults(plain).get('2.5.8')).not.toHaveProperty('failingVariants');
+  });
+});
+
+describe('variantScope', () => {
+  const scanned = ['chromium/desktop', 'chromium/mobile', 'webkit/desktop', 'webkit/mobile'];
+
+  it('names the viewport or engine an issue is limited to', () => {
+    expect(variantScope(['chromium/mobile', 'webkit/mobile'], scanned)).toBe('mobile only');
+    expect(variantScope(['webkit/desktop', 'webkit/mobile'], scanned)).toBe('webkit only');
+    expect(variantScope(['webkit/mobile'], scanned)).toBe('mobile only, webkit only');
+  });
+
+  it('falls back to counts when no dimension is limited', () => {
+    expect(variantScope(['chromium/mobile', 'webkit/desktop'], scanned)).toBe('2 of 4 variants');
+    expect(variantScope(scanned, scanned)).toBe('all variants');
+  });
 });
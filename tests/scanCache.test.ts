@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  findResumableRun,
+  loadScanRunResults,
+  readCachedResults,
+  recordScannedPage,
+  saveScanRun,
+  scannedPages,
+  scanRunPath,
+  scanSettingsHash,
+  writeCachedResults,
+} from '../src/scanner/scanCache.js';
+import type { DetailedScanResult, ScanRun, VpatConfig } from '../src/types.js';
+
+const result = (url: string, overrides: Partial<DetailedScanResult> = {}): DetailedScanResult => ({
+  url,
+  timestamp: '2026-03-01T00:00:00Z',
+  status: 'ok',
+  violations: [],
+  passes: [],
+  incomplete: [],
+  violationDetails: [],
+  ...overrides,
+});
+
+const newRun = (overrides: Partial<ScanRun> = {}): ScanRun => ({
+  product: 'Acme',
+  startedAt: '2026-03-01T00:00:00Z',
+  settings: 'abc',
+  completed: false,
+  entries: [],
+  ...overrides,
+});
+
+describe('scan cache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = join(tmpdir(), `vpat-cache-test-${Date.now()}`);
+    mkdirSync(cacheDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('stores identical results once under their content hash', () => {
+    const hash = writeCachedResults(cacheDir, [result('https://example.com/')]);
+    expect(writeCachedResults(cacheDir, [result('https://example.com/')])).toBe(hash);
+    expect(readdirSync(join(cacheDir, 'results'))).toEqual([`${hash}.json`]);
+    expect(readCachedResults(cacheDir, hash)[0].url).toBe('https://example.com/');
+  });
+
+  it('records pages with their states as they finish and skips failed pages', () => {
+    const path = scanRunPath(cacheDir, 'Acme', '2026-03-01T10-00-00');
+    const run = newRun();
+    recordScannedPage(cacheDir, path, run, [
+      result('https://example.com/a', { variant: 'chromium/mobile' }),
+      result('https://example.com/a', { variant: 'chromium/mobile', state: 'menu' }),
+    ]);
+    recordScannedPage(cacheDir, path, run, [result('https://example.com/b', { status: 'timeout' })]);
+
+    expect(run.entries).toHaveLength(1);
+    expect(scannedPages(run)).toEqual(new Set(['https://example.com/a (chromium/mobile)']));
+    expect(loadScanRunResults(cacheDir, run).map((r) => r.state)).toEqual([undefined, 'menu']);
+    expect(findResumableRun(cacheDir, 'Acme', 'abc')?.run.entries).toHaveLength(1);
+  });
+
+  it('resumes only the newest unfinished run with the same settings', () => {
+    saveScanRun(scanRunPath(cacheDir, 'Acme', '2026-03-01T10-00-00'), newRun({ startedAt: 'first' }));
+    saveScanRun(scanRunPath(cacheDir, 'Acme', '2026-03-02T10-00-00'), newRun({ startedAt: 'second' }));
+    saveScanRun(scanRunPath(cacheDir, 'Acme', '2026-03-03T10-00-00'), newRun({ startedAt: 'done', completed: true }));
+    saveScanRun(scanRunPath(cacheDir, 'Acme', '2026-03-04T10-00-00'), newRun({ startedAt: 'other', settings: 'def' }));
+
+    expect(findResumableRun(cacheDir, 'Acme', 'abc')?.run.startedAt).toBe('second');
+    expect(findResumableRun(cacheDir, 'Other', 'abc')).toBeNull();
+  });
+});
+
+describe('scanSettingsHash', () => {
+  const config = {
+    scanOptions: { concurrency: 3, timeout: 60000, waitForSelector: 'body' },
+    axeTags: ['wcag2a', 'wcag2aa'],
+    states: {},
+    auth: null,
+  } as unknown as VpatConfig;
+
+  it('ignores concurrency but not settings that change findings', () => {
+    const hash = scanSettingsHash(config);
+    expect(scanSettingsHash({ ...config, scanOptions: { ...config.scanOptions, concurrency: 8 } })).toBe(hash);
+    expect(scanSettingsHash({ ...config, axeTags: ['wcag2a'] })).not.toBe(hash);
+  });
+});
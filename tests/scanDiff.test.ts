@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { diffScanResults } from '../src/diff/scanDiff.js';
+import { buildScanDiffSections, generateDiffMarkdown } from '../src/diff/diffReport.js';
+import type { DetailedScanResult, Impact } from '../src/types.js';
+
+const page = (url: string, violations: [string, Impact, number][], status: DetailedScanResult['status'] = 'ok'): DetailedScanResult => ({
+  url,
+  timestamp: '2026-01-01T00:00:00Z',
+  status,
+  violations: violations.map(([ruleId, impact, nodes]) => ({ ruleId, description: `${ruleId} description`, impact, wcagTags: [], nodes })),
+  passes: [],
+  incomplete: [],
+  violationDetails: [],
+});
+
+describe('diffScanResults', () => {
+  it('reports new, resolved and changed rules by page', () => {
+    const before = [
+      page('https://example.com/a', [['image-alt', 'critical', 2], ['region', 'moderate', 1]]),
+      page('https://example.com/b', [['image-alt', 'critical', 1]]),
+    ];
+    const after = [
+      page('https://example.com/a', [['image-alt', 'critical', 2], ['color-contrast', 'serious', 4]]),
+      page('https://example.com/b', []),
+    ];
+
+    const diff = diffScanResults(before, after);
+    expect(diff.rules.map((r) => [r.ruleId, r.status])).toEqual([
+      ['image-alt', 'changed'],
+      ['color-contrast', 'new'],
+      ['region', 'resolved'],
+    ]);
+    expect(diff.rules[0]).toMatchObject({ beforeNodes: 3, afterNodes: 2, fixedPages: ['https://example.com/b'], newPages: [] });
+  });
+
+  it('leaves out unchanged rules and tracks added and removed pages', () => {
+    const before = [page('https://example.com/a', [['region', 'moderate', 1]]), page('https://example.com/old', [])];
+    const after = [page('https://example.com/a', [['region', 'moderate', 1]]), page('https://example.com/new', [])];
+
+    const diff = diffScanResults(before, after);
+    expect(diff.rules).toEqual([]);
+    expect(diff.pagesAdded).toEqual(['https://example.com/new']);
+    expect(diff.pagesRemoved).toEqual(['https://example.com/old']);
+  });
+
+  it('does not count pages that failed to load as fixed', () => {
+    const before = [page('https://example.com/a', [['region', 'moderate', 1]])];
+    const after = [page('https://example.com/a', [], 'timeout')];
+
+    expect(diffScanResults(before, after).rules[0].fixedPages).toEqual([]);
+  });
+});
+
+describe('generateDiffMarkdown', () => {
+  it('renders sections and tables', () => {
+    const diff = diffScanResults(
+      [page('https://example.com/a', [])],
+      [page('https://example.com/a', [['image-alt', 'critical', 2]])]
+    );
+    const md = generateDiffMarkdown({ title: 'Scan Change Summary', before: 'h1.json', after: 'h2.json', sections: buildScanDiffSections(diff) });
+
+    expect(md).toContain('# Scan Change Summary');
+    expect(md).toContain('### New Failures');
+    expect(md).toContain('| image-alt: image-alt description | critical | 1 | 2 |');
+  });
+});
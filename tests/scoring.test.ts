@@ -4,8 +4,12 @@ import {
   textsMatch,
   scoringSummary,
   findRelevantResults,
+  findRelevantRuleResults,
+  scoreQuestions,
+  gradeRuleResults,
+  PARTIAL_SCORING,
 } from '../src/mapping/index.js';
-import type { QuestionScore, WcagScResult } from '../src/types.js';
+import type { AxeRuleAggregate, ManualAnswer, ParsedProduct, QuestionScore, WcagScResult } from '../src/types.js';
 
 describe('normalizeText', () => {
   it('lowercases text', () => {
@@ -105,6 +109,14 @@ describe('scoringSummary', () => {
     expect(summary.na).toBe(1);
   });
 
+  it('counts fractional scores as partial support', () => {
+    const summary = scoringSummary([
+      { rowIndex: 1, tableIndex: 1, questionText: 'Q1', score: 0.5, weight: 2, weightedScore: 1, comment: '', automatable: true },
+      { rowIndex: 2, tableIndex: 1, questionText: 'Q2', score: 1, weight: 2, weightedScore: 2, comment: '', automatable: true },
+    ]);
+    expect(summary).toMatchObject({ passing: 1, partial: 1, failing: 0 });
+  });
+
   it('handles empty array', () => {
     const summary = scoringSummary([]);
     expect(summary).toEqual({
@@ -112,6 +124,7 @@ describe('scoringSummary', () => {
       automated: 0,
       manual: 0,
       passing: 0,
+      partial: 0,
       failing: 0,
       na: 0,
     });
@@ -172,3 +185,306 @@ describe('findRelevantResults', () => {
     expect(results).toHaveLength(0);
   });
 });
+
+describe('scoreQuestions with rule results', () => {
+  const makeRule = (
+    ruleId: string,
+    status: AxeRuleAggregate['status'],
+    failingUrls: string[] = []
+  ): AxeRuleAggregate => ({
+    ruleId,
+    description: '',
+    status,
+    wcagScs: ['1.1.1'],
+    failingUrls,
+    violationNodes: failingUrls.length * 2,
+    passingNodes: 4,
+    worstImpact: failingUrls.length > 0 ? 'serious' : null,
+    passingUrls: 2 - failingUrls.length,
+    incompleteUrls: status === 'incomplete' ? 1 : 0,
+    totalUrls: 2,
+  });
+
+  const product: ParsedProduct = {
+    name: 'Test',
+    productIndex: 0,
+    standardsTableIndex: 0,
+    tables: [{
+      tableIndex: 1,
+      category: 'perceivable',
+      rows: [
+        { rowIndex: 1, type: 'section', cells: [], sectionName: '1.1: Non-Text Content' },
+        {
+          rowIndex: 2,
+          type: 'question',
+          cells: [],
+          questionText: 'All images, form image buttons, and image map hot spots have appropriate, equivalent alternative text.',
+          weight: 2,
+        },
+        { rowIndex: 3, type: 'question', cells: [], questionText: 'Frames and iframes are appropriately titled.', weight: 1 },
+      ],
+    }],
+  };
+
+  const wcagResults = new Map<string, WcagScResult>([
+    ['1.1.1', { sc: '1.1.1', status: 'fail', totalViolations: 2, urlsWithViolations: 1, totalUrls: 2, topIssues: [] }],
+  ]);
+
+  it('fails only the question whose mapped rules have violations', () => {
+    const ruleResults = new Map([
+      ['image-alt', makeRule('image-alt', 'fail', ['https://example.com/about'])],
+      ['frame-title', makeRule('frame-title', 'pass')],
+    ]);
+
+    const [images, frames] = scoreQuestions(product, wcagResults, { ruleResults });
+    expect(images.score).toBe(0);
+    expect(images.comment).toBe('image-alt: 2 violation(s) on 1 page(s) (/about)');
+    expect(frames.score).toBe(1);
+    expect(frames.comment).toBe('No issues found for frame-title across 2 page(s).');
+  });
+
+  it('gives partial credit when a minor issue affects few pages', () => {
+    const imageAlt = { ...makeRule('image-alt', 'fail', ['https://example.com/about']), worstImpact: 'minor' as const };
+    const ruleResults = new Map([['image-alt', imageAlt]]);
+
+    const [images] = scoreQuestions(product, wcagResults, { ruleResults, scoring: PARTIAL_SCORING });
+    expect(images.score).toBe(0.5);
+    expect(images.weightedScore).toBe(1);
+    expect(images.comment).toBe('Partially supports — image-alt: 2 violation(s) on 1 page(s) (/about)');
+    expect(images.verdict).toEqual({
+      conformance: 'Partially Supports',
+      affectedPages: 1,
+      totalPages: 2,
+      worstImpact: 'minor',
+      failingNodes: 2,
+      passingNodes: 4,
+    });
+  });
+
+  it('names failing variants and states without mangling the page path', () => {
+    const imageAlt = {
+      ...makeRule('image-alt', 'fail', ['https://example.com/about']),
+      failingVariants: ['chromium/mobile'],
+      failingStates: ['dialog-open'],
+    };
+    const [images] = scoreQuestions(product, wcagResults, { ruleResults: new Map([['image-alt', imageAlt]]) });
+    expect(images.comment).toBe('image-alt: 2 violation(s) on 1 page(s) (/about; chromium/mobile; states: dialog-open)');
+  });
+
+  it('scores any failure as 0 without partial scoring configured', () => {
+    const imageAlt = { ...makeRule('image-alt', 'fail', ['https://example.com/about']), worstImpact: 'minor' as const };
+    const [images] = scoreQuestions(product, wcagResults, { ruleResults: new Map([['image-alt', imageAlt]]) });
+    expect(images.score).toBe(0);
+    expect(images.verdict?.conformance).toBe('Does Not Support');
+  });
+
+  it('leaves a question unscored when none of its rules applied', () => {
+    const ruleResults = new Map([['image-alt', makeRule('image-alt', 'pass')]]);
+    const frames = scoreQuestions(product, wcagResults, { ruleResults })[1];
+    expect(frames.score).toBeNull();
+    expect(frames.comment).toContain('frame-title, frame-title-unique');
+  });
+
+  it('falls back to SC-level results without rule results', () => {
+    const frames = scoreQuestions(product, wcagResults)[1];
+    expect(frames.score).toBe(0);
+  });
+
+  describe('with manual answers', () => {
+    const answer: ManualAnswer = {
+      score: 1,
+      comment: 'Iframe titles checked in the editor',
+      reviewer: 'Sam Lee',
+      reviewedOn: '2026-09-01',
+      evidence: ['https://example.com/audit/42'],
+      validUntil: '2027-03-01',
+    };
+    const today = new Date('2026-10-01T12:00:00Z');
+
+    it('applies a valid answer ahead of scan results with attribution', () => {
+      const ruleResults = new Map([['frame-title', makeRule('frame-title', 'fail', ['https://example.com/about'])]]);
+      const [images, frames] = scoreQuestions(product, wcagResults, {
+        ruleResults,
+        manualAnswers: new Map([['1.1.1-7', answer]]),
+        today,
+      });
+      expect(images.questionId).toBe('1.1.1');
+      expect(frames).toMatchObject({ questionId: '1.1.1-7', score: 1, weightedScore: 1, source: 'manual', manualAnswer: answer });
+      expect(frames.comment).toBe(
+        'Iframe titles checked in the editor (Reviewed by Sam Lee on 2026-09-01; evidence: https://example.com/audit/42)'
+      );
+      expect(frames.verdict).toBeUndefined();
+    });
+
+    it('flags a stale answer and keeps the automated score', () => {
+      const ruleResults = new Map([['frame-title', makeRule('frame-title', 'pass')]]);
+      const stale = { ...answer, score: 0, validUntil: '2026-09-30' };
+      const frames = scoreQuestions(product, wcagResults, {
+        ruleResults,
+        manualAnswers: new Map([['1.1.1-7', stale]]),
+        today,
+      })[1];
+      expect(frames).toMatchObject({ score: 1, source: 'scan', staleAnswer: stale });
+      expect(frames.manualAnswer).toBeUndefined();
+    });
+
+    it('notes an expired answer on a question left for review', () => {
+      const stale = { ...answer, validUntil: '2026-09-30' };
+      const frames = scoreQuestions(product, wcagResults, {
+        ruleResults: new Map(),
+        manualAnswers: new Map([['1.1.1-7', stale]]),
+        today,
+      })[1];
+      expect(frames.score).toBeNull();
+      expect(frames.comment).toContain('Answer by Sam Lee (2026-09-01) expired on 2026-09-30.');
+    });
+  });
+
+  it('finds rule results in mapping order', () => {
+    const ruleResults = new Map([
+      ['svg-img-alt', makeRule('svg-img-alt', 'pass')],
+      ['image-alt', makeRule('image-alt', 'pass')],
+    ]);
+    expect(findRelevantRuleResults(['image-alt', 'role-img-alt', 'svg-img-alt'], ruleResults).map((r) => r.ruleId))
+      .toEqual(['image-alt', 'svg-img-alt']);
+  });
+});
+
+describe('scoreQuestions with a target standard', () => {
+  const product: ParsedProduct = {
+    name: 'Test',
+    productIndex: 0,
+    standardsTableIndex: 0,
+    tables: [{
+      tableIndex: 1,
+      category: 'perceivable',
+      rows: [
+        { rowIndex: 1, type: 'section', cells: [], sectionName: '1.4: Distinguishable' },
+        { rowIndex: 2, type: 'question', cells: [], questionText: 'Text and images of text have a contrast ratio of at least 4.5:1.', weight: 2 },
+        { rowIndex: 3, type: 'question', cells: [], questionText: 'Text and images of text have a contrast ratio of at least 7:1.', weight: 1 },
+      ],
+    }],
+  };
+  const wcagResults = new Map<string, WcagScResult>([
+    ['1.4.3', { sc: '1.4.3', status: 'pass', totalViolations: 0, urlsWithViolations: 0, totalUrls: 1, topIssues: [] }],
+  ]);
+
+  it('leaves questions outside the standard unscored', () => {
+    const [minimum, enhanced] = scoreQuestions(product, wcagResults, { standard: { version: '2.1', level: 'AA' } });
+    expect(minimum.score).toBe(1);
+    expect(enhanced).toMatchObject({ score: null, outOfScope: true });
+    expect(enhanced.comment).toBe('Not required for WCAG 2.1 Level AA (1.4.6).');
+  });
+});
+
+describe('scoreQuestions with the keyboard audit switched off', () => {
+  const product: ParsedProduct = {
+    name: 'Test',
+    productIndex: 0,
+    standardsTableIndex: 0,
+    tables: [{
+      tableIndex: 2,
+      category: 'operable',
+      rows: [
+        { rowIndex: 1, type: 'section', cells: [], sectionName: '2.1: Keyboard Accessible' },
+        {
+          rowIndex: 2,
+          type: 'question',
+          cells: [],
+          questionText: 'Keyboard focus is never locked or trapped at one particular page element. The user can navigate to and from all navigable page elements using only a keyboard.',
+          weight: 3,
+        },
+        { rowIndex: 3, type: 'section', cells: [], sectionName: '2.4: Navigable' },
+        { rowIndex: 4, type: 'question', cells: [], questionText: 'It is visually apparent which page element has the current keyboard focus', weight: 1, score: '0', comment: 'Focus ring removed' },
+      ],
+    }],
+  };
+  // axe-core ran, but no kbd-* rules did
+  const ruleResults = new Map<string, AxeRuleAggregate>([['image-alt', {
+    ruleId: 'image-alt', description: '', status: 'pass', wcagScs: ['1.1.1'], failingUrls: [], violationNodes: 0,
+    passingNodes: 2, worstImpact: null, passingUrls: 1, incompleteUrls: 0, totalUrls: 1,
+  }]]);
+
+  it('keeps carried-forward and template answers for audit-only questions', () => {
+    const carryForwardScores = new Map<string, QuestionScore>([['2:2', {
+      rowIndex: 2, tableIndex: 2, questionText: '', score: 1, weight: 3, weightedScore: 3, comment: 'Checked by QA', automatable: false,
+    }]]);
+    const [trap, focus] = scoreQuestions(product, new Map(), { ruleResults, carryForwardScores });
+    expect(trap).toMatchObject({ score: 1, weightedScore: 3, comment: 'Checked by QA', source: 'carry-forward' });
+    expect(focus).toMatchObject({ score: 0, comment: 'Focus ring removed', source: 'template' });
+  });
+
+  it('asks for manual review instead of claiming nothing applied', () => {
+    const [trap] = scoreQuestions(product, new Map(), { ruleResults });
+    expect(trap.score).toBeNull();
+    expect(trap.comment).toBe('No automated results for kbd-focus-trap; manual review required.');
+  });
+});
+
+describe('scoreQuestions with the reflow audit switched off', () => {
+  const reflowQuestion = 'No loss of content or functionality occurs and horizontal scrolling is avoided when content is presented at a width of 320 pixels.This requires responsive design for most web sites. This is best tested by setting the browser window to 1280 pixels wide and then zooming the page content to 400%.';
+  const product: ParsedProduct = {
+    name: 'Test',
+    productIndex: 0,
+    standardsTableIndex: 0,
+    tables: [{
+      tableIndex: 1,
+      category: 'perceivable',
+      rows: [
+        { rowIndex: 1, type: 'section', cells: [], sectionName: '1.4: Distinguishable' },
+        { rowIndex: 2, type: 'question', cells: [], questionText: reflowQuestion, weight: 2 },
+      ],
+    }],
+  };
+
+  it('keeps the carried-forward answer for 1.4.10', () => {
+    const carryForwardScores = new Map<string, QuestionScore>([['1:2', {
+      rowIndex: 2, tableIndex: 1, questionText: reflowQuestion, score: 0, weight: 2, weightedScore: 0, comment: 'Tables overflow at 320px', automatable: false,
+    }]]);
+    const [reflow] = scoreQuestions(product, new Map(), { ruleResults: new Map(), carryForwardScores });
+    expect(reflow).toMatchObject({ score: 0, comment: 'Tables overflow at 320px', source: 'carry-forward' });
+  });
+
+  it('asks for manual review without an earlier answer', () => {
+    const [reflow] = scoreQuestions(product, new Map(), { ruleResults: new Map() });
+    expect(reflow.score).toBeNull();
+    expect(reflow.comment).toBe('No automated results for reflow-horizontal-scroll, reflow-content-lost; manual review required.');
+  });
+});
+
+describe('gradeRuleResults', () => {
+  const rule = (worstImpact: AxeRuleAggregate['worstImpact'], failingPages: number, totalUrls = 10): AxeRuleAggregate => ({
+    ruleId: 'color-contrast',
+    description: '',
+    status: failingPages > 0 ? 'fail' : 'pass',
+    wcagScs: ['1.4.3'],
+    failingUrls: Array.from({ length: failingPages }, (_, i) => `https://example.com/${i}`),
+    violationNodes: failingPages,
+    passingNodes: 20,
+    worstImpact,
+    passingUrls: totalUrls - failingPages,
+    incompleteUrls: 0,
+    totalUrls,
+  });
+
+  it('supports when nothing fails', () => {
+    expect(gradeRuleResults([rule(null, 0)], PARTIAL_SCORING).conformance).toBe('Supports');
+  });
+
+  it('applies the threshold for the worst impact', () => {
+    expect(gradeRuleResults([rule('serious', 2)], PARTIAL_SCORING).conformance).toBe('Partially Supports');
+    expect(gradeRuleResults([rule('serious', 3)], PARTIAL_SCORING).conformance).toBe('Does Not Support');
+    expect(gradeRuleResults([rule('minor', 10)], PARTIAL_SCORING).conformance).toBe('Partially Supports');
+    expect(gradeRuleResults([rule('critical', 1)], PARTIAL_SCORING).conformance).toBe('Does Not Support');
+  });
+
+  it('counts affected pages once across rules', () => {
+    const verdict = gradeRuleResults([rule('moderate', 2), rule('serious', 3)], PARTIAL_SCORING);
+    expect(verdict).toMatchObject({ affectedPages: 3, worstImpact: 'serious', failingNodes: 5, passingNodes: 40 });
+  });
+
+  it('honours custom thresholds', () => {
+    const strict = { ...PARTIAL_SCORING, partialThresholds: { ...PARTIAL_SCORING.partialThresholds, minor: 0 } };
+    expect(gradeRuleResults([rule('minor', 1)], strict).conformance).toBe('Does Not Support');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { parseSitemap, fetchSitemapUrls } from '../src/scanner/sitemap.js';
+import { filterCrawlLinks } from '../src/scanner/crawler.js';
+import type { DiscoveryConfig } from '../src/types.js';
+
+const urlset = (locs: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${locs.map((l) => `  <url><loc>${l}</loc><lastmod>2026-01-01</lastmod></url>`).join('\n')}
+</urlset>`;
+
+describe('parseSitemap', () => {
+  it('reads page URLs from a urlset', () => {
+    expect(parseSitemap(urlset(['https://example.com/a', 'https://example.com/b'])).urls).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+    ]);
+  });
+
+  it('handles a single-entry urlset', () => {
+    expect(parseSitemap(urlset(['https://example.com/only'])).urls).toEqual(['https://example.com/only']);
+  });
+
+  it('reads nested sitemaps from a sitemap index', () => {
+    const xml = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sitemap><loc>https://example.com/sitemap-1.xml</loc></sitemap>
+    </sitemapindex>`;
+    expect(parseSitemap(xml)).toEqual({ urls: [], sitemaps: ['https://example.com/sitemap-1.xml'] });
+  });
+});
+
+describe('fetchSitemapUrls', () => {
+  const fakeFetch = (pages: Record<string, string>) =>
+    (async (url: string) => {
+      const body = pages[url];
+      return new Response(body ?? '', { status: body === undefined ? 404 : 200 });
+    }) as unknown as typeof fetch;
+
+  it('follows sitemap indexes up to the limit', async () => {
+    const fetchImpl = fakeFetch({
+      'https://example.com/sitemap.xml': `<sitemapindex><sitemap><loc>https://example.com/s1.xml</loc></sitemap></sitemapindex>`,
+      'https://example.com/s1.xml': urlset(['https://example.com/1', 'https://example.com/2', 'https://example.com/3']),
+    });
+    const urls = await fetchSitemapUrls('https://example.com/sitemap.xml', 2, fetchImpl);
+    expect(urls).toEqual(['https://example.com/1', 'https://example.com/2']);
+  });
+
+  it('throws on HTTP errors', async () => {
+    await expect(fetchSitemapUrls('https://example.com/missing.xml', 10, fakeFetch({}))).rejects.toThrow('HTTP 404');
+  });
+});
+
+describe('filterCrawlLinks', () => {
+  const discovery: DiscoveryConfig = {
+    startUrl: 'https://example.com/',
+    maxDepth: 2,
+    maxPages: 100,
+    include: [],
+    exclude: ['/logout'],
+    samplesPerTemplate: 3,
+    outputPath: '/tmp/x.json',
+  };
+
+  it('keeps same-origin page links and resolves relative hrefs', () => {
+    const links = filterCrawlLinks(
+      ['/docs#top', 'https://other.com/x', 'mailto:a@b.com', '/files/report.pdf', '/logout', 'page2'],
+      'https://example.com/section/',
+      discovery
+    );
+    expect(links).toEqual(['https://example.com/docs', 'https://example.com/section/page2']);
+  });
+});
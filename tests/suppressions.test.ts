@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  loadSuppressions,
+  isExpired,
+  matchesSuppression,
+  applySuppressions,
+} from '../src/scanner/suppressions.js';
+import type { DetailedScanResult, Suppression } from '../src/types.js';
+
+const TODAY = new Date('2026-03-01T12:00:00Z');
+
+const waiver = (overrides: Partial<Suppression>): Suppression => ({
+  reason: 'Third-party widget',
+  owner: 'web-team',
+  expires: '2026-06-30',
+  ...overrides,
+});
+
+const makeResult = (url: string, targets: string[][]): DetailedScanResult => ({
+  url,
+  timestamp: '2026-03-01T00:00:00Z',
+  status: 'ok',
+  violations: [{ ruleId: 'color-contrast', description: 'd', impact: 'serious', wcagTags: ['wcag143'], nodes: targets.length }],
+  passes: [],
+  incomplete: [],
+  violationDetails: [{
+    ruleId: 'color-contrast',
+    description: 'd',
+    impact: 'serious',
+    wcagTags: ['wcag143'],
+    help: 'Elements must meet minimum color contrast ratio thresholds',
+    helpUrl: 'https://dequeuniversity.com/rules/color-contrast',
+    nodeDetails: targets.map((target) => ({ target, html: '<span></span>', failureSummary: 'Fix' })),
+  }],
+});
+
+describe('isExpired', () => {
+  it('keeps a waiver active through its expiry day', () => {
+    expect(isExpired(waiver({ expires: '2026-03-01' }), TODAY)).toBe(false);
+    expect(isExpired(waiver({ expires: '2026-02-28' }), TODAY)).toBe(true);
+  });
+});
+
+describe('matchesSuppression', () => {
+  const node = { target: ['#chat-widget', 'button.send'], html: '<button></button>', failureSummary: 'Fix' };
+
+  it('requires every set matcher to match', () => {
+    const s = waiver({ ruleId: 'color-contrast', urlPattern: '/help/**' });
+    expect(matchesSuppression(s, 'color-contrast', 'https://example.com/help/faq', node)).toBe(true);
+    expect(matchesSuppression(s, 'color-contrast', 'https://example.com/app', node)).toBe(false);
+    expect(matchesSuppression(s, 'image-alt', 'https://example.com/help/faq', node)).toBe(false);
+  });
+
+  it('matches selectors as a substring of the node target', () => {
+    expect(matchesSuppression(waiver({ selector: '#chat-widget' }), 'color-contrast', 'https://example.com', node)).toBe(true);
+    expect(matchesSuppression(waiver({ selector: '#footer' }), 'color-contrast', 'https://example.com', node)).toBe(false);
+  });
+});
+
+describe('applySuppressions', () => {
+  it('removes waived nodes and reduces the violation count', () => {
+    const results = [makeResult('https://example.com/a', [['#chat-widget'], ['#main']])];
+    const outcome = applySuppressions(results, [waiver({ selector: '#chat-widget' })], TODAY);
+
+    expect(outcome.results[0].violationDetails[0].nodeDetails).toHaveLength(1);
+    expect(outcome.results[0].violations[0].nodes).toBe(1);
+    expect(outcome.waived).toHaveLength(1);
+    expect(outcome.waived[0].nodes[0].target).toEqual(['#chat-widget']);
+  });
+
+  it('moves a fully waived rule to passes', () => {
+    const results = [makeResult('https://example.com/a', [['#chat-widget']])];
+    const outcome = applySuppressions(results, [waiver({ ruleId: 'color-contrast' })], TODAY);
+
+    expect(outcome.results[0].violations).toHaveLength(0);
+    expect(outcome.results[0].violationDetails).toHaveLength(0);
+    expect(outcome.results[0].passes.map((p) => p.ruleId)).toEqual(['color-contrast']);
+  });
+
+  it('ignores expired waivers and reports them', () => {
+    const results = [makeResult('https://example.com/a', [['#chat-widget']])];
+    const expired = waiver({ ruleId: 'color-contrast', expires: '2026-01-31' });
+    const outcome = applySuppressions(results, [expired], TODAY);
+
+    expect(outcome.results).toEqual(results);
+    expect(outcome.waived).toHaveLength(0);
+    expect(outcome.expired).toEqual([expired]);
+  });
+});
+
+describe('loadSuppressions', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = join(tmpdir(), `vpat-suppressions-test-${Date.now()}`);
+    mkdirSync(tmpDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const writeFile = (content: unknown): string => {
+    const path = join(tmpDir, 'suppressions.json');
+    writeFileSync(path, JSON.stringify(content));
+    return path;
+  };
+
+  it('loads valid suppressions', () => {
+    const path = writeFile({ suppressions: [waiver({ ruleId: 'region' })] });
+    expect(loadSuppressions(path)).toHaveLength(1);
+  });
+
+  it('rejects a suppression without any matcher', () => {
+    const path = writeFile({ suppressions: [waiver({})] });
+    expect(() => loadSuppressions(path)).toThrow();
+  });
+
+  it('rejects a malformed expiry date', () => {
+    const path = writeFile({ suppressions: [waiver({ ruleId: 'region', expires: 'next year' })] });
+    expect(() => loadSuppressions(path)).toThrow();
+  });
+
+  it('throws when the file is missing', () => {
+    expect(() => loadSuppressions(join(tmpDir, 'missing.json'))).toThrow('not found');
+  });
+});
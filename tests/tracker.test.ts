@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { buildTrackerIssues, trackerIssuesToCsv, trackerIssuesToJson } from '../src/remediation/tracker.js';
+import { remediationId } from '../src/remediation/history.js';
+import type { RemediationIssue } from '../src/scanner/remediationReport.js';
+
+const issue = (ruleId: string, nodes = 1): RemediationIssue => ({
+  ruleId,
+  description: `${ruleId} description`,
+  impact: 'serious',
+  wcagTags: ['wcag2aa', 'wcag143'],
+  help: 'Elements must meet minimum color contrast ratio thresholds',
+  helpUrl: `https://dequeuniversity.com/rules/axe/4.11/${ruleId}`,
+  occurrences: [{
+    url: 'https://example.com/a',
+    nodes: Array.from({ length: nodes }, (_, i) => ({ target: [`.btn-${i}`], html: `<button class="btn-${i}">Go</button>`, failureSummary: 'Fix' })),
+  }],
+  totalNodes: nodes,
+});
+
+describe('remediationId', () => {
+  it('is stable per rule and independent of position', () => {
+    expect(remediationId('color-contrast')).toBe(remediationId('color-contrast'));
+    expect(remediationId('color-contrast')).toMatch(/^REM-[0-9A-F]{6}$/);
+    expect(remediationId('color-contrast')).not.toBe(remediationId('image-alt'));
+  });
+});
+
+describe('buildTrackerIssues', () => {
+  it('builds title, labels, component and a body with selectors and HTML', () => {
+    const [tracked] = buildTrackerIssues([issue('color-contrast')], 'ClearDocs');
+    const id = remediationId('color-contrast');
+    expect(tracked).toMatchObject({
+      id,
+      title: `[${id}] Elements must meet minimum color contrast ratio thresholds (color-contrast)`,
+      labels: ['accessibility', 'impact-serious', 'wcag-1.4.3'],
+      component: 'ClearDocs',
+      pages: 1,
+      elements: 1,
+    });
+    expect(tracked.body).toContain('- `.btn-0`');
+    expect(tracked.body).toContain('<button class="btn-0">Go</button>');
+    expect(tracked.body).toContain('- **WCAG:** 1.4.3');
+  });
+
+  it('caps the elements listed in the body', () => {
+    const [tracked] = buildTrackerIssues([issue('color-contrast', 25)], 'ClearDocs');
+    expect(tracked.body).toContain('…and 5 more element(s).');
+    expect(tracked.body).not.toContain('.btn-20');
+  });
+});
+
+describe('tracker exports', () => {
+  it('writes JSON that round-trips', () => {
+    const issues = buildTrackerIssues([issue('color-contrast')], 'ClearDocs');
+    expect(JSON.parse(trackerIssuesToJson(issues))).toEqual(issues);
+  });
+
+  it('writes CSV with quoted multi-line descriptions', () => {
+    const csv = trackerIssuesToCsv(buildTrackerIssues([issue('color-contrast')], 'ClearDocs'));
+    const [header, row] = csv.split('\r\n');
+    expect(header).toBe('ID,Summary,Description,Labels,Component,Impact,Pages,Elements');
+    expect(row).toMatch(/^REM-[0-9A-F]{6},\[REM-[0-9A-F]{6}\] Elements must meet.*,"color-contrast description/);
+    expect(csv).toContain('""btn-0""');
+    expect(csv).toContain(',accessibility impact-serious wcag-1.4.3,ClearDocs,serious,1,1\r\n');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { syncTrackerIssues, type RemoteIssue } from '../src/remediation/trackerSync.js';
+import type { TrackerIssue } from '../src/remediation/tracker.js';
+
+interface Call {
+  method: string;
+  url: string;
+  body: any;
+  auth?: string;
+}
+
+let server: Server;
+let endpoint: string;
+let remote: RemoteIssue[] = [];
+let calls: Call[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      calls.push({ method: req.method!, url: req.url!, body: raw ? JSON.parse(raw) : undefined, auth: req.headers.authorization });
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url!.startsWith('/fail/')) {
+        res.statusCode = 500;
+        res.end();
+      } else if (req.method === 'GET' && req.url!.startsWith('/api/issues')) {
+        res.end(JSON.stringify(remote));
+      } else if (req.method === 'POST' && req.url === '/api/issues') {
+        res.statusCode = 201;
+        res.end(JSON.stringify({ id: '100' }));
+      } else {
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>((done) => server.listen(0, '127.0.0.1', done));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/`;
+});
+
+afterAll(async () => {
+  await new Promise((done) => server.close(done));
+});
+
+beforeEach(() => {
+  remote = [];
+  calls = [];
+});
+
+const issue = (id: string): TrackerIssue => ({
+  id,
+  title: `[${id}] Title`,
+  body: 'Body',
+  labels: ['accessibility'],
+  component: 'ClearDocs',
+  ruleId: 'image-alt',
+  impact: 'critical',
+  pages: 2,
+  elements: 3,
+});
+
+describe('syncTrackerIssues', () => {
+  it('creates, comments on, reopens and closes issues', async () => {
+    remote = [
+      { id: '1', externalId: 'REM-AAAAAA', state: 'open' },
+      { id: '2', externalId: 'REM-BBBBBB', state: 'closed' },
+      { id: '3', externalId: 'REM-CCCCCC', state: 'open' },
+    ];
+
+    const summary = await syncTrackerIssues(
+      [issue('REM-AAAAAA'), issue('REM-BBBBBB'), issue('REM-DDDDDD')],
+      { endpoint, tokenEnv: 'VPAT_TEST_TRACKER_TOKEN' },
+      'ClearDocs',
+      '2026-04-15',
+      new Set(['REM-CCCCCC'])
+    );
+
+    expect(summary).toEqual({
+      created: ['REM-DDDDDD'],
+      commented: ['REM-AAAAAA'],
+      reopened: ['REM-BBBBBB'],
+      closed: ['REM-CCCCCC'],
+    });
+    expect(calls[0]).toMatchObject({ method: 'GET', url: '/api/issues?component=ClearDocs' });
+    expect(calls).toContainEqual(expect.objectContaining({ method: 'POST', url: '/api/issues/1/comments', body: { body: 'Still open as of 2026-04-15 (3 element(s) on 2 page(s)).' } }));
+    expect(calls).toContainEqual(expect.objectContaining({ method: 'PATCH', url: '/api/issues/2', body: { state: 'open' } }));
+    expect(calls).toContainEqual(expect.objectContaining({ method: 'POST', url: '/api/issues', body: expect.objectContaining({ externalId: 'REM-DDDDDD', component: 'ClearDocs' }) }));
+    expect(calls).toContainEqual(expect.objectContaining({ method: 'PATCH', url: '/api/issues/3', body: { state: 'closed' } }));
+  });
+
+  it('keeps issues open when their pages were not scanned successfully', async () => {
+    remote = [{ id: '3', externalId: 'REM-CCCCCC', state: 'open' }];
+    const summary = await syncTrackerIssues([], { endpoint, tokenEnv: 'VPAT_TEST_TRACKER_TOKEN' }, 'ClearDocs', '2026-04-15', new Set());
+    expect(summary.closed).toEqual([]);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('leaves issues without a remediation ID alone', async () => {
+    remote = [{ id: '9', externalId: '', state: 'open' }];
+    const summary = await syncTrackerIssues([], { endpoint, tokenEnv: 'VPAT_TEST_TRACKER_TOKEN' }, 'ClearDocs', '2026-04-15', new Set(['']));
+    expect(summary.closed).toEqual([]);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('sends the bearer token from the configured environment variable', async () => {
+    process.env.VPAT_TEST_TRACKER_TOKEN = 'secret';
+    try {
+      await syncTrackerIssues([], { endpoint, tokenEnv: 'VPAT_TEST_TRACKER_TOKEN' }, 'ClearDocs', '2026-04-15', new Set());
+      expect(calls[0].auth).toBe('Bearer secret');
+    } finally {
+      delete process.env.VPAT_TEST_TRACKER_TOKEN;
+    }
+  });
+
+  it('throws on error responses', async () => {
+    await expect(
+      syncTrackerIssues([], { endpoint: endpoint.replace('/api/', '/fail/'), tokenEnv: 'X' }, 'ClearDocs', '2026-04-15', new Set())
+    ).rejects.toThrow('Tracker GET /issues?component=ClearDocs failed: 500');
+  });
+});
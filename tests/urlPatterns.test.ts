@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  globToRegExp,
+  matchesUrlPattern,
+  isUrlAllowed,
+  urlTemplate,
+  groupUrlsByTemplate,
+  sampleTemplates,
+} from '../src/scanner/urlPatterns.js';
+
+describe('globToRegExp', () => {
+  it('matches * within a single path segment', () => {
+    const re = globToRegExp('/15978/*/d');
+    expect(re.test('/15978/558785/d')).toBe(true);
+    expect(re.test('/15978/a/b/d')).toBe(false);
+  });
+
+  it('matches ** across segments', () => {
+    expect(globToRegExp('/app/**').test('/app/tr/492612/capital-project')).toBe(true);
+  });
+
+  it('escapes regex characters', () => {
+    expect(globToRegExp('/page?id=1').test('/pageXid=1')).toBe(true);
+    expect(globToRegExp('/a.b').test('/aXb')).toBe(false);
+  });
+});
+
+describe('matchesUrlPattern', () => {
+  it('matches path patterns against path and query', () => {
+    expect(matchesUrlPattern('https://example.com/reports/2026?x=1', '/reports/**')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/admin', '/reports/**')).toBe(false);
+  });
+
+  it('matches full-URL patterns against the whole URL', () => {
+    expect(matchesUrlPattern('https://example.com/a', 'https://example.com/*')).toBe(true);
+    expect(matchesUrlPattern('https://other.com/a', 'https://example.com/*')).toBe(false);
+  });
+});
+
+describe('isUrlAllowed', () => {
+  it('allows everything with no patterns', () => {
+    expect(isUrlAllowed('https://example.com/x', [], [])).toBe(true);
+  });
+
+  it('requires an include match and no exclude match', () => {
+    const include = ['/app/**'];
+    const exclude = ['**/photos'];
+    expect(isUrlAllowed('https://example.com/app/project/1/overview', include, exclude)).toBe(true);
+    expect(isUrlAllowed('https://example.com/app/project/1/photos', include, exclude)).toBe(false);
+    expect(isUrlAllowed('https://example.com/blog', include, exclude)).toBe(false);
+  });
+});
+
+describe('urlTemplate', () => {
+  it('collapses numeric path segments', () => {
+    expect(urlTemplate('https://example.com/15978/558785/d')).toBe('https://example.com/:id/:id/d');
+    expect(urlTemplate('https://example.com/15978/558742/d')).toBe('https://example.com/:id/:id/d');
+  });
+
+  it('collapses UUIDs and long hex IDs', () => {
+    expect(urlTemplate('https://example.com/doc/3f2b8c1e-9a4d-4e2f-8b6a-1c2d3e4f5a6b'))
+      .toBe('https://example.com/doc/:id');
+    expect(urlTemplate('https://example.com/obj/65a1f0c2b3d4e5f6a7b8c9d0')).toBe('https://example.com/obj/:id');
+  });
+
+  it('keeps word segments and sorts query parameters', () => {
+    expect(urlTemplate('https://example.com/revenue?objectid=122117&breakdowntype=object'))
+      .toBe('https://example.com/revenue?breakdowntype=object&objectid=:id');
+  });
+});
+
+describe('groupUrlsByTemplate / sampleTemplates', () => {
+  const urls = [
+    'https://example.com/15978/558785/d',
+    'https://example.com/15978/71726/cip-project-request',
+    'https://example.com/15978/558742/d',
+    'https://example.com/15978/558743/d',
+  ];
+
+  it('groups near-identical URLs in discovery order', () => {
+    const groups = groupUrlsByTemplate(urls);
+    expect(groups.map((g) => g.template)).toEqual([
+      'https://example.com/:id/:id/d',
+      'https://example.com/:id/:id/cip-project-request',
+    ]);
+    expect(groups[0].urls).toHaveLength(3);
+  });
+
+  it('samples N URLs per template', () => {
+    expect(sampleTemplates(groupUrlsByTemplate(urls), 2)).toEqual([
+      'https://example.com/15978/558785/d',
+      'https://example.com/15978/558742/d',
+      'https://example.com/15978/71726/cip-project-request',
+    ]);
+  });
+});
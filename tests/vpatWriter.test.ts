@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, rmSync, mkdtempSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { buildVpatSections, generateVpatDocx, type VpatReportInput } from '../src/docx/vpatWriter.js';
+
+const input = (edition: VpatReportInput['edition']): VpatReportInput => ({
+  product: 'TestProduct',
+  reportDate: '2025-01-01',
+  edition,
+  standard: { version: '2.1', level: 'AA' },
+  scores: [],
+  wcagResults: new Map(),
+});
+
+describe('buildVpatSections', () => {
+  it('emits one WCAG table per level up to the target', () => {
+    const titles = buildVpatSections(input('wcag')).map((s) => s.title);
+    expect(titles).toEqual([
+      'WCAG 2.1 Report',
+      'Table 1: Success Criteria, Level A',
+      'Table 2: Success Criteria, Level AA',
+    ]);
+  });
+
+  it('adds Section 508 chapters 3, 5 and 6 to the 508 edition', () => {
+    const titles = buildVpatSections(input('508')).map((s) => s.title);
+    expect(titles).toContain('Revised Section 508 Report');
+    expect(titles.filter((t) => t.startsWith('Chapter'))).toEqual([
+      'Chapter 3: Functional Performance Criteria (FPC)',
+      'Chapter 5: Software',
+      'Chapter 6: Support Documentation and Services',
+    ]);
+  });
+
+  it('numbers EN 301 549 web requirements under chapter 9', () => {
+    const sections = buildVpatSections(input('eu'));
+    expect(sections.some((s) => s.title.startsWith('WCAG'))).toBe(false);
+    const web = sections.find((s) => s.title === 'Chapter 9: Web')!;
+    expect(web.rows![0].id).toBe('9.1.1.1');
+    expect(sections.find((s) => s.title.startsWith('Chapter 8'))!.note).toBeTruthy();
+  });
+
+  it('includes every report in the international edition', () => {
+    const reports = buildVpatSections(input('int')).filter((s) => s.depth === 1).map((s) => s.title);
+    expect(reports).toEqual(['WCAG 2.1 Report', 'Revised Section 508 Report', 'EN 301 549 Report']);
+  });
+});
+
+describe('generateVpatDocx', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the report', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'vpat-writer-'));
+    const outputPath = join(dir, 'out', 'report.docx');
+    await generateVpatDocx(input('int'), outputPath);
+    expect(existsSync(outputPath)).toBe(true);
+  });
+});
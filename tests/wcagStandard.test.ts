@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  axeTagsForStandard,
+  isScInStandard,
+  filterMappingForStandard,
+  standardLabel,
+  standardsTableRows,
+  LEGACY_AXE_TAGS,
+} from '../src/mapping/wcagStandard.js';
+import { loadQuestionMapping } from '../src/mapping/questionMapping.js';
+import { loadAxeToWcagMapping } from '../src/mapping/wcagMapping.js';
+import { KEYBOARD_RULES } from '../src/scanner/keyboardAudit.js';
+import { REFLOW_RULES } from '../src/scanner/reflowAudit.js';
+import type { WcagToQuestionEntry } from '../src/types.js';
+
+describe('axeTagsForStandard', () => {
+  it('selects tags up to the version and level', () => {
+    expect(axeTagsForStandard({ version: '2.1', level: 'AA' })).toEqual(['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa']);
+  });
+
+  it('only adds wcag22aa for 2.2 at AA or above', () => {
+    expect(axeTagsForStandard({ version: '2.2', level: 'A' })).toEqual(['wcag2a', 'wcag21a']);
+    expect(axeTagsForStandard({ version: '2.2', level: 'AAA' })).toContain('wcag22aa');
+  });
+
+  it('runs every axe rule a question is scored by', () => {
+    const axeRules = loadAxeToWcagMapping();
+    const unscanned = loadQuestionMapping()
+      .flatMap((entry) => entry.questions.flatMap((q) => q.axeRules))
+      .filter((ruleId) => !(ruleId in KEYBOARD_RULES) && !(ruleId in REFLOW_RULES))
+      .filter((ruleId) => !axeRules.get(ruleId)?.tags.some((tag) => LEGACY_AXE_TAGS.includes(tag)));
+    expect(unscanned).toEqual([]);
+  });
+});
+
+describe('isScInStandard', () => {
+  it('excludes criteria added in later versions', () => {
+    expect(isScInStandard('2.5.8', { version: '2.1', level: 'AA' })).toBe(false);
+    expect(isScInStandard('2.5.8', { version: '2.2', level: 'AA' })).toBe(true);
+  });
+
+  it('excludes criteria above the target level', () => {
+    expect(isScInStandard('1.4.6', { version: '2.2', level: 'AA' })).toBe(false);
+  });
+
+  it('drops 4.1.1 Parsing from WCAG 2.2', () => {
+    expect(isScInStandard('4.1.1', { version: '2.1', level: 'A' })).toBe(true);
+    expect(isScInStandard('4.1.1', { version: '2.2', level: 'AAA' })).toBe(false);
+  });
+
+  it('returns false for unknown criteria', () => {
+    expect(isScInStandard('9.9.9', { version: '2.2', level: 'AAA' })).toBe(false);
+  });
+});
+
+describe('filterMappingForStandard', () => {
+  const mapping: WcagToQuestionEntry[] = [
+    {
+      wcagSc: '2.5',
+      sectionName: '2.5: Input Modalities',
+      questions: [
+        { questionText: 'Label in name', wcagScs: ['2.5.3'], rowIndices: {}, axeRules: [], automatable: false },
+        { questionText: 'Target size', wcagScs: ['2.5.8'], rowIndices: {}, axeRules: ['target-size'], automatable: true },
+      ],
+    },
+    {
+      wcagSc: '1.2',
+      sectionName: '1.2: Time-Based Media',
+      questions: [
+        { questionText: 'Sign language', wcagScs: ['1.2.6'], rowIndices: {}, axeRules: [], automatable: false },
+      ],
+    },
+  ];
+
+  it('drops out-of-scope questions and empty sections', () => {
+    const filtered = filterMappingForStandard(mapping, { version: '2.1', level: 'AA' });
+    expect(filtered).toHaveLength(1);
+    expect(filtered[0].questions.map((q) => q.questionText)).toEqual(['Label in name']);
+  });
+
+  it('keeps every question except 4.1.1 Parsing under WCAG 2.2', () => {
+    const all = loadQuestionMapping().flatMap((e) => e.questions);
+    const kept = filterMappingForStandard(loadQuestionMapping(), { version: '2.2', level: 'AAA' })
+      .flatMap((e) => e.questions);
+    // Only the 4.1.1 Parsing question falls outside WCAG 2.2
+    expect(all.length - kept.length).toBe(1);
+  });
+});
+
+describe('standard labels', () => {
+  it('formats the standard for documents', () => {
+    expect(standardLabel({ version: '2.0', level: 'A' })).toBe('WCAG 2.0 Level A');
+  });
+
+  it('marks included versions and levels in the standards table', () => {
+    const rows = standardsTableRows({ version: '2.1', level: 'AA' });
+    expect(rows.map((r) => r.included)).toEqual([
+      'Level A — Yes\nLevel AA — Yes\nLevel AAA — No',
+      'Level A — Yes\nLevel AA — Yes\nLevel AAA — No',
+      'Level A — No\nLevel AA — No\nLevel AAA — No',
+    ]);
+  });
+});